@@ -11,24 +11,26 @@ import {useRouter}  from 'next/navigation'
 
 import CardEditor   from '@/app/components/CardEditor'
 import type {TemplatePage} from '@/app/components/FabricCanvas'
+import type {CardProduct}  from '@/sanity/lib/getProduct'
 
 interface Props {
   templateId   : string
   initialPages : TemplatePage[]
+  products     : CardProduct[]
 }
 
-export default function EditorWrapper({templateId, initialPages}: Props) {
+export default function EditorWrapper({templateId, initialPages, products}: Props) {
   const router          = useRouter()
   const [error, setErr] = useState<string | null>(null)
 
   /** CardEditor → onSave */
-  const handleSave = async (pages: TemplatePage[], coverImageId?: string) => {
+  const handleSave = async (pages: TemplatePage[]) => {
     try {
       setErr(null)
       const res = await fetch(`/api/templates/${templateId}`, {
         method : 'PATCH',            // or POST – both accepted
         headers: {'content-type': 'application/json'},
-        body   : JSON.stringify({ pages, coverImage: coverImageId }),
+        body   : JSON.stringify({ pages }),
       })
 
       if (!res.ok) {
@@ -54,6 +56,7 @@ export default function EditorWrapper({templateId, initialPages}: Props) {
 
       <CardEditor
         initialPages={initialPages}
+        products={products}
         mode="staff"
         onSave={handleSave}
       />
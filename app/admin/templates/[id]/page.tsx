@@ -22,7 +22,7 @@ export default async function AdminTemplatePage({
   params: {id: string}
 }) {
   /* 1. fetch the *draft* template (404 if missing) */
-  const { pages } = await getTemplatePages(id)
+  const { pages, products } = await getTemplatePages(id)
   if (!pages) notFound()
 
   /* 2. load the client wrapper *only on the client* */
@@ -31,5 +31,7 @@ export default async function AdminTemplatePage({
     {ssr: false},
   )
 
-  return <EditorWrapper templateId={id} initialPages={pages} />
+  return (
+    <EditorWrapper templateId={id} initialPages={pages} products={products} />
+  )
 }
\ No newline at end of file
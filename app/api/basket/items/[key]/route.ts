@@ -0,0 +1,88 @@
+/**********************************************************************
+ * PATCH / DELETE /api/basket/items/[key]
+ * -------------------------------------------------------------------
+ * PATCH  { quantity?, recipient?, deliveryDate? }  – partial update
+ * DELETE                                           – remove the line
+ * Only the cookie's own, still-open basket can be changed.
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import {
+  basketDocId, basketTokenFromCookie, revisionConflict,
+} from '@/app/library/basket'
+import { cleanRecipient, deliveryDateError, type Recipient } from '@/lib/delivery'
+
+type Ctx = { params: { key: string } }
+
+/** basket id + revision when the cookie's basket is open and holds `key` */
+async function ownedOpenBasket(key: string): Promise<{ id: string; rev: string } | null> {
+  const token = basketTokenFromCookie()
+  if (!token) return null
+  const id = basketDocId(token)
+  const rev = await sanity.fetch<string | null>(
+    `*[_id == $id && status == "open" && $key in items[]._key][0]._rev`,
+    { id, key },
+  )
+  return rev ? { id, rev } : null
+}
+
+/* the write only lands on the revision seen open – a checkout that
+   locked the basket in between turns it into a 409 */
+const stillOpen = (err: unknown) => {
+  if (!revisionConflict(err)) throw err
+  return NextResponse.json({ error: 'Your basket changed – please try again' }, { status: 409 })
+}
+
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  try {
+    /* ---------- 1 ▸ validate body ----------------------------- */
+    const { quantity, recipient, deliveryDate } = (await req.json()) as {
+      quantity?    : number
+      recipient?   : Partial<Recipient>
+      deliveryDate?: string
+    }
+    if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1 || quantity > 50)) {
+      return NextResponse.json({ error: '`quantity` must be 1-50' }, { status: 400 })
+    }
+    const dateError = deliveryDate !== undefined ? deliveryDateError(deliveryDate) : null
+    if (dateError) {
+      return NextResponse.json({ error: dateError }, { status: 400 })
+    }
+
+    /* ---------- 2 ▸ ownership --------------------------------- */
+    const owned = await ownedOpenBasket(params.key)
+    if (!owned) return NextResponse.json({ error: 'not found' }, { status: 404 })
+
+    /* ---------- 3 ▸ patch just the given fields --------------- */
+    const at = `items[_key=="${params.key}"]`
+    const res = await sanity
+      .patch(owned.id)
+      .ifRevisionId(owned.rev)
+      .set({
+        ...(quantity     !== undefined && { [`${at}.quantity`]    : quantity }),
+        ...(recipient    !== undefined && { [`${at}.recipient`]   : cleanRecipient(recipient) }),
+        ...(deliveryDate !== undefined && { [`${at}.deliveryDate`]: deliveryDate }),
+      })
+      .commit()
+      .catch(stillOpen)
+
+    return res instanceof NextResponse ? res : NextResponse.json({ ok: true })
+  } catch (err) {
+    console.error('[basket:update]', err)
+    return NextResponse.json({ error: 'server' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  const owned = await ownedOpenBasket(params.key)
+  if (!owned) return NextResponse.json({ error: 'not found' }, { status: 404 })
+
+  const res = await sanity
+    .patch(owned.id)
+    .ifRevisionId(owned.rev)
+    .unset([`items[_key=="${params.key}"]`])
+    .commit()
+    .catch(stillOpen)
+  return res instanceof NextResponse ? res : NextResponse.json({ ok: true })
+}
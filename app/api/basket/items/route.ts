@@ -0,0 +1,130 @@
+/**********************************************************************
+ * POST /api/basket/items
+ * -------------------------------------------------------------------
+ * Body  { templateId, productId, pages: TemplatePage[4],
+ *         projectToken?, quantity? }
+ * Reply { ok, key, count }  + sets the basket cookie on first use
+ * • price + product name come from Sanity, never from the client
+ * • pages are frozen with the same toSanity adapter as templates
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { getProduct } from '@/sanity/lib/getProduct'
+import { pagesToSanity } from '@/app/library/layerAdapters'
+import {
+  basketCookie, basketDocId, basketTokenFromCookie, revisionConflict,
+} from '@/app/library/basket'
+import { isToken, newToken } from '@/lib/tokens'
+
+export async function POST(req: NextRequest) {
+  try {
+    /* ---------- 1 ▸ validate body ----------------------------- */
+    const { templateId, productId, pages, projectToken, quantity = 1 } =
+      (await req.json()) as {
+        templateId?  : string
+        productId?   : string
+        pages        : any
+        projectToken?: string
+        quantity?    : number
+      }
+    if (typeof templateId !== 'string' || !templateId) {
+      return NextResponse.json({ error: '`templateId` is required' }, { status: 400 })
+    }
+    if (typeof productId !== 'string' || !productId) {
+      return NextResponse.json({ error: '`productId` is required' }, { status: 400 })
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 50) {
+      return NextResponse.json({ error: '`quantity` must be 1-50' }, { status: 400 })
+    }
+    if (!Array.isArray(pages) || pages.length !== 4) {
+      return NextResponse.json(
+        { error: '`pages` must be an array with exactly four items' },
+        { status: 400 },
+      )
+    }
+    if (!pages.every(p => Array.isArray(p?.layers))) {
+      return NextResponse.json(
+        { error: 'Each page object must contain a `layers` array' },
+        { status: 400 },
+      )
+    }
+
+    /* ---------- 2 ▸ price + names from Sanity ----------------- */
+    const [product, title] = await Promise.all([
+      getProduct(productId),
+      sanity.fetch<string | null>(
+        `*[_type == "cardTemplate" && _id in [$id, $draftId]][0].title`,
+        { id: templateId, draftId: `drafts.${templateId}` },
+      ),
+    ])
+    if (!product) {
+      return NextResponse.json({ error: `Unknown product ${productId}` }, { status: 404 })
+    }
+    if (product.price == null) {
+      return NextResponse.json({ error: `${product.title} isn’t on sale yet` }, { status: 409 })
+    }
+    if (!title) {
+      return NextResponse.json({ error: `Unknown template ${templateId}` }, { status: 404 })
+    }
+
+    /* ---------- 3 ▸ open basket (new one after a checkout) ---- */
+    let token = basketTokenFromCookie()
+    let cur = token
+      ? await sanity.fetch<{ status?: string; _rev: string } | null>(
+          `*[_id == $id][0]{status, _rev}`, { id: basketDocId(token) })
+      : null
+    /* a basket being paid for (or paid) is frozen – start a fresh one */
+    if (!token || (cur && cur.status !== 'open')) {
+      token = newToken()
+      cur   = null
+    }
+
+    /* ---------- 4 ▸ append the frozen item -------------------- */
+    const key = randomUUID()
+    const item = {
+      _key        : key,
+      _type       : 'basketItem',
+      template    : { _type: 'reference', _ref: templateId, _weak: true },
+      product     : { _type: 'reference', _ref: productId,  _weak: true },
+      ...(isToken(projectToken) && { project: projectToken }),
+      title,
+      productTitle: product.title,
+      unitPrice   : product.price,
+      quantity,
+      pages       : pagesToSanity(pages),
+      json        : JSON.stringify(pages),
+    }
+
+    const id = basketDocId(token)
+    const saved = await sanity
+      .transaction()
+      .createIfNotExists({ _id: id, _type: 'basket', status: 'open', items: [] })
+      .patch(id, p => {
+        const add = p.setIfMissing({ items: [] }).append('items', [item])
+        /* only onto the revision we saw open – not one a checkout just locked */
+        return cur ? add.ifRevisionId(cur._rev) : add
+      })
+      .commit({ autoGenerateArrayKeys: true, returnDocuments: true })
+      .catch(err => {
+        if (revisionConflict(err)) return null
+        throw err
+      })
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Your basket changed – please try again' },
+        { status: 409 },
+      )
+    }
+
+    const count = (saved as any[]).find(d => d._id === id)?.items?.length ?? 1
+
+    const res = NextResponse.json({ ok: true, key, count }, { status: 201 })
+    res.cookies.set(basketCookie(token))
+    return res
+  } catch (err) {
+    console.error('[basket:add]', err)
+    return NextResponse.json({ error: 'server' }, { status: 500 })
+  }
+}
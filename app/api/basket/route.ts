@@ -0,0 +1,20 @@
+/**********************************************************************
+ * GET /api/basket
+ * -------------------------------------------------------------------
+ * Reply the cookie's basket (without page snapshots) – or an empty one
+ *********************************************************************/
+
+import { NextResponse } from 'next/server'
+import { basketTokenFromCookie, getBasket } from '@/app/library/basket'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const token  = basketTokenFromCookie()
+  const basket = token ? await getBasket(token) : null
+
+  return NextResponse.json(
+    basket && basket.status === 'open' ? basket : { items: [], total: 0 },
+    { headers: { 'cache-control': 'no-store' } },
+  )
+}
@@ -0,0 +1,52 @@
+/**********************************************************************
+ * GET /api/checkout/return?payment=<id>
+ * -------------------------------------------------------------------
+ * Where the payment provider sends the shopper after an off-site step.
+ * The status is re-read from the provider – the query string is only
+ * a hint – then we redirect to the confirmation page or the basket.
+ * A payment that doesn't match the basket it was for is refunded and
+ * the basket handed back, so nothing is ever charged but not ordered.
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  BASKET_COOKIE, getBasket, itemsTotalPence, markBasketPaid, releaseBasket,
+} from '@/app/library/basket'
+import { getPaymentProvider } from '@/lib/payments'
+import { placeOrder } from '@/lib/fulfilment'
+
+export async function GET(req: NextRequest) {
+  const back = (path: string) => NextResponse.redirect(new URL(path, req.nextUrl.origin))
+
+  const id = req.nextUrl.searchParams.get('payment')
+  if (!id) return back('/basket?error=payment')
+
+  const provider = getPaymentProvider()
+  const payment  = await provider.getPayment(id)
+  const basket   = payment ? await getBasket(payment.reference) : null
+  if (!payment || !basket || payment.status !== 'succeeded') {
+    return back('/basket?error=payment')
+  }
+
+  /* already paid by another attempt – this charge is a duplicate */
+  if (basket.status === 'paid' && basket.paymentId !== payment.id) {
+    console.error('[checkout:return] duplicate payment', payment.id, basket.token)
+    await provider.refundPayment(payment.id)
+    return back(`/checkout/confirmation/${basket.token}`)
+  }
+
+  /* not what the basket costs – give the money back, free the basket */
+  if (basket.status === 'open' && payment.amount !== itemsTotalPence(basket.items)) {
+    console.error('[checkout:return] amount mismatch', payment.id, basket.token)
+    await provider.refundPayment(payment.id)
+    await releaseBasket(basket.token)
+    return back('/basket?error=changed')
+  }
+
+  await markBasketPaid(basket.token, { provider: provider.name, id: payment.id }, payment.amount / 100)
+  await placeOrder(basket.token).catch(err => console.error('[checkout:return] order', basket.token, err))
+
+  const res = back(`/checkout/confirmation/${basket.token}`)
+  res.cookies.delete(BASKET_COOKIE)
+  return res
+}
@@ -0,0 +1,84 @@
+/**********************************************************************
+ * POST /api/checkout
+ * -------------------------------------------------------------------
+ * Pays for the cookie's basket through the configured PaymentProvider
+ * Reply { redirect }  – confirmation page, or the provider's off-site
+ *                       step (3-D Secure etc.) which comes back via
+ *                       /api/checkout/return
+ *       402 { error } when the payment is declined
+ *       409 { error } while another attempt is paying for the basket
+ *       422 { errors } when items still lack an address / date, or
+ *                      hold wording / pictures moderation refused
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  BASKET_COOKIE, basketTokenFromCookie, checkoutErrors, getBasket,
+  lockBasketForPayment, markBasketPaid, moderationErrors,
+  releaseBasket,
+} from '@/app/library/basket'
+import { getPaymentProvider } from '@/lib/payments'
+import { placeOrder } from '@/lib/fulfilment'
+
+export async function POST(req: NextRequest) {
+  try {
+    /* ---------- 1 ▸ basket must be complete ------------------- */
+    const token  = basketTokenFromCookie()
+    const basket = token ? await getBasket(token) : null
+    if (!token || !basket) {
+      return NextResponse.json({ error: 'Your basket is empty' }, { status: 400 })
+    }
+    const errors = checkoutErrors(basket)
+    if (!errors.length) errors.push(...await moderationErrors(token))
+    if (errors.length) {
+      return NextResponse.json({ error: errors[0], errors }, { status: 422 })
+    }
+
+    /* ---------- 2 ▸ lock, then take payment ------------------- */
+    const locked = await lockBasketForPayment(token)
+    if (!locked) {
+      return NextResponse.json(
+        { error: 'This basket is already being paid for – please wait a moment' },
+        { status: 409 },
+      )
+    }
+
+    /* charge what the lock priced – the basket read above may be stale */
+    const { idempotencyKey, amount } = locked
+    const provider = getPaymentProvider()
+    const payment  = await provider.createPayment({
+      amount,
+      currency   : 'GBP',
+      reference  : token,
+      description: `Walty cards × ${basket.items.reduce((n, i) => n + i.quantity, 0)}`,
+      returnUrl  : new URL('/api/checkout/return', req.nextUrl.origin).toString(),
+      idempotencyKey,
+    }).catch(async err => {
+      await releaseBasket(token).catch(() => {})
+      throw err
+    })
+
+    if (payment.status === 'failed') {
+      await releaseBasket(token)
+      return NextResponse.json(
+        { error: payment.error ?? 'Payment failed' },
+        { status: 402 },
+      )
+    }
+    if (payment.status === 'requires_action') {
+      return NextResponse.json({ redirect: payment.redirectUrl })
+    }
+
+    /* ---------- 3 ▸ paid → confirmation ----------------------- */
+    await markBasketPaid(token, { provider: provider.name, id: payment.id }, amount / 100)
+    /* the money is taken – a hiccup here is for staff, not the shopper */
+    await placeOrder(token).catch(err => console.error('[checkout] order', token, err))
+
+    const res = NextResponse.json({ redirect: `/checkout/confirmation/${token}` })
+    res.cookies.delete(BASKET_COOKIE)
+    return res
+  } catch (err) {
+    console.error('[checkout]', err)
+    return NextResponse.json({ error: 'server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+/**********************************************************************
+ * POST /api/moderation/[id]
+ * -------------------------------------------------------------------
+ * Staff decision on a moderationFlag (Studio Approve / Reject buttons)
+ * Body  { status: 'approved' | 'rejected' }
+ * Reply { status, resumed }  – `resumed` are the held orders an
+ *       approval cleared; they are rendering again
+ *       401 without a staff token (lib/staffAuth)
+ *********************************************************************/
+
+import { NextResponse } from 'next/server'
+import { withStaff, staffCors } from '@/lib/staffAuth'
+import { decideFlag, isFlagId } from '@/lib/moderation'
+import { resumeHeldOrders } from '@/lib/fulfilment'
+
+export const runtime = 'nodejs'
+
+/* Studio may run on its own origin */
+const CORS = staffCors('POST, OPTIONS')
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS })
+}
+
+export const POST = withStaff<{ params: { id: string } }>(CORS, async (req, { params }, staff) => {
+  if (!isFlagId(params.id)) {
+    return NextResponse.json({ error: 'not found' }, { status: 404, headers: CORS })
+  }
+  const { status } = await req.json().catch(() => ({}))
+  if (status !== 'approved' && status !== 'rejected') {
+    return NextResponse.json({ error: '`status` must be approved or rejected' }, { status: 400, headers: CORS })
+  }
+
+  try {
+    await decideFlag(params.id, status, staff.name)
+    const resumed = status === 'approved' ? await resumeHeldOrders() : []
+    return NextResponse.json({ status, resumed }, { headers: CORS })
+  } catch (err) {
+    console.error('[moderation:decide]', params.id, err)
+    return NextResponse.json({ error: 'Couldn’t save the decision' }, { status: 500, headers: CORS })
+  }
+})
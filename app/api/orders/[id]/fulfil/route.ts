@@ -0,0 +1,66 @@
+/**********************************************************************
+ * POST /api/orders/[id]/fulfil
+ * -------------------------------------------------------------------
+ * Staff re-trigger (Studio “Re-render & send” action): renders every
+ * item again and re-submits the job to the print lab.
+ * Body  { reprint?: true }  – required for a `sent-to-print` order, the
+ *       Studio asks staff to confirm first (the lab prints it again)
+ * Reply { status }  – the order's status afterwards
+ *       401 without a staff token (lib/staffAuth)
+ *       409 when the order is in a status that can't be re-run, or is
+ *           already at the lab and the reprint wasn't confirmed
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { canRetrigger, type OrderStatus } from '@/sanity/lib/orderStatus'
+import { fulfilOrder, isOrderId, OrderStatusError } from '@/lib/fulfilment'
+import { withStaff, staffCors } from '@/lib/staffAuth'
+
+export const runtime     = 'nodejs'      // sharp + pdf-lib
+export const maxDuration = 300           // big orders take a while
+
+/* Studio may run on its own origin */
+const CORS = staffCors('POST, OPTIONS')
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS })
+}
+
+export const POST = withStaff<{ params: { id: string } }>(CORS, async (req, { params }, staff) => {
+  if (!isOrderId(params.id)) {
+    return NextResponse.json({ error: 'not found' }, { status: 404, headers: CORS })
+  }
+
+  const status = await sanity.fetch<OrderStatus | null>(`*[_id == $id][0].status`, { id: params.id })
+  if (!status) {
+    return NextResponse.json({ error: 'not found' }, { status: 404, headers: CORS })
+  }
+  if (!canRetrigger(status)) {
+    return NextResponse.json(
+      { error: `A ${status} order can’t be re-rendered` },
+      { status: 409, headers: CORS },
+    )
+  }
+
+  const body    = await req.json().catch(() => ({}))
+  const reprint = body?.reprint === true
+  if (status === 'sent-to-print' && !reprint) {
+    return NextResponse.json(
+      { error: 'This order is already at the print lab – confirm to print it again' },
+      { status: 409, headers: CORS },
+    )
+  }
+
+  try {
+    const after = await fulfilOrder(params.id, { reprint, by: staff.name })
+    return NextResponse.json({ status: after }, { headers: CORS })
+  } catch (err) {
+    console.error('[orders:fulfil]', params.id, err)
+    const conflict = err instanceof OrderStatusError
+    return NextResponse.json(
+      { error: (err as Error).message || 'fulfilment failed' },
+      { status: conflict ? 409 : 500, headers: CORS },
+    )
+  }
+})
@@ -0,0 +1,76 @@
+/**********************************************************************
+ * /api/playground – the Studio prompt playground (lib/playground)
+ * -------------------------------------------------------------------
+ * GET   → { faces, providers, qualities, unitCents }
+ * POST  { placeholderId, faces, revision?, quality, provider, variables? }
+ *       → { assetId, url, cents }   one image for the grid
+ *         4xx / 5xx { error }
+ *
+ * Staff only: the Studio sends its user token (lib/staffAuth).  Every
+ * cell is a paid call, so the daily caps apply as for customers – per
+ * staff member – and quality / provider come from an allow-list.
+ *********************************************************************/
+import { NextRequest, NextResponse } from 'next/server'
+
+import { withRateLimit, type RateLimitRule } from '@/lib/rateLimit'
+import { withCors, withStaff, staffCors } from '@/lib/staffAuth'
+import { VariantError, budgetError, MAX_FACES } from '@/lib/variants'
+import {
+  playgroundOptions, runPlaygroundCell, playgroundSession,
+  PLAYGROUND_QUALITIES, PLAYGROUND_PROVIDERS, type PlaygroundCell,
+} from '@/lib/playground'
+
+export const runtime     = 'nodejs'
+export const maxDuration = 180
+
+/* Studio may run on its own origin */
+const CORS = staffCors('GET, POST, OPTIONS')
+
+/* a grid is a burst of paid calls – roomy, but not unlimited */
+const PLAYGROUND_LIMIT: RateLimitRule = {
+  name     : 'playground',
+  windows  : [{ limit: 40, windowSec: 60 }, { limit: 300, windowSec: 60 * 60 }],
+  ipWindows: [{ limit: 40, windowSec: 60 }, { limit: 300, windowSec: 60 * 60 }],
+}
+
+const bad = (error: string, status = 400) => NextResponse.json({ error }, { status, headers: CORS })
+
+function cellError (body: any): string | null {
+  if (typeof body?.placeholderId !== 'string' || !body.placeholderId) return '`placeholderId` is required'
+  if (!Array.isArray(body.faces) || !body.faces.every((f: unknown) => typeof f === 'string')) {
+    return '`faces` must be a list of sample face names'
+  }
+  if (body.faces.length > MAX_FACES) return `at most ${MAX_FACES} \`faces\``
+  if (!PLAYGROUND_QUALITIES.includes(body.quality))   return `\`quality\` must be one of ${PLAYGROUND_QUALITIES.join(', ')}`
+  if (!PLAYGROUND_PROVIDERS.includes(body.provider)) return `\`provider\` must be one of ${PLAYGROUND_PROVIDERS.join(', ')}`
+  if (body.revision !== undefined && typeof body.revision !== 'string') return '`revision` must be a revision id'
+  return null
+}
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS })
+}
+
+export const GET = withStaff(CORS, async () =>
+  NextResponse.json(await playgroundOptions(), { headers: CORS }))
+
+export const POST = withCors(CORS, withRateLimit(PLAYGROUND_LIMIT, withStaff(CORS, async (req: NextRequest, _ctx, staff) => {
+  const body = await req.json().catch(() => null)
+  const problem = cellError(body)
+  if (problem) return bad(problem)
+
+  const session = playgroundSession(staff.id)
+  const over    = await budgetError(session)
+  if (over) return bad(over, 429)
+
+  const { placeholderId, faces, revision, quality, provider, variables } = body as PlaygroundCell
+  try {
+    const result = await runPlaygroundCell({ placeholderId, faces, revision, quality, provider, variables }, session)
+    return NextResponse.json(result, { headers: CORS })
+  } catch (err) {
+    if (!(err instanceof VariantError)) console.error('[playground]', err)
+    return err instanceof VariantError
+      ? bad(err.message, err.status)
+      : bad('Generation failed', 500)
+  }
+})))
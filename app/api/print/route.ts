@@ -0,0 +1,65 @@
+/**********************************************************************
+ * POST /api/print
+ * -------------------------------------------------------------------
+ * Body  { pages: TemplatePage[4], productId?: string,
+ *         cropMarks?: boolean, title?: string }
+ *       productId picks page size + page count (default SKU if absent)
+ * Reply application/pdf – 3 mm bleed, trim/bleed boxes, crop marks,
+ *       embedded fonts and full-resolution images.
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { renderPrintPdf }            from '@/lib/printPdf'
+import { pageGeometry }              from '@/lib/pageGeometry'
+import { getProduct }                from '@/sanity/lib/getProduct'
+
+export const runtime = 'nodejs'          // sharp + fs need Node
+
+export async function POST (req: NextRequest) {
+  /* ---------- 1 ▸ validate body ------------------------------- */
+  const { pages, productId, cropMarks = true, title } = (await req.json()) as {
+    pages     : any
+    productId?: string
+    cropMarks?: boolean
+    title?    : string
+  }
+  if (!Array.isArray(pages) || pages.length !== 4) {
+    return NextResponse.json(
+      { error: '`pages` must be an array with exactly four items' },
+      { status: 400 },
+    )
+  }
+  if (!pages.every(p => Array.isArray(p?.layers))) {
+    return NextResponse.json(
+      { error: 'Each page object must contain a `layers` array' },
+      { status: 400 },
+    )
+  }
+
+  /* ---------- 2 ▸ product geometry --------------------------- */
+  const product = productId ? await getProduct(productId) : null
+  if (productId && !product) {
+    return NextResponse.json({ error: `Unknown product ${productId}` }, { status: 404 })
+  }
+
+  /* ---------- 3 ▸ render ------------------------------------- */
+  try {
+    const pdf = await renderPrintPdf(pages, {
+      cropMarks,
+      title,
+      geometry: pageGeometry(product),
+    })
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'content-type'       : 'application/pdf',
+        'content-disposition': 'attachment; filename="card-print.pdf"',
+      },
+    })
+  } catch (err) {
+    console.error('[print]', err)
+    return NextResponse.json(
+      { error: (err as Error).message || 'PDF export failed' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**********************************************************************
+ * GET / PATCH /api/projects/[token]
+ * -------------------------------------------------------------------
+ * GET    → { token, templateId, templateSlug, productId, pages }
+ * PATCH  { pages: TemplatePage[4], productId?: string }  – autosave
+ * Unknown or malformed tokens answer 404.
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { pagesToSanity } from '@/app/library/layerAdapters'
+import { getProject, projectDocId } from '@/app/library/getProject'
+import { isToken } from '@/lib/tokens'
+
+type Ctx = { params: { token: string } }
+
+export async function GET(_req: NextRequest, { params }: Ctx) {
+  const project = await getProject(params.token)
+  if (!project) {
+    return NextResponse.json({ error: 'not found' }, { status: 404 })
+  }
+  return NextResponse.json(project, { headers: { 'cache-control': 'no-store' } })
+}
+
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  try {
+    /* ---------- 1 ▸ validate body ----------------------------- */
+    const { pages, productId } = (await req.json()) as {
+      pages     : any
+      productId?: string
+    }
+    if (!Array.isArray(pages) || pages.length !== 4) {
+      return NextResponse.json(
+        { error: '`pages` must be an array with exactly four items' },
+        { status: 400 },
+      )
+    }
+    if (!pages.every(p => Array.isArray(p?.layers))) {
+      return NextResponse.json(
+        { error: 'Each page object must contain a `layers` array' },
+        { status: 400 },
+      )
+    }
+
+    /* ---------- 2 ▸ project must exist ------------------------ */
+    if (!isToken(params.token)) {
+      return NextResponse.json({ error: 'not found' }, { status: 404 })
+    }
+    const id = projectDocId(params.token)
+    const exists = await sanity.fetch<boolean>(`defined(*[_id == $id][0]._id)`, { id })
+    if (!exists) {
+      return NextResponse.json({ error: 'not found' }, { status: 404 })
+    }
+
+    /* ---------- 3 ▸ patch ------------------------------------- */
+    await sanity
+      .patch(id)
+      .set({
+        pages: pagesToSanity(pages),
+        json : JSON.stringify(pages),
+        ...(productId && {
+          product: { _type: 'reference', _ref: productId, _weak: true },
+        }),
+      })
+      .commit({ autoGenerateArrayKeys: true })
+
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    console.error('[save-project]', err)
+    return NextResponse.json({ error: 'server' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+/**********************************************************************
+ * POST /api/projects
+ * -------------------------------------------------------------------
+ * Body  { templateId: string, productId?: string, pages: TemplatePage[4] }
+ * Reply { token }  – opaque share token for /api/projects/[token]
+ *                    and /cards/<slug>/customise/<token>
+ * • pages are stored with the same toSanity adapter the staff route uses
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { pagesToSanity } from '@/app/library/layerAdapters'
+import { projectDocId } from '@/app/library/getProject'
+import { newToken } from '@/lib/tokens'
+
+export async function POST(req: NextRequest) {
+  try {
+    /* ---------- 1 ▸ validate body ----------------------------- */
+    const { templateId, productId, pages } = (await req.json()) as {
+      templateId?: string
+      productId? : string
+      pages      : any
+    }
+    if (typeof templateId !== 'string' || !templateId) {
+      return NextResponse.json({ error: '`templateId` is required' }, { status: 400 })
+    }
+    if (!Array.isArray(pages) || pages.length !== 4) {
+      return NextResponse.json(
+        { error: '`pages` must be an array with exactly four items' },
+        { status: 400 },
+      )
+    }
+    if (!pages.every(p => Array.isArray(p?.layers))) {
+      return NextResponse.json(
+        { error: 'Each page object must contain a `layers` array' },
+        { status: 400 },
+      )
+    }
+
+    /* ---------- 2 ▸ template must exist ----------------------- */
+    const exists = await sanity.fetch<boolean>(
+      `count(*[_type == "cardTemplate" && _id in [$id, $draftId]]) > 0`,
+      { id: templateId, draftId: `drafts.${templateId}` },
+    )
+    if (!exists) {
+      return NextResponse.json({ error: `Unknown template ${templateId}` }, { status: 404 })
+    }
+
+    /* ---------- 3 ▸ create ------------------------------------ */
+    const token = newToken()
+    await sanity.create(
+      {
+        _id     : projectDocId(token),
+        _type   : 'customerProject',
+        template: { _type: 'reference', _ref: templateId, _weak: true },
+        ...(productId && {
+          product: { _type: 'reference', _ref: productId, _weak: true },
+        }),
+        pages   : pagesToSanity(pages),
+        json    : JSON.stringify(pages),
+      },
+      { autoGenerateArrayKeys: true },
+    )
+
+    return NextResponse.json({ token }, { status: 201 })
+  } catch (err) {
+    console.error('[create-project]', err)
+    return NextResponse.json({ error: 'server' }, { status: 500 })
+  }
+}
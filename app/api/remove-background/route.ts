@@ -0,0 +1,101 @@
+/**********************************************************************
+ * POST /api/remove-background
+ * -------------------------------------------------------------------
+ * Body  { assetId }            an uploaded image (`image-…`)
+ *    or { url }                its Sanity CDN URL – template images
+ *                              reach the editor as URLs only
+ * Reply 200 { assetId, url, provider }   the cut-out – a transparent
+ *           PNG asset the same pixel size as the original
+ *       404 { error }  unknown asset
+ *       422 { error }  the photo can't be cut out (busy backdrop …) or
+ *                      moderation refused the original
+ *
+ * The "BG Erase" button in the editor's ImageToolbar.  Backends live in
+ * lib/backgroundRemoval; each original is only cut out once (KV).
+ *
+ * A cut-out inherits its original's moderation: an original still
+ * awaiting review queues the cut-out too, so the order waits for both.
+ *********************************************************************/
+import { NextRequest, NextResponse } from 'next/server'
+
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { projectId } from '@/sanity/env'
+import { withRateLimit, type RateLimitRule } from '@/lib/rateLimit'
+import { sessionId } from '@/lib/session'
+import { KV } from '@/lib/kv'
+import { removeBackground, BackgroundRemovalError, type Cutout } from '@/lib/backgroundRemoval'
+import { checkImage, heldContent, recordFlag, type ModerationResult } from '@/lib/moderation'
+
+export const runtime     = 'nodejs'
+export const maxDuration = 90
+
+/* a model cut-out is a paid call */
+const CUTOUT_LIMIT: RateLimitRule = {
+  name     : 'cutout',
+  windows  : [{ limit: 5, windowSec: 60 }, { limit: 30, windowSec: 60 * 60 }],
+  ipWindows: [{ limit: 15, windowSec: 60 }, { limit: 90, windowSec: 60 * 60 }],
+}
+const CACHE_SEC = 60 * 60 * 24 * 30
+
+const ASSET_ID = /^image-[a-f0-9]+-\d+x\d+-[a-z]+$/
+/* cdn.sanity.io/images/<project>/<dataset>/<hash>-<w>x<h>.<ext>?… */
+const CDN_URL  = /^https:\/\/cdn\.sanity\.io\/images\/([\w-]+)\/[\w-]+\/([a-f0-9]+-\d+x\d+)\.([a-z]+)(?:\?.*)?$/
+
+/** the asset behind the body's `assetId` or our own CDN `url` – never a foreign URL */
+const assetIdOf = (body: any): string | null => {
+  if (typeof body?.assetId === 'string') return ASSET_ID.test(body.assetId) ? body.assetId : null
+  const m = typeof body?.url === 'string' ? CDN_URL.exec(body.url) : null
+  return m && m[1] === projectId ? `image-${m[2]}-${m[3]}` : null
+}
+
+const cache = KV.namespace('cutout')
+
+interface CutoutReply { assetId: string; url: string; provider: string }
+
+const bad = (error: string, status = 400) => NextResponse.json({ error }, { status })
+
+export const POST = withRateLimit(CUTOUT_LIMIT, async (req: NextRequest) => {
+  const assetId = assetIdOf(await req.json().catch(() => null))
+  if (!assetId) return bad('`assetId` (or a Sanity image `url`) is required')
+
+  /* 1 ▸ moderation refused the original → nothing to cut out */
+  const held = await heldContent({ assetIds: [assetId] })
+  if (held.rejected) return bad('This picture can’t be used on a card.', 422)
+
+  const hit = await cache.get<CutoutReply>(assetId)
+  if (hit) return NextResponse.json(hit)
+
+  /* 2 ▸ the original's bytes */
+  const url = await sanity.fetch<string | null>(`*[_id == $id][0].url`, { id: assetId })
+  if (!url) return bad('Unknown image', 404)
+  const bytes = Buffer.from(await (await fetch(url)).arrayBuffer())
+
+  /* 3 ▸ cut out */
+  const session = sessionId()
+  let cut: Cutout
+  try {
+    cut = await removeBackground(bytes, session)
+  } catch (err) {
+    if (err instanceof BackgroundRemovalError) return bad(err.message, err.status)
+    console.error('[remove-background]', assetId, err)
+    return bad('Background removal failed — please try again.', 500)
+  }
+
+  /* 4 ▸ moderation – a pending original keeps the cut-out pending */
+  const verdict: ModerationResult = held.pending
+    ? { verdict: 'flag', categories: ['derived'], provider: 'cutout', reason: `background removed from ${assetId}, which awaits review` }
+    : await checkImage(cut.png)
+  if (verdict.verdict === 'block') return bad('This picture can’t be used on a card.', 422)
+
+  const asset = await sanity.assets.upload('image', cut.png, {
+    filename   : `${assetId}-cutout.png`,
+    contentType: 'image/png',
+    label      : 'bg-removed',
+  })
+  await recordFlag(verdict, { kind: 'upload', assetId: asset._id, source: 'remove-background', session })
+    .catch(err => console.error('[remove-background] moderation record failed', err))
+
+  const reply: CutoutReply = { assetId: asset._id, url: asset.url, provider: cut.provider }
+  await cache.set(assetId, reply, { ex: CACHE_SEC })
+  return NextResponse.json(reply)
+})
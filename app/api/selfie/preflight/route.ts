@@ -0,0 +1,45 @@
+/**********************************************************************
+ * POST /api/selfie/preflight
+ * -------------------------------------------------------------------
+ * Body  { selfieBase64 }
+ * Reply 200 { ok: true, faces }
+ *       200 { ok: false, error, issue }   – issue.code is one of
+ *           unreadable | low-res | blurry | no-face | many-faces
+ *       429 { error }                     – over the spend cap
+ *
+ * Lets the drawer vet a photo as soon as it is picked.  The variants
+ * routes run the same checks again before generating – the detector's
+ * answer is cached per photo, so only the first look is billed.
+ *********************************************************************/
+import { NextRequest, NextResponse } from 'next/server'
+
+import { checkSelfie }   from '@/lib/preflight'
+import { sessionId }     from '@/lib/session'
+import { budgetError }   from '@/lib/variants'
+import { withRateLimit, type RateLimitRule } from '@/lib/rateLimit'
+
+export const runtime = 'nodejs'
+
+/* the face detector is a paid call too */
+const PREFLIGHT_LIMIT: RateLimitRule = {
+  name     : 'preflight',
+  windows  : [{ limit: 10, windowSec: 60 }, { limit: 60, windowSec: 60 * 60 }],
+  ipWindows: [{ limit: 30, windowSec: 60 }, { limit: 200, windowSec: 60 * 60 }],
+}
+
+export const POST = withRateLimit(PREFLIGHT_LIMIT, async (req: NextRequest) => {
+  const body = await req.json().catch(() => null)
+  if (typeof body?.selfieBase64 !== 'string' || !body.selfieBase64.startsWith('data:image/')) {
+    return NextResponse.json({ error: '`selfieBase64` must be an image data-URL' }, { status: 400 })
+  }
+
+  /* the detector bills the same budget the variants spend */
+  const session = sessionId()
+  const over    = await budgetError(session)
+  if (over) return NextResponse.json({ error: over }, { status: 429 })
+
+  const result = await checkSelfie(body.selfieBase64, session)
+  return result.ok
+    ? NextResponse.json({ ok: true, faces: result.faces })
+    : NextResponse.json({ ok: false, error: result.message, issue: result.issue })
+})
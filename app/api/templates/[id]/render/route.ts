@@ -0,0 +1,76 @@
+/**********************************************************************
+ * GET /api/templates/[id]/render
+ * -------------------------------------------------------------------
+ * Query  page=0-3 (default 0) · width=px (default 800, max 4000)
+ *        format=png|jpeg (default png) · product=<cardProduct id>
+ * Reply  the published page rendered headlessly (lib/renderPage) –
+ *        use it for proofs, e-mails, social cards …
+ * Public, so it only sees published templates and is rate-limited –
+ * a full-width render is seconds of sharp work.
+ *********************************************************************/
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sanity }                    from '@/sanity/lib/client'
+import { getTemplatePages }          from '@/app/library/getTemplatePages'
+import { renderPage }                from '@/lib/renderPage'
+import { pageGeometry }              from '@/lib/pageGeometry'
+import { withRateLimit, type RateLimitRule } from '@/lib/rateLimit'
+
+export const runtime = 'nodejs'          // sharp + fs need Node
+
+const MAX_W = 4000
+
+const RENDER_LIMIT: RateLimitRule = {
+  name     : 'render',
+  windows  : [{ limit: 20, windowSec: 60 }, { limit: 200, windowSec: 60 * 60 }],
+  ipWindows: [{ limit: 60, windowSec: 60 }, { limit: 600, windowSec: 60 * 60 }],
+}
+
+type Ctx = { params: { id: string } }
+
+export const GET = withRateLimit<Ctx>(RENDER_LIMIT, async (req, { params }) => {
+  /* ---------- 1 ▸ validate query ------------------------------ */
+  const q      = req.nextUrl.searchParams
+  const index  = Number(q.get('page')  ?? 0)
+  const width  = Number(q.get('width') ?? 800)
+  const format = q.get('format') === 'jpeg' ? 'jpeg' : 'png'
+
+  if (!Number.isInteger(index) || index < 0 || index > 3) {
+    return NextResponse.json({ error: '`page` must be 0-3' }, { status: 400 })
+  }
+  if (!Number.isFinite(width) || width < 1 || width > MAX_W) {
+    return NextResponse.json({ error: `\`width\` must be 1-${MAX_W}` }, { status: 400 })
+  }
+
+  /* ---------- 2 ▸ stored document + SKU ---------------------- */
+  const { templateId, pages, products } = await getTemplatePages(params.id, sanity)
+  if (!templateId) {
+    return NextResponse.json({ error: `Unknown template ${params.id}` }, { status: 404 })
+  }
+  const wanted  = q.get('product')
+  const product = wanted ? products.find(p => p._id === wanted) : products[0]
+  if (wanted && !product) {
+    return NextResponse.json({ error: `Unknown product ${wanted}` }, { status: 404 })
+  }
+
+  /* ---------- 3 ▸ render ------------------------------------- */
+  try {
+    const img = await renderPage(pages[index], {
+      geometry: pageGeometry(product),
+      width,
+      format,
+    })
+    return new NextResponse(img, {
+      headers: {
+        'content-type' : `image/${format}`,
+        'cache-control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('[render]', err)
+    return NextResponse.json(
+      { error: (err as Error).message || 'render failed' },
+      { status: 500 },
+    )
+  }
+})
@@ -4,24 +4,45 @@
  * • Always writes to the **draft** (id prefixed with `drafts.`)
  * • If the draft doesn’t exist we create a stub, then patch.
  * • Keeps each page’s `name` so Studio previews show the right titles.
+ * • Cover image is rendered server-side from the saved front page
+ *   (lib/renderPage) – no more browser screenshots.
  *********************************************************************/
 
 import { NextRequest, NextResponse } from 'next/server'
 import { sanityWriteClient as sanity } from '@/sanity/lib/client'
-import { toSanity } from '@/app/library/layerAdapters'
+import { pagesToSanity } from '@/app/library/layerAdapters'
+import { renderPage } from '@/lib/renderPage'
+import { pageGeometry, type ProductSpec } from '@/lib/pageGeometry'
 
-const FALLBACK_NAMES = ['front', 'inner-L', 'inner-R', 'back'] as const
+export const runtime = 'nodejs'          // sharp needs Node
+
+const COVER_W = 1200                     // px – plenty for listings + OG
 
 /* ------------------------------------------------------------------ */
-/* shared helper – normalises the page array                           */
+/* cover – front page rendered at the template's first SKU size        */
 /* ------------------------------------------------------------------ */
-function normalisePages(pagesRaw: any[]): { name: string; layers: any[] }[] {
-  return pagesRaw.map((p, i) => ({
-    name:   typeof p?.name === 'string' && p.name.trim()
-              ? p.name.trim()
-              : FALLBACK_NAMES[i] ?? `page-${i}`,
-    layers: Array.isArray(p?.layers) ? p.layers.map(toSanity) : [],
-  }))
+async function renderCover(id: string, front: any): Promise<string | undefined> {
+  try {
+    const spec = await sanity.fetch<ProductSpec | null>(
+      `*[_id in [$id, $draftId]][0].products[0]->{trimWidthMm, trimHeightMm, pageCount}`,
+      { id, draftId: `drafts.${id}` },
+    )
+    const jpeg = await renderPage(front, {
+      geometry: pageGeometry(spec),
+      width   : COVER_W,
+      format  : 'jpeg',
+    })
+    const asset = await sanity.assets.upload('image', jpeg, {
+      filename   : `cover-${id}.jpg`,
+      contentType: 'image/jpeg',
+      label      : 'template-cover',
+    })
+    return asset._id
+  } catch (err) {
+    /* a missing cover must never block the save itself */
+    console.error('[save-template] cover render failed', err)
+    return undefined
+  }
 }
 
 /* ------------------------------------------------------------------ */
@@ -33,10 +54,7 @@ export async function PATCH(
 ) {
   try {
     /* ---------- 1 ▸ validate body ----------------------------- */
-    const { pages, coverImage } = (await req.json()) as {
-      pages: any
-      coverImage?: string
-    }
+    const { pages } = (await req.json()) as { pages: any }
     if (!Array.isArray(pages) || pages.length !== 4) {
       return NextResponse.json(
         { error: '`pages` must be an array with exactly four items' },
@@ -50,14 +68,17 @@ export async function PATCH(
       )
     }
 
-    const sanePages = normalisePages(pages)
+    const sanePages = pagesToSanity(pages)
     /* dev-log AFTER validation, so the console is tidy */
     console.log('▶ sanePages →', JSON.stringify(sanePages, null, 2))
 
     /* ---------- 2 ▸ draft id ---------------------------------- */
     const draftId = `drafts.${params.id}`
 
-    /* ---------- 3 ▸ create-or-patch in one transaction -------- */
+    /* ---------- 3 ▸ cover from the stored layers -------------- */
+    const coverImage = await renderCover(params.id, sanePages[0])
+
+    /* ---------- 4 ▸ create-or-patch in one transaction -------- */
     await sanity
       .transaction()
       .createIfNotExists({
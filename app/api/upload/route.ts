@@ -1,25 +1,63 @@
 /**********************************************************************
  app/api/upload/route.ts
+ -------------------------------------------------------------------
+ Every upload is moderated (lib/moderation) before it is stored:
+   block → 422 { error, moderation: 'blocked' }, nothing is kept
+   flag  → stored as usual and queued for staff review; the order
+           is held at fulfilment until someone approves it
  *********************************************************************/
 import { NextRequest, NextResponse } from 'next/server'
 import { sanityWriteClient as sanity } from '@/sanity/lib/client'
-export async function POST (req: NextRequest) {
+import { withRateLimit, type RateLimitRule } from '@/lib/rateLimit'
+import { checkImage, recordFlag } from '@/lib/moderation'
+import { sessionId } from '@/lib/session'
+
+/* every upload lands in the asset store – keep bots from filling it */
+const UPLOAD_LIMIT: RateLimitRule = {
+  name     : 'upload',
+  windows  : [{ limit: 20, windowSec: 60 }, { limit: 200, windowSec: 60 * 60 }],
+  ipWindows: [{ limit: 60, windowSec: 60 }, { limit: 600, windowSec: 60 * 60 }],
+}
+const MAX_BYTES = 20 * 1024 * 1024          // 20 MB – a phone photo is ~5
+
+export const POST = withRateLimit(UPLOAD_LIMIT, async (req: NextRequest) => {
   const data = await req.formData()
   const file = data.get('file') as File | null
   if (!file) {
     return NextResponse.json({ error: 'no file' }, { status: 400 })
   }
+  if (!file.type.startsWith('image/')) {
+    return NextResponse.json({ error: 'only images can be uploaded' }, { status: 415 })
+  }
+  if (file.size > MAX_BYTES) {
+    return NextResponse.json({ error: 'image is larger than 20 MB' }, { status: 413 })
+  }
 
   /* 1. convert the File into a Node.js Buffer so Sanity can read it */
   const buffer = Buffer.from(await file.arrayBuffer())
 
-  /* 2. push it straight into Sanity’s asset pipeline */
+  /* 2. moderate – a blocked picture never reaches the asset store,
+        so there's nothing to review; the log keeps the why */
+  const verdict = await checkImage(buffer)
+  if (verdict.verdict === 'block') {
+    console.warn('[upload] blocked', verdict.provider, verdict.categories.join(', '), verdict.reason ?? '')
+    return NextResponse.json(
+      { error: 'This picture can’t be used on a card.', moderation: 'blocked' },
+      { status: 422 },
+    )
+  }
+
+  /* 3. push it straight into Sanity’s asset pipeline */
   const asset = await sanity.assets.upload('image', buffer, {
     filename    : file.name,
     contentType : file.type,
     label       : 'temp-upload',   // 👈 optional “tag” we can filter on later
   })
 
-  /* 3. respond with the CDN URL + asset ID */
+  /* 4. flagged → review queue; the upload itself goes ahead */
+  await recordFlag(verdict, { kind: 'upload', assetId: asset._id, source: 'upload', session: sessionId() })
+    .catch(err => console.error('[upload] moderation record failed', err))
+
+  /* 5. respond with the CDN URL + asset ID */
   return NextResponse.json({ url: asset.url, assetId: asset._id })
-}
\ No newline at end of file
+})
@@ -0,0 +1,75 @@
+/**********************************************************************
+ * GET /api/variants/jobs/[id]/events
+ * -------------------------------------------------------------------
+ * Server-sent events – one `status` event whenever the job changes:
+ *
+ *   event: status
+ *   data:  { id, status, progress, variants, urls?, error?, … }
+ *
+ * `variants` fills in slot by slot, so each image arrives as soon as
+ * it is drawn.
+ *
+ * The stream ends after `done` / `failed`.  The job record is polled
+ * from KV, so this works on any instance, not just the one running it.
+ *********************************************************************/
+import { NextResponse } from 'next/server'
+import { sessionId }    from '@/lib/session'
+import { getJob, isFinished } from '@/lib/variantJobs'
+
+export const runtime     = 'nodejs'
+export const dynamic     = 'force-dynamic'
+export const maxDuration = 300
+
+const POLL_MS      = 500
+const HEARTBEAT_MS = 15_000           // keeps proxies from closing an idle stream
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+export async function GET (req: Request, { params }: { params: { id: string } }) {
+  const session = sessionId()
+  const first   = await getJob(params.id, session)
+  if (!first) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+
+  const enc = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start (controller) {
+      const send = (chunk: string) => controller.enqueue(enc.encode(chunk))
+
+      let job: typeof first | null = first
+      let last = ''
+      let beat = Date.now()
+      send(`retry: 2000\n\n`)
+
+      while (job && !req.signal.aborted) {
+        const sig = job.updatedAt
+        if (sig !== last) {
+          send(`event: status\ndata: ${JSON.stringify(job)}\n\n`)
+          last = sig
+          beat = Date.now()
+        } else if (Date.now() - beat > HEARTBEAT_MS) {
+          send(`: keep-alive\n\n`)
+          beat = Date.now()
+        }
+        if (isFinished(job.status)) break
+
+        await sleep(POLL_MS)
+        job = await getJob(params.id, session).catch(() => job)
+      }
+
+      /* record expired mid-stream */
+      if (!job) {
+        send(`event: status\ndata: ${JSON.stringify({ ...first, status: 'failed', error: 'Job expired' })}\n\n`)
+      }
+      controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'content-type'     : 'text/event-stream; charset=utf-8',
+      'cache-control'    : 'no-cache, no-transform',
+      connection         : 'keep-alive',
+      'x-accel-buffering': 'no',
+    },
+  })
+}
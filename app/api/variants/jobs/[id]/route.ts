@@ -0,0 +1,17 @@
+/**********************************************************************
+ * GET /api/variants/jobs/[id]
+ * -------------------------------------------------------------------
+ * Reply { id, status, progress, urls?, error?, … }  – 404 when the job
+ *       is unknown, expired or belongs to another session
+ *********************************************************************/
+import { NextResponse } from 'next/server'
+import { sessionId }    from '@/lib/session'
+import { getJob }       from '@/lib/variantJobs'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET (_req: Request, { params }: { params: { id: string } }) {
+  const job = await getJob(params.id, sessionId())
+  if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  return NextResponse.json(job, { headers: { 'cache-control': 'no-store' } })
+}
@@ -0,0 +1,57 @@
+/**********************************************************************
+ * POST /api/variants/jobs
+ * -------------------------------------------------------------------
+ * Body  { selfieBase64 | faces, placeholderId, variables?, force?, nonce?, slot? }
+ *       faces     – { [faceSlotKey]: dataUrl } for multi-face placeholders
+ *       variables – { [name]: value } for the prompt's {{variables}}
+ *       slot      – redraw just that variant (0-based)
+ * Reply 202 { id }  – follow it with
+ *         GET /api/variants/jobs/<id>          status snapshot (JSON)
+ *         GET /api/variants/jobs/<id>/events   server-sent events
+ *       422 { error, issue, face? }  – a photo failed pre-flight;
+ *                                      face = its slot key
+ * Jobs belong to the caller's session and are kept for 24 h.
+ *********************************************************************/
+import { NextRequest, NextResponse } from 'next/server'
+
+import { sessionId }       from '@/lib/session'
+import { withRateLimit }   from '@/lib/rateLimit'
+import { startVariantJob } from '@/lib/variantJobs'
+import {
+  budgetError, preflightRequest, variantRequestError,
+  VariantError, VARIANTS_LIMIT, type VariantRequest,
+} from '@/lib/variants'
+
+export const runtime     = 'nodejs'
+export const maxDuration = 180            // the job keeps running after we answer
+
+export const POST = withRateLimit(VARIANTS_LIMIT, async (req: NextRequest) => {
+  const body = (await req.json().catch(() => null)) as VariantRequest | null
+  const bad  = variantRequestError(body)
+  if (bad) return NextResponse.json({ error: bad }, { status: 400 })
+
+  const session = sessionId()
+  const over    = await budgetError(session)
+  if (over) return NextResponse.json({ error: over }, { status: 429 })
+
+  /* answer photo problems now rather than through a failed job – the
+     job gets the checked photos, so they are only checked once */
+  let checked: Map<string, Buffer>
+  try {
+    checked = await preflightRequest(body!, session)
+  } catch (err) {
+    if (!(err instanceof VariantError)) throw err
+    return NextResponse.json(
+      { error: err.message, issue: err.issue, ...(err.face && { face: err.face }) },
+      { status: err.status },
+    )
+  }
+
+  const { selfieBase64, faces, placeholderId, variables, force, nonce, slot } = body!
+  const id = await startVariantJob(
+    { selfieBase64, faces, placeholderId, variables, force, nonce, slot },
+    session,
+    checked,
+  )
+  return NextResponse.json({ id }, { status: 202 })
+})
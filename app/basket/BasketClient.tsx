@@ -0,0 +1,171 @@
+/**********************************************************************
+ * app/basket/BasketClient.tsx   (CLIENT COMPONENT)
+ * Quantity, recipient address and delivery date per card + checkout.
+ * Every edit is PATCHed straight away so the server basket is always
+ * what gets paid for.
+ *********************************************************************/
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { BasketItem } from '@/app/library/basket'
+import type { Recipient } from '@/lib/delivery'
+
+interface Props {
+  initialItems: BasketItem[]
+  minDate     : string
+  maxDate     : string
+  notice?     : string
+}
+
+const EMPTY_RECIPIENT: Recipient = {
+  name: '', line1: '', line2: '', city: '', postcode: '', country: 'GB',
+}
+
+const money = (n: number) => `£${n.toFixed(2)}`
+
+export default function BasketClient({ initialItems, minDate, maxDate, notice }: Props) {
+  const router               = useRouter()
+  const [items, setItems]    = useState(initialItems)
+  const [error, setError]    = useState<string | null>(notice ?? null)
+  const [paying, setPaying]  = useState(false)
+
+  const total = items.reduce((s, i) => s + Math.round(i.unitPrice * 100) * i.quantity, 0) / 100
+
+  /* ---------- item edits ------------------------------------------ */
+  const update = async (key: string, patch: Partial<BasketItem>) => {
+    setItems(list => list.map(i => (i._key === key ? { ...i, ...patch } : i)))
+    const res = await fetch(`/api/basket/items/${key}`, {
+      method : 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      body   : JSON.stringify(patch),
+    })
+    if (!res.ok) setError((await res.json().catch(() => null))?.error ?? 'Couldn’t update your basket')
+    else setError(null)
+  }
+
+  const remove = async (key: string) => {
+    setItems(list => list.filter(i => i._key !== key))
+    await fetch(`/api/basket/items/${key}`, { method: 'DELETE' })
+  }
+
+  /* ---------- checkout -------------------------------------------- */
+  const checkout = async () => {
+    setPaying(true)
+    setError(null)
+    try {
+      const res  = await fetch('/api/checkout', { method: 'POST' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error ?? 'Checkout failed')
+      router.push(json.redirect)
+    } catch (err: any) {
+      setError(err.message)
+      setPaying(false)
+    }
+  }
+
+  if (!items.length) {
+    return <p className="text-[--walty-brown]">Your basket is empty.</p>
+  }
+
+  /* ---------------- UI -------------------------------------------- */
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 text-red-700 px-4 py-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {items.map(item => {
+        const r = { ...EMPTY_RECIPIENT, ...item.recipient }
+        const field = (name: keyof Recipient, label: string, cls = '') => (
+          <label className={`flex flex-col text-xs gap-1 ${cls}`}>
+            {label}
+            <input
+              defaultValue={r[name] ?? ''}
+              onBlur={e => {
+                if (e.target.value !== (r[name] ?? '')) {
+                  update(item._key, { recipient: { ...r, [name]: e.target.value } })
+                }
+              }}
+              className="h-9 px-2 rounded border border-teal-800/20 text-sm text-black"
+            />
+          </label>
+        )
+
+        return (
+          <section key={item._key} className="flex gap-6 bg-white rounded-lg shadow p-5">
+            {item.coverUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={item.coverUrl} alt="" className="w-28 h-auto rounded shadow self-start" />
+            )}
+
+            <div className="flex-1 space-y-4">
+              <header className="flex items-start justify-between">
+                <div>
+                  <h2 className="font-semibold text-lg">{item.title}</h2>
+                  <p className="text-sm text-[--walty-brown]">
+                    {item.productTitle} · {money(item.unitPrice)} each
+                  </p>
+                </div>
+                <button onClick={() => remove(item._key)} className="text-sm underline opacity-70">
+                  Remove
+                </button>
+              </header>
+
+              <div className="flex gap-4 items-end">
+                <label className="flex flex-col text-xs gap-1">
+                  Quantity
+                  <input
+                    type="number" min={1} max={50}
+                    value={item.quantity}
+                    onChange={e => {
+                      const q = Math.max(1, Math.min(50, Number(e.target.value) || 1))
+                      update(item._key, { quantity: q })
+                    }}
+                    className="h-9 w-20 px-2 rounded border border-teal-800/20 text-sm text-black"
+                  />
+                </label>
+                <label className="flex flex-col text-xs gap-1">
+                  Deliver on
+                  <input
+                    type="date" min={minDate} max={maxDate}
+                    value={item.deliveryDate ?? ''}
+                    onChange={e => update(item._key, { deliveryDate: e.target.value })}
+                    className="h-9 px-2 rounded border border-teal-800/20 text-sm text-black"
+                  />
+                </label>
+                <span className="ml-auto font-semibold">
+                  {money(item.unitPrice * item.quantity)}
+                </span>
+              </div>
+
+              <fieldset className="grid grid-cols-2 gap-3">
+                <legend className="text-sm font-semibold mb-2">Send to</legend>
+                {field('name',     'Name', 'col-span-2')}
+                {field('line1',    'Address line 1', 'col-span-2')}
+                {field('line2',    'Address line 2 (optional)', 'col-span-2')}
+                {field('city',     'Town / city')}
+                {field('postcode', 'Postcode')}
+                {field('country',  'Country code')}
+              </fieldset>
+            </div>
+          </section>
+        )
+      })}
+
+      <footer className="flex items-center justify-end gap-6 pt-4">
+        <span className="text-xl font-bold">Total {money(total)}</span>
+        <button
+          onClick={checkout}
+          disabled={paying}
+          className="rounded-md bg-[--walty-orange] px-8 py-3 font-semibold text-[--walty-cream]
+                     shadow hover:bg-[#af4217] disabled:opacity-60"
+        >
+          {paying ? 'Paying…' : 'Pay now'}
+        </button>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+/**********************************************************************
+ * app/basket/page.tsx       (SERVER COMPONENT)
+ * The shopper's basket – editing + checkout live in ./BasketClient
+ *********************************************************************/
+
+export const dynamic = 'force-dynamic'     // cookie-keyed, never cache
+
+import BasketClient from './BasketClient'
+import { basketTokenFromCookie, getBasket } from '@/app/library/basket'
+import { earliestDeliveryDate, latestDeliveryDate } from '@/lib/delivery'
+
+const NOTICES: Record<string, string> = {
+  payment: 'Your payment didn’t go through – please try again.',
+  changed: 'Your basket changed during payment – please check it and pay again.',
+}
+
+export default async function BasketPage({
+  searchParams,
+}: {
+  searchParams: { error?: string }
+}) {
+  const token  = basketTokenFromCookie()
+  const basket = token ? await getBasket(token) : null
+  const items  = basket?.status === 'open' ? basket.items : []
+
+  return (
+    <main className="mx-auto max-w-4xl px-6 py-12 text-[--walty-teal]">
+      <h1 className="font-serif text-3xl font-bold mb-8">Your basket</h1>
+
+      <BasketClient
+        initialItems={items}
+        minDate={earliestDeliveryDate()}
+        maxDate={latestDeliveryDate()}
+        notice={searchParams.error ? NOTICES[searchParams.error] : undefined}
+      />
+    </main>
+  )
+}
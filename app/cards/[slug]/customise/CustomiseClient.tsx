@@ -1,19 +1,143 @@
 /* app/cards/[slug]/customise/CustomiseClient.tsx
-   (replace the whole file with this) */
+   Customer editor + project autosave
+   – first change creates a customerProject (POST /api/projects) and
+     swaps the URL to /cards/<slug>/customise/<token> (the share link)
+   – every later change is PATCHed after a short debounce
+   – "Add to basket" freezes the pages into the basket (/api/basket/items) */
 
    "use client";
 
+   import { useCallback, useEffect, useRef, useState } from "react";
+   import { useRouter } from "next/navigation";
    import CardEditor from "@/app/components/CardEditor";
-   
-   export default function CustomiseClient({ tpl }: { tpl: any }) {
+   import { useEditor } from "@/app/components/EditorStore";
+   import type { TemplatePage } from "@/app/components/FabricCanvas";
+   import type { CardProduct } from "@/sanity/lib/getProduct";
+
+   const AUTOSAVE_MS = 1500;
+
+   type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+   interface Props {
+     tpl: { pages: TemplatePage[]; products: CardProduct[]; templateId?: string };
+     slug: string;
+     /** present when re-opening a saved project */
+     project?: { token: string; productId?: string };
+   }
+
+   export default function CustomiseClient({ tpl, slug, project }: Props) {
      // 1️⃣ keep the old log
      console.log("TPL pages 👉", tpl.pages);
-   
+
      // 2️⃣ NEW: put them on window so we can inspect in DevTools
      if (typeof window !== "undefined") {
        (window as any).tplPages = tpl.pages;
      }
-   
-     // 3️⃣ use customer mode so shoppers get the streamlined editor
-     return <CardEditor initialPages={tpl.pages} mode="customer" />;
-   }
\ No newline at end of file
+
+     // 3️⃣ project autosave ------------------------------------------------
+     const token = useRef(project?.token);
+     const queue = useRef<Promise<void>>(Promise.resolve());
+     const [status, setStatus] = useState<SaveStatus>(project ? "saved" : "idle");
+
+     /** one save at a time – a second POST would fork the project */
+     const save = useCallback((pages: TemplatePage[]) => {
+       queue.current = queue.current.then(async () => {
+         const { productId } = useEditor.getState();
+         setStatus("saving");
+         try {
+           if (!token.current) {
+             if (!tpl.templateId) throw new Error("template has no id");
+             const res = await fetch("/api/projects", {
+               method : "POST",
+               headers: { "content-type": "application/json" },
+               body   : JSON.stringify({ templateId: tpl.templateId, productId, pages }),
+             });
+             if (!res.ok) throw new Error(await res.text());
+             token.current = (await res.json()).token as string;
+             window.history.replaceState(null, "", `/cards/${slug}/customise/${token.current}`);
+           } else {
+             const res = await fetch(`/api/projects/${token.current}`, {
+               method : "PATCH",
+               headers: { "content-type": "application/json" },
+               body   : JSON.stringify({ productId, pages }),
+             });
+             if (!res.ok) throw new Error(await res.text());
+           }
+           setStatus("saved");
+         } catch (err) {
+           console.error("[project:save]", err);
+           setStatus("error");
+         }
+       });
+       return queue.current;
+     }, [slug, tpl.templateId]);
+
+     /* subscribe *after* CardEditor hydrated the store (child effects run first) */
+     useEffect(() => {
+       let timer: ReturnType<typeof setTimeout> | undefined;
+       const unsub = useEditor.subscribe((s, prev) => {
+         if (s.pages === prev.pages && s.productId === prev.productId) return;
+         if (s.pages.length !== 4) return;
+         clearTimeout(timer);
+         timer = setTimeout(() => save(s.pages), AUTOSAVE_MS);
+       });
+       return () => { clearTimeout(timer); unsub(); };
+     }, [save]);
+
+     // 4️⃣ add to basket – freezes the pages server-side, then go to /basket
+     const router = useRouter();
+     const addToBasket = async (pages: TemplatePage[], productId?: string) => {
+       await save(pages);                               // keep the project in step
+       const res = await fetch("/api/basket/items", {
+         method : "POST",
+         headers: { "content-type": "application/json" },
+         body   : JSON.stringify({
+           templateId  : tpl.templateId,
+           productId   : productId ?? tpl.products[0]?._id,
+           projectToken: token.current,
+           pages,
+         }),
+       });
+       if (!res.ok) {
+         const json = await res.json().catch(() => null);
+         alert(json?.error ?? "Couldn’t add to basket – please try again");
+         return;
+       }
+       router.push("/basket");
+     };
+
+     const copyLink = () => {
+       if (token.current) navigator.clipboard?.writeText(window.location.href);
+     };
+
+     // 5️⃣ use customer mode so shoppers get the streamlined editor
+     return (
+       <>
+         <CardEditor
+           initialPages={tpl.pages}
+           products={tpl.products}
+           initialProductId={project?.productId}
+           mode="customer"
+           onSave={save}
+           onAddToBasket={addToBasket}
+         />
+
+         {status !== "idle" && (
+           <div className="fixed bottom-4 right-4 z-40 flex items-center gap-3
+                           bg-white shadow rounded-md px-3 py-2 text-sm">
+             <span className={status === "error" ? "text-red-600" : "text-gray-600"}>
+               {status === "saving" ? "Saving…" : status === "saved" ? "All changes saved" : "Couldn’t save – retrying on your next change"}
+             </span>
+             {status === "saved" && (
+               <button
+                 onClick={copyLink}
+                 className="font-semibold text-[--walty-teal] hover:underline"
+               >
+                 Copy link
+               </button>
+             )}
+           </div>
+         )}
+       </>
+     );
+   }
@@ -0,0 +1,38 @@
+/**********************************************************************
+ * cards/[slug]/customise/[projectId]/page.tsx
+ * Re-opens a saved customerProject – the URL is the share link.
+ *********************************************************************/
+
+import { notFound, redirect } from 'next/navigation'
+import CustomiseClient        from '../CustomiseClient'
+import { getTemplatePages }   from '@/app/library/getTemplatePages'
+import { getProject }         from '@/app/library/getProject'
+
+/* always read the latest autosave */
+export const dynamic = 'force-dynamic'
+
+export default async function CustomiseProjectPage({
+  params,
+}: {
+  params: Promise<{ slug: string; projectId: string }>;
+}) {
+  const { slug, projectId } = await params
+
+  const project = await getProject(projectId)
+  if (!project) notFound()
+
+  /* template slug changed since the link was shared → canonical URL */
+  if (project.templateSlug && project.templateSlug !== slug) {
+    redirect(`/cards/${project.templateSlug}/customise/${project.token}`)
+  }
+
+  const { products } = await getTemplatePages(project.templateId)
+
+  return (
+    <CustomiseClient
+      tpl={{ pages: project.pages, products, templateId: project.templateId }}
+      slug={slug}
+      project={{ token: project.token, productId: project.productId }}
+    />
+  )
+}
@@ -0,0 +1,59 @@
+/**********************************************************************
+ * app/checkout/confirmation/[token]/page.tsx   (SERVER COMPONENT)
+ * Order confirmation for a paid basket.  The token is the private
+ * basket id, so the URL is only known to the buyer.
+ *********************************************************************/
+
+export const dynamic = 'force-dynamic'
+
+import Link          from 'next/link'
+import { notFound }  from 'next/navigation'
+import { getBasket } from '@/app/library/basket'
+import { orderNumberFor } from '@/lib/fulfilment'
+
+export default async function ConfirmationPage({
+  params: { token },
+}: {
+  params: { token: string }
+}) {
+  const basket = await getBasket(token)
+  if (!basket || basket.status !== 'paid') notFound()
+  const orderNumber = await orderNumberFor(token)
+
+  return (
+    <main className="mx-auto max-w-3xl px-6 py-12 text-[--walty-teal]">
+      <h1 className="font-serif text-3xl font-bold mb-2">Thank you – your order is in!</h1>
+      <p className="text-[--walty-brown] mb-8">
+        {orderNumber && <>Order <span className="font-mono font-semibold">{orderNumber}</span> · </>}
+        Payment reference <span className="font-mono">{basket.paymentId}</span>
+        {basket.paidAt && <> · {new Date(basket.paidAt).toLocaleString('en-GB')}</>}
+      </p>
+
+      <ul className="space-y-4">
+        {basket.items.map(item => (
+          <li key={item._key} className="flex gap-4 bg-white rounded-lg shadow p-4">
+            {item.coverUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={item.coverUrl} alt="" className="w-20 h-auto rounded shadow self-start" />
+            )}
+            <div className="flex-1 text-sm">
+              <p className="font-semibold text-base">{item.quantity} × {item.title}</p>
+              <p>{item.productTitle}</p>
+              {item.recipient && (
+                <p className="text-[--walty-brown]">
+                  To {item.recipient.name}, {item.recipient.city} {item.recipient.postcode}
+                </p>
+              )}
+              {item.deliveryDate && <p>Arrives {item.deliveryDate}</p>}
+            </div>
+            <span className="font-semibold">£{(item.unitPrice * item.quantity).toFixed(2)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-right text-xl font-bold mt-6">Total £{basket.total.toFixed(2)}</p>
+
+      <Link href="/" className="inline-block mt-10 underline">Back to the shop</Link>
+    </main>
+  )
+}
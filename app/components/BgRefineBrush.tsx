@@ -0,0 +1,243 @@
+/**********************************************************************
+ * BgRefineBrush.tsx — touch up a "BG Erase" cut-out by hand
+ * --------------------------------------------------------------------
+ *   Erase     paints transparency – leftover bits of backdrop
+ *   Restore   paints the original photo back – hair, ears, fingers
+ *             the cut-out took away
+ *
+ * Works on the cut-out at full size: the visible canvas *is* the
+ * result, scaled down by CSS over a checkerboard.  The original is
+ * the same pixel size (lib/backgroundRemoval), so Restore strokes with
+ * it as a pattern and every pixel lands back where it was.
+ *
+ * "Apply" hands back a PNG blob; the toolbar uploads it and swaps the
+ * layer's src, so the editor's undo covers the whole touch-up.
+ *********************************************************************/
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+export interface BgRefineBrushProps {
+  /** the current cut-out */
+  cutoutUrl  : string
+  /** the photo before the background was removed */
+  originalUrl: string
+  onApply    : (png: Blob) => Promise<void>
+  onCancel   : () => void
+}
+
+type BrushMode = 'erase' | 'restore'
+
+const MAX_UNDO    = 10
+const SIZES       = { min: 4, max: 120, start: 32 }       // screen px
+const CHECKERBOARD = 'repeating-conic-gradient(#e5e7eb 0% 25%, #fff 0% 50%) 0 0 / 16px 16px'
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image()
+  img.crossOrigin = 'anonymous'                 // the canvas must stay exportable
+  img.onload  = () => resolve(img)
+  img.onerror = () => reject(new Error(`couldn’t load ${url}`))
+  img.src = url
+})
+
+export default function BgRefineBrush({ cutoutUrl, originalUrl, onApply, onCancel }: BgRefineBrushProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const images    = useRef<{ cutout: HTMLImageElement; original: HTMLImageElement } | null>(null)
+  const undoStack = useRef<ImageData[]>([])
+  const last      = useRef<{ x: number; y: number } | null>(null)
+
+  const [ready, setReady]   = useState(false)
+  const [error, setError]   = useState<string | null>(null)
+  const [mode, setMode]     = useState<BrushMode>('erase')
+  const [size, setSize]     = useState(SIZES.start)
+  const [undos, setUndos]   = useState(0)
+  const [saving, setSaving] = useState(false)
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null)
+
+  /*──────────── load both images, draw the cut-out ────────────*/
+  useEffect(() => {
+    let alive = true
+    Promise.all([loadImage(cutoutUrl), loadImage(originalUrl)])
+      .then(([cutout, original]) => {
+        const cv = canvasRef.current
+        if (!alive || !cv) return
+        images.current = { cutout, original }
+        cv.width  = cutout.naturalWidth
+        cv.height = cutout.naturalHeight
+        cv.getContext('2d')!.drawImage(cutout, 0, 0)
+        setReady(true)
+      })
+      .catch(() => alive && setError('Couldn’t load the picture – please try again.'))
+    return () => { alive = false }
+  }, [cutoutUrl, originalUrl])
+
+  /*──────────── painting ────────────*/
+  /** screen → image pixels */
+  const toImage = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cv = e.currentTarget
+    const r  = cv.getBoundingClientRect()
+    return {
+      x    : (e.clientX - r.left) * (cv.width  / r.width),
+      y    : (e.clientY - r.top)  * (cv.height / r.height),
+      scale: cv.width / r.width,
+    }
+  }
+
+  const stroke = (from: { x: number; y: number }, to: { x: number; y: number }, scale: number) => {
+    const ctx = canvasRef.current!.getContext('2d')!
+    const { original } = images.current!
+    ctx.save()
+    ctx.lineCap   = 'round'
+    ctx.lineJoin  = 'round'
+    ctx.lineWidth = size * scale
+    if (mode === 'erase') {
+      ctx.globalCompositeOperation = 'destination-out'
+      ctx.strokeStyle = '#000'
+    } else {
+      /* the original is the same size – as a pattern it lines up pixel for pixel */
+      ctx.strokeStyle = ctx.createPattern(original, 'no-repeat')!
+    }
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(to.x + 0.01, to.y)             // a click still paints a dot
+    ctx.stroke()
+    ctx.restore()
+  }
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!ready || saving) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const cv = canvasRef.current!
+    undoStack.current = [
+      ...undoStack.current.slice(-(MAX_UNDO - 1)),
+      cv.getContext('2d')!.getImageData(0, 0, cv.width, cv.height),
+    ]
+    setUndos(undoStack.current.length)
+    const p = toImage(e)
+    last.current = p
+    stroke(p, p, p.scale)
+  }
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const r = e.currentTarget.getBoundingClientRect()
+    setCursor({ x: e.clientX - r.left, y: e.clientY - r.top })
+    if (!last.current) return
+    const p = toImage(e)
+    stroke(last.current, p, p.scale)
+    last.current = p
+  }
+
+  const endStroke = () => { last.current = null }
+
+  /*──────────── history & result ────────────*/
+  const undoStroke = () => {
+    const snap = undoStack.current.pop()
+    if (snap) canvasRef.current!.getContext('2d')!.putImageData(snap, 0, 0)
+    setUndos(undoStack.current.length)
+  }
+
+  const reset = () => {
+    const cv  = canvasRef.current!
+    const ctx = cv.getContext('2d')!
+    ctx.clearRect(0, 0, cv.width, cv.height)
+    ctx.drawImage(images.current!.cutout, 0, 0)
+    undoStack.current = []
+    setUndos(0)
+  }
+
+  const apply = async () => {
+    setSaving(true)
+    try {
+      const blob = await new Promise<Blob | null>(res => canvasRef.current!.toBlob(res, 'image/png'))
+      if (!blob) throw new Error('export failed')
+      await onApply(blob)
+    } catch (err) {
+      console.error('[refine]', err)
+      setError((err as Error).message || 'Couldn’t save the touch-up – please try again.')
+      setSaving(false)
+    }
+  }
+
+  /*──────────── render ────────────*/
+  const modeBtn = (m: BrushMode, label: string) => (
+    <button
+      type="button"
+      onClick={() => setMode(m)}
+      className={`rounded-md px-3 py-1.5 text-sm font-semibold
+                  ${mode === m ? 'bg-[--walty-teal] text-white' : 'border border-[--walty-teal] text-[--walty-teal]'}`}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-3 rounded-xl bg-white p-4 shadow-xl">
+        <div className="flex flex-wrap items-center gap-3">
+          <h2 className="mr-auto font-semibold text-[--walty-teal]">Refine cut-out</h2>
+          {modeBtn('erase', 'Erase')}
+          {modeBtn('restore', 'Restore')}
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            Brush
+            <input
+              type="range"
+              min={SIZES.min}
+              max={SIZES.max}
+              value={size}
+              onChange={e => setSize(Number(e.target.value))}
+            />
+          </label>
+        </div>
+
+        <div className="relative flex min-h-0 flex-1 items-center justify-center overflow-hidden rounded-lg"
+             style={{ background: CHECKERBOARD }}>
+          <canvas
+            ref={canvasRef}
+            className="block max-h-[65vh] max-w-full touch-none cursor-none"
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={endStroke}
+            onPointerCancel={endStroke}
+            onPointerLeave={() => setCursor(null)}
+          />
+          {cursor && ready && (
+            <span
+              className="pointer-events-none absolute rounded-full border-2 border-[--walty-orange]"
+              style={{
+                width : size,
+                height: size,
+                left  : (canvasRef.current?.offsetLeft ?? 0) + cursor.x - size / 2,
+                top   : (canvasRef.current?.offsetTop  ?? 0) + cursor.y - size / 2,
+              }}
+            />
+          )}
+          {!ready && !error && (
+            <span className="absolute text-sm text-gray-500 animate-pulse">Loading…</span>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={undoStroke} disabled={!undos || saving}
+                  className="text-sm text-[--walty-teal] underline disabled:opacity-40">
+            Undo stroke
+          </button>
+          <button type="button" onClick={reset} disabled={!ready || saving}
+                  className="text-sm text-[--walty-teal] underline disabled:opacity-40">
+            Start over
+          </button>
+          <span className="flex-1" />
+          <button type="button" onClick={onCancel} disabled={saving}
+                  className="rounded-md border border-[--walty-teal] px-4 py-2 text-sm font-semibold text-[--walty-teal]">
+            Cancel
+          </button>
+          <button type="button" onClick={apply} disabled={!ready || saving}
+                  className="rounded-md bg-[--walty-orange] px-4 py-2 text-sm font-semibold text-white disabled:opacity-40">
+            {saving ? 'Saving…' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
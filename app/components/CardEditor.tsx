@@ -7,23 +7,28 @@ import { useEditor }                    from './EditorStore'
 if (typeof window !== 'undefined') (window as any).useEditor = useEditor // debug helper
 
 import LayerPanel                       from './LayerPanel'
-import FabricCanvas                      from './FabricCanvas'
+import FabricCanvas, { snapshotPage }    from './FabricCanvas'
 import TextToolbar                      from './TextToolbar'
 import ImageToolbar                     from './ImageToolbar'
 import EditorCommands                   from './EditorCommands'
-import SelfieDrawer                     from './SelfieDrawer'
+import SelfieDrawer, { type FaceSlotView } from './SelfieDrawer'
 import { CropTool }                     from '@/lib/CropTool'
 import WaltyEditorHeader                from './WaltyEditorHeader'
+import ProductSelect                    from './ProductSelect'
+import CardPreview                      from './CardPreview'
 import type { TemplatePage }            from './FabricCanvas'
+import type { CardProduct }             from '@/sanity/lib/getProduct'
+import { printedPages }                 from '@/lib/pageGeometry'
 
 
 /* ---------- helpers ------------------------------------------------ */
 type Section = 'front' | 'inside' | 'back'
 type PageIdx = 0 | 1 | 2 | 3
 type Mode    = 'staff' | 'customer'
-export type SaveFn = (
+export type SaveFn = (pages: TemplatePage[]) => void | Promise<void>
+export type AddToBasketFn = (
   pages: TemplatePage[],
-  coverImageId?: string,
+  productId?: string,
 ) => void | Promise<void>
 
 const EMPTY: TemplatePage[] = [
@@ -61,13 +66,23 @@ export default function CardEditor({
   initialPages,
   mode = 'customer',
   onSave,
+  onAddToBasket,
+  products = [],
+  initialProductId,
 }: {
   initialPages: TemplatePage[] | undefined
   mode?: Mode
   onSave?: SaveFn
+  onAddToBasket?: AddToBasketFn
+  /** SKUs this template is sold as – the first one is the default */
+  products?: CardProduct[]
+  initialProductId?: string
 }) {
   /* 1 ─ hydrate Zustand once ------------------------------------- */
   useEffect(() => {
+    const product =
+      products.find(p => p._id === initialProductId) ?? products[0] ?? null
+    useEditor.getState().setProduct(product, { rescale: false })
     useEditor.getState().setPages(
       Array.isArray(initialPages) && initialPages.length === 4 ? initialPages : EMPTY,
     )
@@ -82,16 +97,33 @@ export default function CardEditor({
   const updateLayer = useEditor(s => s.updateLayer)
   const undo = useEditor(s => s.undo)
   const redo = useEditor(s => s.redo)
+  const geometry   = useEditor(s => s.geometry)
+  const productId  = useEditor(s => s.productId)
+  const setProduct = useEditor(s => s.setProduct)
 
+  /* pages the selected SKU actually prints */
+  const printed   = printedPages(geometry)
+  const hasPage   = (i: number) => printed.includes(i)
+  const hasInside = hasPage(1) || hasPage(2)
+  /* remount the canvases whenever the page size changes */
+  const geomKey   = `${geometry.pageW}x${geometry.pageH}`
 
   /* 3 ─ visible section ------------------------------------------ */
   const [section, setSection] = useState<Section>('front')
   const activeIdx: PageIdx =
     section === 'front'  ? 0 :
-    section === 'inside' ? 1 :
+    section === 'inside' ? (hasPage(1) ? 1 : 2) :
     3                                                        // back
   useEffect(() => { setActive(activeIdx) }, [activeIdx, setActive])
 
+  /* fall back to the front when the new SKU drops the current section */
+  useEffect(() => {
+    if ((section === 'inside' && !hasInside) || (section === 'back' && !hasPage(3))) {
+      setSection('front')
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [geometry])
+
   /* 4 ─ Fabric canvases ------------------------------------------ */
   const [canvasMap, setCanvasMap] =
     useState<(fabric.Canvas | null)[]>([null, null, null, null])
@@ -167,10 +199,9 @@ export default function CardEditor({
 
   /* 5 ─ save ------------------------------------------------------ */
   const [saving, setSaving] = useState(false)
-  const handleSave = async () => {
-    if (!onSave) return
-    setSaving(true)
-    try {
+
+  /** commit open crops + pull every canvas into the store */
+  const flushCanvases = () => {
     canvasMap.forEach(fc => {
       const tool = (fc as any)?._cropTool as CropTool | undefined
       if (tool?.isActive) tool.commit()
@@ -179,30 +210,38 @@ export default function CardEditor({
       const sync = (fc as any)?._syncLayers as (() => void) | undefined
       if (sync) sync()
     })
-    const finalPages = useEditor.getState().pages
-      let coverImageId: string | undefined
-      const fc = canvasMap[0]
-      if (fc) {
-        try {
-          const dataUrl = fc.toDataURL({ format: 'jpeg', quality: 0.8 })
-          const res = await fetch(dataUrl)
-          const blob = await res.blob()
-          const form = new FormData()
-          form.append('file', new File([blob], 'cover.jpg', { type: blob.type }))
-          const up = await fetch('/api/upload', { method: 'POST', body: form })
-          if (up.ok) {
-            const json = await up.json()
-            coverImageId = json.assetId
-          }
-        } catch (err) {
-          console.error('cover upload failed', err)
-        }
-      }
-      await onSave(finalPages, coverImageId)
+    return useEditor.getState().pages
+  }
+
+  const handleSave = async () => {
+    if (!onSave) return
+    setSaving(true)
+    try {
+      /* the cover is rendered server-side from these pages */
+      await onSave(flushCanvases())
+    }
+    finally { setSaving(false) }
+  }
+
+  const handleAddToBasket = async () => {
+    if (!onAddToBasket) return
+    setSaving(true)
+    try {
+      await onAddToBasket(flushCanvases(), useEditor.getState().productId)
     }
     finally { setSaving(false) }
   }
 
+  /* 5 b ─ preview – clean snapshots of every canvas, then the fold-out */
+  const [preview, setPreview] = useState<string[] | null>(null)
+  const openPreview = () => {
+    setPreview(canvasMap.map(fc => {
+      if (!fc) return ''
+      try { return snapshotPage(fc, geometry) }
+      catch (err) { console.error('preview snapshot failed', err); return '' }
+    }))
+  }
+
 /* 6 ─ selfie drawer ------------------------------------------------- */
 const [drawerOpen, setDrawerOpen]           = useState(false)
 const [aiPlaceholderId, setAiPlaceholderId] = useState<string | null>(null)
@@ -220,21 +259,30 @@ useEffect(() => {
   return () => document.removeEventListener('open-selfie-drawer', open)
 }, [])
 
+/* the placeholder behind the drawer – its face slots (several people
+   need one photo each), prompt variables and the ratio camera shots
+   are cropped to */
+const aiSource = (pages.flatMap(p => p.layers) as any[])
+  .find(l => l.source?._id === aiPlaceholderId)?.source
+const faceSlots: FaceSlotView[] = aiSource?.faceSlots ?? []
+
 /* 6 b – when the user picks one of the generated variants ----------- */
-const handleSwap = (url: string) => {
+const handleSwap = ({ assetId, url }: { assetId: string; url: string }) => {
   const pageIdx = activeIdx                         // current page
   const lyIdx   = pages[pageIdx].layers.findIndex(  // its aiLayer
                     l => l._type === 'aiLayer')
   if (lyIdx === -1) return                          // nothing to swap
 
-  const { x, y, w, h } =
-        pages[pageIdx].layers[lyIdx] as any         // keep geometry
-
+  /* becomes a plain image layer (geometry kept) that saves as an
+     editableImage pointing at the variant's asset */
   updateLayer(pageIdx, lyIdx, {
-    _type : 'editableImage',                        // ← now a normal image
-    src   : url,                                    // variant’s CDN URL
-    x, y, w, h,
-  })
+    _type  : undefined,
+    _isAI  : undefined,
+    source : undefined,
+    assetId,
+    srcUrl : url,                                   // variant’s CDN URL
+    src    : { _type: 'image', asset: { _type: 'reference', _ref: assetId } },
+  } as any)
 
   setDrawerOpen(false)
 }
@@ -280,11 +328,17 @@ const handleSwap = (url: string) => {
       style={{ paddingTop: "calc(var(--walty-header-h) + var(--walty-toolbar-h))" }}
     >
       <WaltyEditorHeader                     /* ② mount new component */
-        onPreview={() => console.log("preview")}
-        onAddToBasket={() => console.log("basket")}
+        onPreview={openPreview}
+        onAddToBasket={handleAddToBasket}
         height={72}                          /* match the design */
       />
 
+      <ProductSelect
+        products={products}
+        value={productId}
+        onChange={p => setProduct(p)}
+      />
+
       <EditorCommands
         onUndo={undo}
         onRedo={redo}
@@ -301,11 +355,21 @@ const handleSwap = (url: string) => {
             localStorage.setItem('ai_coachmark_shown', '1')
           }}
         />
+        <CardPreview
+          open={!!preview}
+          onClose={() => setPreview(null)}
+          images={preview ?? []}
+          printed={printed}
+          aspect={geometry.trimWmm / geometry.trimHmm}
+        />
         <SelfieDrawer
           open={drawerOpen}
           onClose={() => setDrawerOpen(false)}
           onUseSelected={handleSwap}
           placeholderId={aiPlaceholderId}   /* ← NEW prop */
+          faceSlots={faceSlots}
+          ratio={aiSource?.ratio ?? '1:1'}
+          variables={aiSource?.variables ?? []}
         />
 
 
@@ -325,6 +389,7 @@ const handleSwap = (url: string) => {
           ) : activeType === 'image' ? (
             <ImageToolbar
               canvas={activeFc}
+              mode={mode}
               saving={saving}
             />
           ) : (
@@ -343,8 +408,10 @@ const handleSwap = (url: string) => {
             {/* front */}
             <div className={section === 'front' ? box : 'hidden'}>
               <FabricCanvas
+                key={geomKey}
                 pageIdx={0}
                 page={pages[0]}
+                geometry={geometry}
                 onReady={fc => onReady(0, fc)}
                 isCropping={cropping[0]}
                 onCroppingChange={state => handleCroppingChange(0, state)}
@@ -352,19 +419,23 @@ const handleSwap = (url: string) => {
             </div>
             {/* inside */}
             <div className={section === 'inside' ? 'flex gap-6' : 'hidden'}>
-              <div className={box}>
+              <div className={hasPage(1) ? box : 'hidden'}>
                 <FabricCanvas
+                  key={geomKey}
                   pageIdx={1}
                   page={pages[1]}
+                  geometry={geometry}
                   onReady={fc => onReady(1, fc)}
                   isCropping={cropping[1]}
                   onCroppingChange={state => handleCroppingChange(1, state)}
                 />
               </div>
-              <div className={box}>
+              <div className={hasPage(2) ? box : 'hidden'}>
                 <FabricCanvas
+                  key={geomKey}
                   pageIdx={2}
                   page={pages[2]}
+                  geometry={geometry}
                   onReady={fc => onReady(2, fc)}
                   isCropping={cropping[2]}
                   onCroppingChange={state => handleCroppingChange(2, state)}
@@ -374,8 +445,10 @@ const handleSwap = (url: string) => {
             {/* back */}
             <div className={section === 'back' ? box : 'hidden'}>
               <FabricCanvas
+                key={geomKey}
                 pageIdx={3}
                 page={pages[3]}
+                geometry={geometry}
                 onReady={fc => onReady(3, fc)}
                 isCropping={cropping[3]}
                 onCroppingChange={state => handleCroppingChange(3, state)}
@@ -385,7 +458,7 @@ const handleSwap = (url: string) => {
 
           {/* thumbnails */}
           <div className="thumbnail-bar sticky bottom-0 z-20 flex justify-center gap-2 px-3 py-2 bg-[--walty-cream] text-xs">
-            {(['FRONT', 'INNER-L', 'INNER-R', 'BACK'] as const).map((lbl, i) => (
+            {(['FRONT', 'INNER-L', 'INNER-R', 'BACK'] as const).map((lbl, i) => hasPage(i) && (
               <button
                 key={lbl}
                 className={`thumb ${
@@ -0,0 +1,182 @@
+/**********************************************************************
+ * CardPreview.tsx — full-screen “what you’ll receive” view
+ * --------------------------------------------------------------------
+ * Shows the four pages as a real folding card:
+ *
+ *   leaf  (hinged on the left)   front   │ inner-L on its reverse
+ *   base                          inner-R │ back    on its reverse
+ *
+ *   front   → card closed, cover facing
+ *   inside  → leaf swung open, the spread centred
+ *   back    → card closed and turned over
+ *
+ * Faces are plain images – CardEditor passes clean canvas snapshots
+ * (no guides, hover outline or AI ghosts).  Pages the selected SKU
+ * doesn’t print are shown as blank card stock.
+ *********************************************************************/
+'use client'
+
+import { Dialog, Transition } from '@headlessui/react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+
+/*───────────────── types & constants ─────────────────*/
+export type PreviewView = 'front' | 'inside' | 'back'
+
+export interface CardPreviewProps {
+  open   : boolean
+  onClose: () => void
+  /** data-URLs for front · inner-L · inner-R · back ('' = blank) */
+  images : string[]
+  /** page indices the SKU prints (see printedPages) */
+  printed: number[]
+  /** trim width / height – keeps the card the right shape */
+  aspect : number
+}
+
+const FOLD_MS = 900
+const LABELS  = ['Front', 'Inside left', 'Inside right', 'Back']
+
+/*───────────────── one side of a panel ───────────────*/
+function Face ({ src, label, reverse = false }: {
+  src    : string
+  label  : string
+  reverse?: boolean
+}) {
+  return (
+    <div
+      className="absolute inset-0 bg-white overflow-hidden"
+      style={{
+        backfaceVisibility      : 'hidden',
+        WebkitBackfaceVisibility: 'hidden',
+        transform               : reverse ? 'rotateY(180deg)' : undefined,
+        /* no filter on the card itself – it would flatten the 3D */
+        boxShadow               : '0 0 0 1px rgba(0,0,0,.06), 0 18px 30px -12px rgba(0,0,0,.45)',
+      }}
+    >
+      {/* data-URL snapshot – nothing for next/image to optimise */}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      {src && <img src={src} alt={label} draggable={false} className="w-full h-full object-cover select-none" />}
+    </div>
+  )
+}
+
+/*───────────────── component ─────────────────────────*/
+export default function CardPreview ({
+  open, onClose, images, printed, aspect,
+}: CardPreviewProps) {
+  const [view, setView] = useState<PreviewView>('front')
+
+  const folds   = printed.includes(1) || printed.includes(2)
+  const hasBack = printed.includes(3)
+  const views   = useMemo<PreviewView[]>(
+    () => ['front', ...(folds ? ['inside' as const] : []), ...(hasBack ? ['back' as const] : [])],
+    [folds, hasBack],
+  )
+
+  /* every opening starts on the cover */
+  useEffect(() => { if (open) setView('front') }, [open])
+
+  /* ← / → step through the views */
+  useEffect(() => {
+    if (!open) return
+    const onKey = (e: KeyboardEvent) => {
+      const i = views.indexOf(view)
+      if (e.key === 'ArrowRight' && i < views.length - 1) setView(views[i + 1])
+      if (e.key === 'ArrowLeft'  && i > 0)                setView(views[i - 1])
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [open, view, views])
+
+  const page = (i: number) => (printed.includes(i) ? images[i] ?? '' : '')
+
+  /* clicking the card toggles open ↔ closed (or turns a flat card) */
+  const onCardClick = () =>
+    setView(v => v === 'inside' ? 'front' : folds && v === 'front' ? 'inside' : hasBack && v === 'front' ? 'back' : 'front')
+
+  const ease = `transform ${FOLD_MS}ms cubic-bezier(.4,.1,.2,1)`
+
+  /*────────────────── UI ──────────────────*/
+  return (
+    <Transition.Root show={open} as={Fragment}>
+      <Dialog as="div" className="fixed inset-0 z-[60]" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="transition-opacity ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="transition-opacity ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-[--walty-brown]/80 backdrop-blur-sm" aria-hidden />
+        </Transition.Child>
+
+        <Dialog.Panel className="fixed inset-0 flex flex-col items-center justify-center gap-8 px-4">
+          <Dialog.Title className="sr-only">Card preview</Dialog.Title>
+
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-6 text-3xl leading-none text-white/80 hover:text-white"
+            aria-label="Close preview"
+          >
+            ✕
+          </button>
+
+          {/* stage – the card is offset right when open so the spread is centred */}
+          <div style={{ perspective: '2400px' }}>
+            <div
+              onClick={onCardClick}
+              className="relative cursor-pointer"
+              style={{
+                width         : `min(${(62 * aspect).toFixed(2)}vh, 42vw)`,
+                aspectRatio   : String(aspect),
+                transformStyle: 'preserve-3d',
+                transition    : ease,
+                transform     : [
+                  view === 'inside' ? 'translateX(50%)' : '',
+                  view === 'back'   ? 'rotateY(180deg)' : '',
+                ].join(' ') || 'none',
+              }}
+            >
+              {/* base panel */}
+              <Face src={page(2)} label={LABELS[2]} />
+              <Face src={page(3)} label={LABELS[3]} reverse />
+
+              {/* leaf – hinged on the left edge, 1 px proud of the base */}
+              <div
+                className="absolute inset-0"
+                style={{
+                  transformOrigin: 'left center',
+                  transformStyle : 'preserve-3d',
+                  transition     : ease,
+                  transform      : `translateZ(1px) rotateY(${view === 'inside' ? -180 : 0}deg)`,
+                }}
+              >
+                <Face src={page(0)} label={LABELS[0]} />
+                <Face src={page(1)} label={LABELS[1]} reverse />
+              </div>
+            </div>
+          </div>
+
+          {/* view switcher */}
+          <div className="flex gap-2">
+            {views.map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`rounded-md px-5 py-2 font-semibold shadow capitalize ${
+                  v === view
+                    ? 'bg-[--walty-orange] text-[--walty-cream]'
+                    : 'bg-[--walty-cream] text-[--walty-brown] hover:bg-[--walty-cream]/90'
+                }`}
+              >
+                {v === 'inside' ? 'Open card' : v === 'back' ? 'Turn over' : 'Front'}
+              </button>
+            ))}
+          </div>
+        </Dialog.Panel>
+      </Dialog>
+    </Transition.Root>
+  )
+}
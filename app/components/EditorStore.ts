@@ -4,10 +4,51 @@
  *********************************************************************/
 import { create } from 'zustand'
 import type { Layer, TemplatePage } from './FabricCanvas'
+import {
+  DEFAULT_GEOMETRY, pageGeometry,
+  type PageGeometry, type ProductSpec,
+} from '@/lib/pageGeometry'
 
 /* ---------- helpers ------------------------------------------------ */
 const clone = <T,>(v: T): T => JSON.parse(JSON.stringify(v))
 
+/**
+ * Move + resize one layer for a new page size.  Positions follow the
+ * page proportionally (sx / sy) while sizes use one uniform factor so
+ * nothing gets squashed; each layer keeps its relative centre.
+ */
+const rescaleLayer = (l: Layer, sx: number, sy: number, s: number): Layer => {
+  const isText = l.type === 'text'
+  const w  = (l.width  ?? 0) * (isText ? l.scaleX ?? 1 : 1)
+  const h  = (l.height ?? 0) * (isText ? l.scaleY ?? 1 : 1)
+  const out: Layer = {
+    ...l,
+    x: (l.x + w / 2) * sx - (w * s) / 2,
+    y: (l.y + h / 2) * sy - (h * s) / 2,
+  }
+
+  if (isText) {
+    out.scaleX = (l.scaleX ?? 1) * s
+    out.scaleY = (l.scaleY ?? 1) * s
+  } else {
+    /* un-scaled images are auto-fitted by FabricCanvas – leave them */
+    if (l.scaleX != null) out.scaleX = l.scaleX * s
+    if (l.scaleY != null) out.scaleY = l.scaleY * s
+    if (l.width  != null) out.width  = l.width  * s
+    if (l.height != null) out.height = l.height * s
+  }
+  if (l.w != null) out.w = l.w * s          // aiLayer geometry
+  if (l.h != null) out.h = l.h * s
+  return out
+}
+
+const rescalePages = (pages: TemplatePage[], from: PageGeometry, to: PageGeometry) => {
+  const sx = to.pageW / from.pageW
+  const sy = to.pageH / from.pageH
+  const s  = Math.min(sx, sy)
+  return pages.map(p => ({ ...p, layers: p.layers.map(l => rescaleLayer(l, sx, sy, s)) }))
+}
+
 /* ---------- extra editor-only fields ------------------------------- */
 export type EditorLayer = Layer & {
   /** blob: URL shown while an upload is in-flight                   */
@@ -27,6 +68,10 @@ interface EditorState {
   pages: TemplatePage[]
   activePage: number
 
+  /* ---- selected product (SKU) ---- */
+  productId?: string
+  geometry: PageGeometry
+
   /* ---- Selfie drawer ---- */
   drawerState: DrawerState
   drawerImages: string[]
@@ -47,6 +92,11 @@ interface EditorState {
   setDrawerState: (s: DrawerState) => void
   setDrawerImgs:  (a: string[]) => void
   setProgress:    (n: number) => void
+  /** switch SKU – rescales every layer when the page size changes */
+  setProduct:     (
+    p   : (Partial<ProductSpec> & { _id?: string }) | null,
+    opts?: { rescale?: boolean },
+  ) => void
 
     /* new — FabricCanvas pushes a whole page’s layer list */
   setPageLayers: (page: number, layers: EditorLayer[]) => void
@@ -65,6 +115,10 @@ export const useEditor = create<EditorState>((set, get) => ({
   pages: [],
   activePage: 0,
 
+  /* ───── product ───── */
+  productId: undefined,
+  geometry : DEFAULT_GEOMETRY,
+
   /* ───── drawer defaults ───── */
   drawerState: 'idle',
   drawerImages: [],
@@ -120,6 +174,19 @@ export const useEditor = create<EditorState>((set, get) => ({
   setDrawerImgs : arr => set({ drawerImages: arr, choice: undefined }),
   setProgress   : n   => set({ drawerProgress: n }),
 
+  setProduct: (p, { rescale = true } = {}) => {
+    const { geometry: from, pages, pushHistory } = get()
+    const to = pageGeometry(p)
+    const resized = to.pageW !== from.pageW || to.pageH !== from.pageH
+
+    if (!rescale || !resized || pages.length === 0) {
+      set({ productId: p?._id, geometry: to })
+      return
+    }
+    set({ productId: p?._id, geometry: to, pages: rescalePages(pages, from, to) })
+    pushHistory()
+  },
+
     /* push whole layer arrays coming from FabricCanvas */
     setPageLayers : (pageIdx: number, layers: EditorLayer[]) =>
       set(state => {
@@ -175,7 +242,10 @@ export const useEditor = create<EditorState>((set, get) => ({
       const fd = new FormData()
       fd.append('file', file)
       const res = await fetch('/api/upload', { method: 'POST', body: fd })
-      if (!res.ok) throw new Error(await res.text())
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({}))
+        throw new Error(error ?? `HTTP ${res.status}`)
+      }
 
       const { url, assetId } = await res.json()
 
@@ -203,7 +273,14 @@ export const useEditor = create<EditorState>((set, get) => ({
       }
     } catch (err) {
       console.error('Upload failed:', err)
-      /* optional: toast or mark layer errored */
+      /* drop the optimistic layer – a refused picture mustn't stay on the card */
+      const dropPages = clone(get().pages)
+      dropPages[activePage].layers = dropPages[activePage].layers.filter(
+        l => !((l as EditorLayer).uploading && (l as EditorLayer).srcUrl === blobUrl),
+      )
+      set({ pages: dropPages })
+      pushHistory()
+      alert((err as Error).message || 'Upload failed – please try again.')
     }
   },
 
@@ -15,24 +15,26 @@ import { fromSanity }        from '@/app/library/layerAdapters'
 import '@/lib/fabricDefaults'
 import { SEL_COLOR } from '@/lib/fabricDefaults';
 import { CropTool } from '@/lib/CropTool'
+import { applyImageAdjustments } from '@/lib/imageFilters'
+import { applyMask } from '@/lib/clipMasks'
+import { ADJUSTMENT_KEYS, adjustmentsOf, hasAdjustments } from '@/lib/imageAdjustments'
+import {
+  mm, PREVIEW_W, DEFAULT_GEOMETRY, type PageGeometry,
+} from '@/lib/pageGeometry'
 
 /* ---------- size helpers ---------------------------------------- */
-const DPI       = 300
-const mm        = (n: number) => (n / 25.4) * DPI
-const TRIM_W_MM = 150
-const TRIM_H_MM = 214
-const BLEED_MM  = 3
-const PAGE_W    = Math.round(mm(TRIM_W_MM + BLEED_MM * 2))
-const PAGE_H    = Math.round(mm(TRIM_H_MM + BLEED_MM * 2))
-const PREVIEW_W = 420
-const PREVIEW_H = Math.round(PAGE_H * PREVIEW_W / PAGE_W)
-const SCALE     = PREVIEW_W / PAGE_W
-
-// 4 CSS-px padding used by the hover outline
-const PAD  = 4 / SCALE;
-
-/** turn  gap (px) → a dashed-array scaled to canvas units */
-const dash = (gap: number) => [gap / SCALE, (gap - 2) / SCALE];
+/** page + preview sizes for one product geometry (SKU) */
+const previewMetrics = (g: PageGeometry) => {
+  const SCALE = PREVIEW_W / g.pageW
+  return {
+    PAGE_W   : g.pageW,
+    PAGE_H   : g.pageH,
+    PREVIEW_H: Math.round(g.pageH * PREVIEW_W / g.pageW),
+    SCALE,
+    // 4 CSS-px padding used by the hover outline
+    PAD      : 4 / SCALE,
+  }
+}
 
 
 
@@ -78,12 +80,30 @@ export interface Layer {
   /** `image-…` ID returned by `/api/upload` */
   assetId?: string
 
+  /** cut-outs only: the photo before "BG Erase" – the refine brush
+      paints it back.  Editor session only, never saved */
+  bgSourceUrl?: string
+
   /** optional cropping rectangle (in image pixels) */
   cropX?: number
   cropY?: number
   cropW?: number
   cropH?: number
 
+  /** colour / blur adjustments – see lib/imageAdjustments */
+  brightness?: number
+  contrast?:   number
+  saturation?: number
+  warmth?:     number
+  blur?:       number
+  grayscale?:  boolean
+  sepia?:      boolean
+
+  /** shape the photo is cut to – preset name or SVG path, see
+      lib/imageMasks.  `photoSlot`: a template slot customers fill */
+  mask?:       string
+  photoSlot?:  boolean
+
   /* ---- SHARED geometry / style ---------------------------------- */
   x: number
   y: number
@@ -140,6 +160,7 @@ const syncGhost = (
   img   : fabric.Image,
   ghost : HTMLDivElement,
   canvas: HTMLCanvasElement,
+  SCALE : number,
 ) => {
   const canvasRect = canvas.getBoundingClientRect()
   const { left, top, width, height } = img.getBoundingRect()
@@ -197,6 +218,7 @@ const objToLayer = (o: fabric.Object): Layer => {
   const i = o as fabric.Image
   const srcUrl  = (i as any).__src || i.getSrc?.() || ''
   const assetId = (i as any).assetId as string | undefined
+  const bgSourceUrl = (i as any).bgSourceUrl as string | undefined
 
   const layer: Layer = {
     type   : 'image',
@@ -205,6 +227,7 @@ const objToLayer = (o: fabric.Object): Layer => {
                : srcUrl,
     srcUrl ,
     assetId,
+    ...(bgSourceUrl && { bgSourceUrl }),
     x      : i.left  || 0,
     y      : i.top   || 0,
     width  : i.getScaledWidth(),
@@ -212,6 +235,9 @@ const objToLayer = (o: fabric.Object): Layer => {
     opacity: i.opacity,
     scaleX : i.scaleX,
     scaleY : i.scaleY,
+    ...adjustmentsOf(i as any),
+    ...((i as any).mask && { mask: (i as any).mask as string }),
+    ...((i as any).photoSlot && { photoSlot: true }),
   }
 
   if (i.cropX != null) layer.cropX = i.cropX
@@ -222,6 +248,36 @@ const objToLayer = (o: fabric.Object): Layer => {
   return layer
 }
 
+/**
+ * The page as the customer will receive it – trimmed to the finished
+ * size, with guides, hover outline and crop handles hidden for the shot
+ * (AI ghosts are DOM overlays, so they never reach the canvas).
+ */
+export const snapshotPage = (
+  fc: fabric.Canvas,
+  g : PageGeometry = DEFAULT_GEOMETRY,
+  multiplier = 2,
+) => {
+  const bleed  = mm(g.bleedMm) * fc.getZoom()
+  const chrome = fc.getObjects().filter(o =>
+    o.visible && !(o as any)._backdrop && (o as any).layerIdx === undefined)
+  chrome.forEach(o => { o.visible = false })
+  try {
+    return fc.toDataURL({
+      format : 'jpeg',
+      quality: 0.92,
+      multiplier,
+      left   : bleed,
+      top    : bleed,
+      width  : fc.getWidth()  - bleed * 2,
+      height : fc.getHeight() - bleed * 2,
+    })
+  } finally {
+    chrome.forEach(o => { o.visible = true })
+    fc.requestRenderAll()
+  }
+}
+
 /** Read every on-canvas object → Layers, update Zustand + history */
 const syncLayersFromCanvas = (fc: fabric.Canvas, pageIdx: number) => {
   const objs = fc
@@ -252,9 +308,10 @@ const syncLayersFromCanvas = (fc: fabric.Canvas, pageIdx: number) => {
 };
 
 /* ---------- guides ---------------------------------------------- */
-const addGuides = (fc: fabric.Canvas) => {
+const addGuides = (fc: fabric.Canvas, g: PageGeometry) => {
   fc.getObjects().filter(o => (o as any)._guide).forEach(o => fc.remove(o))
-  const inset = mm(8 + BLEED_MM)
+  const { pageW: PAGE_W, pageH: PAGE_H } = g
+  const inset = mm(8 + g.bleedMm)
   const strokeW = mm(0.5)
   const dash = [mm(3)]
   const mk = (xy: [number, number, number, number]) =>
@@ -271,15 +328,15 @@ const addGuides = (fc: fabric.Canvas) => {
 }
 
 /* ---------- white backdrop -------------------------------------- */
-const addBackdrop = (fc: fabric.Canvas) => {
+const addBackdrop = (fc: fabric.Canvas, g: PageGeometry) => {
   // only add it once
   if (fc.getObjects().some(o => (o as any)._backdrop)) return
 
   const bg = new fabric.Rect({
     left   : 0,
     top    : 0,
-    width  : PAGE_W,
-    height : PAGE_H,
+    width  : g.pageW,
+    height : g.pageH,
     fill   : '#ffffff',         // ← solid white
     selectable       : false,
     evented          : false,
@@ -298,9 +355,15 @@ interface Props {
   onReady    : (fc: fabric.Canvas | null) => void
   isCropping?: boolean
   onCroppingChange?: (state: boolean) => void
+  /** page size of the selected SKU – remount (key) to change it */
+  geometry?  : PageGeometry
 }
 
-export default function FabricCanvas ({ pageIdx, page, onReady, isCropping = false, onCroppingChange }: Props) {
+export default function FabricCanvas ({
+  pageIdx, page, onReady, isCropping = false, onCroppingChange,
+  geometry = DEFAULT_GEOMETRY,
+}: Props) {
+  const { PAGE_W, PAGE_H, PREVIEW_H, SCALE, PAD } = previewMetrics(geometry)
   const canvasRef    = useRef<HTMLCanvasElement>(null)
   const fcRef        = useRef<fabric.Canvas | null>(null)
   const maskRectsRef = useRef<fabric.Rect[]>([]);
@@ -334,7 +397,7 @@ useEffect(() => {
     container.style.maxWidth  = `${PREVIEW_W}px`;
     container.style.maxHeight = `${PREVIEW_H}px`;
   }
-  addBackdrop(fc);
+  addBackdrop(fc, geometry);
   // keep the preview scaled to 420 px wide
   fc.setViewportTransform([SCALE, 0, 0, SCALE, 0, 0]);
 
@@ -425,7 +488,7 @@ fc.on('mouse:over', e => {
   fc.requestRenderAll()
 })
 
-addGuides(fc)                                 // green safe-zone guides
+addGuides(fc, geometry)                       // green safe-zone guides
   /* ── 4.5 ▸ Fabric ➜ Zustand sync ──────────────────────────── */
   fc.on('object:modified', e=>{
     isEditing.current = true
@@ -447,6 +510,12 @@ addGuides(fc)                                 // green safe-zone guides
       ...(t.width  != null && { cropW: t.width  }),
       ...(t.height != null && { cropH: t.height }),
     })
+    /* unset adjustments must clear the stored ones too */
+    if (t.type === 'image') {
+      const adj = adjustmentsOf(t)
+      ADJUSTMENT_KEYS.forEach(k => { (d as any)[k] = adj[k] })
+      Object.assign(d, { mask: t.mask || undefined, photoSlot: t.photoSlot || undefined })
+    }
     if (t.type === 'textbox') Object.assign(d, {
       text       : t.text,
       fontSize   : t.fontSize,
@@ -498,7 +567,8 @@ const allObjs = (o: fabric.Object) =>
 
 /** Extra props we must keep when serialising */
 const PROPS = [
-  'src', 'srcUrl', 'assetId', '__src',               // images
+  'src', 'srcUrl', 'assetId', '__src', 'bgSourceUrl', // images
+  ...ADJUSTMENT_KEYS, 'mask', 'photoSlot',
   'text', 'fontSize', 'fontFamily', 'fill',          // text
   'fontWeight', 'fontStyle', 'underline',
   'textAlign', 'lineHeight', 'opacity',
@@ -674,6 +744,7 @@ if (ly.type === 'image' && (ly.src || ly.srcUrl)) {
     (img as any).__src   = srcUrl
     if (ly.assetId) (img as any).assetId = ly.assetId
     if (ly.srcUrl) (img as any).srcUrl = ly.srcUrl
+    if (raw.bgSourceUrl) (img as any).bgSourceUrl = raw.bgSourceUrl
 
           /* cropping */
           if (ly.cropX != null) img.cropX = ly.cropX
@@ -681,6 +752,17 @@ if (ly.type === 'image' && (ly.src || ly.srcUrl)) {
           if (ly.cropW != null) img.width = ly.cropW
           if (ly.cropH != null) img.height = ly.cropH
 
+          /* colour / blur adjustments */
+          const adj = adjustmentsOf(ly)
+          if (hasAdjustments(adj)) applyImageAdjustments(img, adj)
+
+          /* shape mask – clipped to the crop box just set */
+          if (ly.mask) {
+            (img as any).mask = ly.mask
+            applyMask(img)
+          }
+          if (ly.photoSlot) (img as any).photoSlot = true
+
           /* scale */
           if (ly.scaleX == null || ly.scaleY == null) {
             const s = Math.min(1, PAGE_W / img.width!, PAGE_H / img.height!)
@@ -740,7 +822,7 @@ img.on('mouseup', () => {
               img.on('mouseout',  () => { ghost!.style.opacity = '0' })
             }
 
-            const doSync = () => canvasRef.current && ghost && syncGhost(img, ghost, canvasRef.current)
+            const doSync = () => canvasRef.current && ghost && syncGhost(img, ghost, canvasRef.current, SCALE)
             doSync()
             img.on('moving',   doSync)
                .on('scaling',  doSync)
@@ -807,7 +889,7 @@ img.on('mouseup', () => {
       }
     }
 
-    addGuides(fc)
+    addGuides(fc, geometry)
     hoverRef.current?.bringToFront()
     fc.requestRenderAll();
     hydrating.current = false
@@ -816,7 +898,9 @@ img.on('mouseup', () => {
         detail: { pageIdx, canvas: fc },
       })
     )
-  }, [page])
+  /* all but `page` are fixed for a mounted canvas – geometry is the
+     store's object and a new page size remounts (CardEditor's key) */
+  }, [page, pageIdx, geometry, PAGE_W, PAGE_H, SCALE])
 
   /* ---------- render ----------------------------------------- */
   return (
@@ -13,12 +13,15 @@ import { fabric } from "fabric";
 import { useEditor } from "./EditorStore";
 import ToolFlipImage     from "./toolbar/ToolFlipImage";
 import ToolOpacitySlider from "./toolbar/ToolOpacitySlider";
+import ToolAdjustImage   from "./toolbar/ToolAdjustImage";
+import ToolMask          from "./toolbar/ToolMask";
+import ToolPhotoSlot     from "./toolbar/ToolPhotoSlot";
+import ToolRemoveBg      from "./toolbar/ToolRemoveBg";
 import IconButton        from "./toolbar/IconButton";
 
 /* lucide-react icons */
 import {
   Crop,
-  Eraser,
   Lock,
   Unlock,
   ArrowDownToLine,
@@ -37,12 +40,15 @@ import {
 
 
 /* ───────────────────────── main toolbar component ─── */
+type Mode = "staff" | "customer";
+
 interface Props {
   canvas: fabric.Canvas | null;
   saving: boolean;
+  mode?: Mode;
 }
 
-export default function ImageToolbar({ canvas: fc, saving }: Props) {
+export default function ImageToolbar({ canvas: fc, saving, mode = "customer" }: Props) {
   /* local state / editor wiring */
   const [, force]      = useState({});
   const reorder        = useEditor(s => s.reorder);
@@ -100,6 +106,10 @@ export default function ImageToolbar({ canvas: fc, saving }: Props) {
     mutate({ left: pos[(pos.findIndex(p => Math.abs(left - p) < 1) + 1) % 3] });
   };
 
+  /* template photo slot – customers swap the photo, not the shape */
+  const photoSlot = Boolean((img as any).photoSlot);
+  const staff     = mode === "staff";
+
   /* layer lock */
   const locked = Boolean((img as any).locked);
   const toggleLock = () => {
@@ -151,9 +161,12 @@ export default function ImageToolbar({ canvas: fc, saving }: Props) {
         <IconButton Icon={Crop} label="Crop" onClick={() => document.dispatchEvent(new Event("start-crop"))} />
         <ToolFlipImage img={img} mutate={mutate} />
         <ToolOpacitySlider img={img} mutate={mutate} />
+        <ToolAdjustImage img={img} mutate={mutate} />
+        {photoSlot && <ToolPhotoSlot img={img} />}
+        {(staff || !photoSlot) && <ToolMask img={img} mutate={mutate} staff={staff} />}
         <IconButton Icon={AlignToPageVertical}   label="Center vertical" caption="Center Y" onClick={cycleVertical} />
         <IconButton Icon={AlignToPageHorizontal} label="Center horizontal" caption="Center X" onClick={cycleHorizontal} />
-        <IconButton Icon={Eraser} label="Remove background" caption="BG Erase" onClick={() => alert("TODO: remove background") } />
+        <ToolRemoveBg img={img} />
         <IconButton Icon={locked ? Lock : Unlock} label={locked ? "Unlock layer" : "Lock layer"} active={locked} onClick={toggleLock} />
         <IconButton Icon={ArrowDownToLine} label="Send backward" caption="Send ↓" onClick={sendBackward} />
         <IconButton Icon={ArrowUpToLine}   label="Bring forward" caption="Bring ↑" onClick={bringForward} />
@@ -0,0 +1,48 @@
+/**********************************************************************
+ * ProductSelect.tsx – pick the card size (cardProduct SKU)
+ * Changing it resizes the pages and rescales every layer.
+ *********************************************************************/
+'use client'
+
+import type { ChangeEvent }  from 'react'
+import type { CardProduct } from '@/sanity/lib/getProduct'
+
+interface Props {
+  products : CardProduct[]
+  value?   : string
+  onChange : (p: CardProduct) => void
+}
+
+export default function ProductSelect ({ products, value, onChange }: Props) {
+  if (products.length < 2) return null
+
+  return (
+    <div
+      className="fixed left-6 z-40 flex items-center gap-2 bg-white shadow rounded-md px-3 py-3 text-sm select-none"
+      style={{ top: 'var(--walty-header-h)' }}
+    >
+      <label htmlFor="product-select" className="font-semibold text-[--walty-teal]">
+        Size
+      </label>
+      <select
+        id="product-select"
+        value={value}
+        onChange={(e: ChangeEvent<HTMLSelectElement>) => {
+          const next = products.find(p => p._id === e.target.value)
+          if (next) onChange(next)
+        }}
+        className="
+          h-10 min-w-[9rem] px-2 rounded-lg
+          bg-white/80 border border-teal-800/10
+          focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-teal-400/50
+        "
+      >
+        {products.map(p => (
+          <option key={p._id} value={p._id}>
+            {p.title} · {p.trimWidthMm}×{p.trimHeightMm} mm{p.price != null ? ` · £${p.price.toFixed(2)}` : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
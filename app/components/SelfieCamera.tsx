@@ -0,0 +1,222 @@
+/**********************************************************************
+ * SelfieCamera.tsx — take the selfie with the webcam
+ * --------------------------------------------------------------------
+ *   live      mirrored preview (getUserMedia, front camera) with an
+ *             oval to put your face in
+ *   counting  3 · 2 · 1 – time to look at the camera
+ *   review    the still, with Retake / Use this photo
+ *
+ * The frame is cut to the placeholder's ratio exactly as the preview
+ * showed it (a centred object-cover crop) and handed on as a JPEG
+ * File, so it enters SelfieDrawer's pre-flight like any picked photo.
+ * The still is NOT mirrored – it is how other people see you.
+ *
+ * The camera is switched off as soon as a frame is taken and when the
+ * component unmounts.
+ *********************************************************************/
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+/*───────────────── types & constants ─────────────────*/
+export type CameraRatio = '1:1' | '3:2' | '2:3'
+
+export interface SelfieCameraProps {
+  /** the placeholder's ratio – the still is cropped to it */
+  ratio    : CameraRatio
+  onCapture: (file: File) => void
+  onCancel : () => void
+}
+
+type CameraPhase =
+  | { state: 'starting' }
+  | { state: 'live' }
+  | { state: 'counting'; n: number }
+  | { state: 'review'; file: File; url: string }
+  | { state: 'error'; message: string }
+
+const COUNT_FROM = 3
+const JPEG_Q     = 0.92
+
+/** width / height */
+const ASPECT: Record<CameraRatio, number> = { '1:1': 1, '3:2': 3 / 2, '2:3': 2 / 3 }
+
+/** getUserMedia needs a secure context – hide the button where it can't work */
+export const cameraSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+
+const cameraError = (err: unknown) => {
+  const name = (err as DOMException)?.name
+  if (name === 'NotAllowedError')  return 'Camera access was blocked — allow it in your browser’s address bar, or upload a photo instead.'
+  if (name === 'NotFoundError')    return 'We couldn’t find a camera — upload a photo instead.'
+  if (name === 'NotReadableError') return 'Your camera is busy in another app — close it and try again.'
+  return 'The camera didn’t start — upload a photo instead.'
+}
+
+/** the centred `aspect` crop of the current video frame, as a JPEG */
+async function grabFrame (video: HTMLVideoElement, aspect: number): Promise<File> {
+  const W = video.videoWidth, H = video.videoHeight
+  const cw = Math.min(W, H * aspect)
+  const ch = cw / aspect
+
+  const canvas = document.createElement('canvas')
+  canvas.width  = Math.round(cw)
+  canvas.height = Math.round(ch)
+  canvas.getContext('2d')!.drawImage(video, (W - cw) / 2, (H - ch) / 2, cw, ch, 0, 0, canvas.width, canvas.height)
+  const blob = await new Promise<Blob>((res, rej) =>
+    canvas.toBlob(b => (b ? res(b) : rej(new Error('capture failed'))), 'image/jpeg', JPEG_Q))
+  return new File([blob], `selfie-${Date.now()}.jpg`, { type: 'image/jpeg' })
+}
+
+/*───────────────── component ─────────────────────────*/
+export default function SelfieCamera ({ ratio, onCapture, onCancel }: SelfieCameraProps) {
+  const [phase, setPhase] = useState<CameraPhase>({ state: 'starting' })
+  const videoRef  = useRef<HTMLVideoElement | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const timerRef  = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const aliveRef  = useRef(true)             // unmounted while asking for the camera?
+  const aspect    = ASPECT[ratio] ?? 1
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(t => t.stop())
+    streamRef.current = null
+  }
+
+  const startCamera = useCallback(async () => {
+    setPhase({ state: 'starting' })
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'user', width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      })
+      if (!aliveRef.current) { stream.getTracks().forEach(t => t.stop()); return }
+      streamRef.current = stream
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        await videoRef.current.play().catch(() => {})
+      }
+      setPhase({ state: 'live' })
+    } catch (err) {
+      setPhase({ state: 'error', message: cameraError(err) })
+    }
+  }, [])
+
+  /*──────── on mount: camera on; on unmount: camera, timer and still off ───*/
+  useEffect(() => {
+    aliveRef.current = true
+    void startCamera()
+    return () => {
+      aliveRef.current = false
+      clearTimeout(timerRef.current)
+      stopCamera()
+    }
+  }, [startCamera])
+
+  const reviewUrl = phase.state === 'review' ? phase.url : ''
+  useEffect(() => () => { reviewUrl && URL.revokeObjectURL(reviewUrl) }, [reviewUrl])
+
+  /*───────────────── helpers ─────────────────*/
+  const capture = async () => {
+    const video = videoRef.current
+    if (!video?.videoWidth) { setPhase({ state: 'live' }); return }
+    try {
+      const file = await grabFrame(video, aspect)
+      stopCamera()
+      setPhase({ state: 'review', file, url: URL.createObjectURL(file) })
+    } catch (err) {
+      console.error(err)
+      setPhase({ state: 'error', message: 'Couldn’t take the picture — please try again.' })
+    }
+  }
+
+  const countdown = (n: number) => {
+    if (n === 0) { void capture(); return }
+    setPhase({ state: 'counting', n })
+    timerRef.current = setTimeout(() => countdown(n - 1), 1000)
+  }
+
+  const retake = () => void startCamera()
+
+  /*────────────────── UI ──────────────────*/
+  return (
+    <div className="space-y-3">
+      <div
+        className="relative w-full overflow-hidden rounded-lg bg-black"
+        style={{ aspectRatio: String(aspect) }}
+      >
+        {/* stays mounted so a retake can reattach the stream */}
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className="absolute inset-0 w-full h-full object-cover -scale-x-100"   /* mirrored, like a mirror */
+        />
+        {phase.state === 'review' && (
+          <img src={phase.url} alt="your selfie" className="absolute inset-0 w-full h-full object-cover" />
+        )}
+
+        {/* face-framing oval – everything outside it is dimmed */}
+        {(phase.state === 'live' || phase.state === 'counting') && (
+          <div
+            aria-hidden
+            className="absolute left-1/2 top-[45%] h-[65%] aspect-[3/4] -translate-x-1/2 -translate-y-1/2
+                       rounded-[50%] border-2 border-white/90 shadow-[0_0_0_9999px_rgba(0,0,0,.45)]"
+          />
+        )}
+
+        {phase.state === 'counting' && (
+          <span className="absolute inset-0 flex items-center justify-center text-6xl font-bold text-white drop-shadow">
+            {phase.n}
+          </span>
+        )}
+
+        {phase.state === 'starting' && (
+          <span className="absolute inset-0 flex items-center justify-center text-sm text-white/80 animate-pulse">
+            Starting the camera…
+          </span>
+        )}
+
+        {phase.state === 'error' && (
+          <p className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-white">
+            {phase.message}
+          </p>
+        )}
+      </div>
+
+      {phase.state === 'live' && (
+        <p className="text-xs text-center text-gray-500">Fit your face in the oval, then look at the camera.</p>
+      )}
+
+      <div className="flex gap-2">
+        {phase.state === 'review' ? (
+          <>
+            <button
+              onClick={() => onCapture(phase.file)}
+              className="flex-1 rounded-md bg-indigo-600 text-white py-2 font-semibold hover:bg-indigo-700"
+            >
+              Use this photo
+            </button>
+            <button
+              onClick={retake}
+              className="flex-1 rounded-md border border-indigo-600 text-indigo-600 py-2 font-semibold"
+            >
+              Retake
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => countdown(COUNT_FROM)}
+            disabled={phase.state !== 'live'}
+            className="flex-1 rounded-md bg-indigo-600 text-white py-2 font-semibold hover:bg-indigo-700
+                       disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {phase.state === 'counting' ? 'Smile…' : 'Take photo'}
+          </button>
+        )}
+        <button onClick={onCancel} className="px-3 text-indigo-600 underline text-sm">
+          Upload instead
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,48 +1,223 @@
 /**********************************************************************
- * SelfieDrawer.tsx – v2.1 (June 2025)
+ * SelfieDrawer.tsx – v2.7
  * --------------------------------------------------------------------
- * idle        → pick / replace
- * generating  → progress bar
- * select      → show 4 variants returned by /api/variants
+ * idle        → pick / replace (one photo per face slot)
+ * generating  → progress bar fed by the job's SSE stream; variants
+ *               appear in the grid one by one as they're drawn
+ * select      → compare the variants and pick one
+ *
+ * New in v2.7
+ * • prompt variables ("Render {{name}} as a {{style}} astronaut"): a
+ *   field per variable the placeholder declares, checked with the
+ *   server's own rules (lib/promptVariables) before Generate unlocks.
+ *
+ * New in v2.6
+ * • "Use your camera": SelfieCamera takes the photo in the browser
+ *   (mirrored preview, face oval, countdown, retake), cropped to the
+ *   placeholder's ratio; it then goes through the same pre-flight.
+ *
+ * New in v2.5
+ * • multi-face placeholders ("partner 1", "partner 2"): a tab per face
+ *   slot, each with its own photo and pre-flight; Generate waits until
+ *   every slot has a photo that passed, and the job gets them all as
+ *   `faces`.
+ *
+ * New in v2.4
+ * • a picked photo is vetted straight away (POST /api/selfie/preflight
+ *   – faces, blur, resolution) and Generate waits until it passes;
+ *   with several faces the customer taps the one to use and the photo
+ *   is cropped to it.
+ *
+ * New in v2.3
+ * • variants are image assets: "Use selected" hands the editor an
+ *   { assetId, url } pair instead of a data-URL.
+ * • the placeholder decides how many variants (1-4, fewer near the
+ *   visitor's daily budget); they're drawn in parallel and streamed.
+ * • every variant can be favourited (♥), discarded (✕) or redrawn on
+ *   its own (↻ – a single-slot job); "Compare" shows the favourites –
+ *   or everything still in play – full width, one under the other.
+ *
+ * New in v2.2
+ * • generation is a background job (POST /api/variants/jobs); the bar
+ *   shows the server's real state instead of a timer.
+ * • the job id is kept in localStorage per placeholder, so closing the
+ *   drawer or reloading the page resumes the same job.
  *
  * New in v2.1
  * • nonce → first page-load after a hard refresh always triggers a
  *   fresh OpenAI call (nonce is part of the KV fingerprint).
  * • force → “Generate again” button bypasses KV, so the user always
- *   gets four new images.
+ *   gets new images.
  *********************************************************************/
 'use client'
 
 import { Dialog, Transition } from '@headlessui/react'
 import { Fragment, useEffect, useRef, useState } from 'react'
 
+import {
+  resolveVariables, variableLabel,
+  type PromptValues, type PromptVariable,
+} from '@/lib/promptVariables'
+import SelfieCamera, { cameraSupported, type CameraRatio } from './SelfieCamera'
+
 /*───────────────── types & constants ─────────────────*/
 type Phase = 'idle' | 'generating' | 'select'
 
+/* mirror VariantJob / VariantSlot in lib/variantJobs + lib/variants
+   (server-only modules) */
+type JobStatus = 'queued' | 'uploading' | 'generating' | 'swapping' | 'post-processing' | 'done' | 'failed'
+interface VariantSlotView {
+  slot    : number
+  assetId?: string
+  url?    : string
+  error?  : string
+}
+interface VariantJobView {
+  id       : string
+  status   : JobStatus
+  progress : number
+  variants?: VariantSlotView[]
+  urls?    : string[]
+  error?   : string
+}
+
+/* mirror FaceBox / PreflightIssue in lib/preflight (server-only) */
+interface FaceBox { x: number; y: number; w: number; h: number }
+type PreflightIssue =
+  | { code: 'unreadable' | 'no-face' }
+  | { code: 'low-res'; width: number; height: number; minSide: number }
+  | { code: 'blurry'; sharpness: number }
+  | { code: 'many-faces'; faces: FaceBox[] }
+
+/** where the picked photo is in the pre-flight */
+type PhotoCheck =
+  | { state: 'none' }
+  | { state: 'checking' }
+  | { state: 'ok' }
+  | { state: 'bad'; message: string; issue?: PreflightIssue }
+
+/** one picked photo and its pre-flight */
+interface Photo {
+  file   : File
+  preview: string
+  check  : PhotoCheck
+}
+
+/** mirror FaceSlot in sanity/lib/getPromptForPlaceholder (server-only) */
+export interface FaceSlotView {
+  key  : string
+  name : string
+  hint?: string
+}
+
+/** the photo key on single-face placeholders */
+const SOLO = ''
+
+/** a slot as the drawer shows it */
+interface SlotView extends VariantSlotView {
+  /** still being drawn (first time or redraw) */
+  busy?: boolean
+  fav? : boolean
+  /** discarded by the customer – the tile stays so it can be redrawn */
+  gone?: boolean
+}
+
+const STAGE_LABEL: Record<JobStatus, string> = {
+  queued           : 'Waiting for a free artist…',
+  uploading        : 'Sending your photo…',
+  generating       : 'Just adding some spice 🌶️',
+  swapping         : 'Putting you in the picture…',
+  'post-processing': 'Finishing touches…',
+  done             : 'Done!',
+  failed           : 'Something went wrong',
+}
+
 export interface SelfieDrawerProps {
   open          : boolean
   onClose       : () => void
-  onUseSelected : (url: string) => void
+  /** the chosen variant – an image asset and its CDN URL */
+  onUseSelected : (image: { assetId: string; url: string }) => void
   placeholderId : string | null
+  /** the placeholder's face slots – empty for a single face */
+  faceSlots?    : FaceSlotView[]
+  /** the placeholder's ratio – camera shots are cropped to it */
+  ratio?        : CameraRatio
+  /** the placeholder's prompt variables – the customer fills them in */
+  variables?    : PromptVariable[]
 }
 
 const SLIDE_MS  = 300
 const DRAWER_PX = 340
 
+/* the running job per placeholder survives a reload via localStorage */
+const jobKey      = (placeholderId: string) => `walty:variant-job:${placeholderId}`
+const storedJob   = (placeholderId: string) => localStorage.getItem(jobKey(placeholderId))
+const rememberJob = (placeholderId: string, id: string) => localStorage.setItem(jobKey(placeholderId), id)
+const forgetJob   = (placeholderId: string) => localStorage.removeItem(jobKey(placeholderId))
+
+/** the server's slots, keeping what the customer did to each */
+const mergeSlots = (prev: SlotView[], next: VariantSlotView[]): SlotView[] =>
+  next.map(v => {
+    const old = prev.find(p => p.slot === v.slot)
+    return { fav: old?.fav, gone: old?.gone, ...v, busy: !v.url && !v.error }
+  })
+
+const readAsDataUrl = (f: File) => new Promise<string>(res => {
+  const fr = new FileReader()
+  fr.onloadend = () => res(fr.result as string)
+  fr.readAsDataURL(f)
+})
+
+/** head-and-shoulders crop around one face, as a new JPEG file */
+async function cropToFace (src: string, face: FaceBox, name: string): Promise<File> {
+  const img = new Image()
+  img.src = src
+  await img.decode()
+  const W = img.naturalWidth, H = img.naturalHeight
+
+  /* twice the face box, centred on it, kept inside the photo */
+  const cw = Math.min(W, face.w * W * 2)
+  const ch = Math.min(H, face.h * H * 2)
+  const cx = Math.min(W - cw, Math.max(0, (face.x + face.w / 2) * W - cw / 2))
+  const cy = Math.min(H - ch, Math.max(0, (face.y + face.h / 2) * H - ch / 2))
+
+  const canvas = document.createElement('canvas')
+  canvas.width  = Math.round(cw)
+  canvas.height = Math.round(ch)
+  canvas.getContext('2d')!.drawImage(img, cx, cy, cw, ch, 0, 0, canvas.width, canvas.height)
+  const blob = await new Promise<Blob>((res, rej) =>
+    canvas.toBlob(b => (b ? res(b) : rej(new Error('crop failed'))), 'image/jpeg', 0.92))
+  return new File([blob], name.replace(/\.\w+$/, '') + '-face.jpg', { type: 'image/jpeg' })
+}
+
 /*───────────────── component ─────────────────────────*/
 export default function SelfieDrawer ({
-  open, onClose, onUseSelected, placeholderId,
+  open, onClose, onUseSelected, placeholderId, faceSlots = [], ratio = '1:1', variables = [],
 }: SelfieDrawerProps) {
 
-  /*──────── file-picker state ────────*/
-  const [file,    setFile]    = useState<File | null>(null)
-  const [preview, setPreview] = useState<string>('')
+  /*──────── file-picker state – one photo per face slot ────────*/
+  const [photos,     setPhotos]     = useState<Record<string, Photo>>({})
+  const [activeFace, setActiveFace] = useState(SOLO)
+  const checkRuns = useRef(new Map<string, number>())   // ignore answers for older picks
+  const [camera,     setCamera]     = useState(false)     // webcam instead of the drop zone
+
+  const faceKeys = faceSlots.length ? faceSlots.map(f => f.key) : [SOLO]
+  const face     = faceKeys.includes(activeFace) ? activeFace : faceKeys[0]
+  const photo    = photos[face] as Photo | undefined
+  const preview  = photo?.preview ?? ''
+  const check    = photo?.check ?? { state: 'none' }
+
+  /*──────── prompt variables – blanks fall back to their defaults ────────*/
+  const [values, setValues] = useState<PromptValues>({})
+  const resolved = resolveVariables(variables, values)
 
   /*──────── workflow state ───────────*/
   const [phase,   setPhase]   = useState<Phase>('idle')
-  const [pct,     setPct]     = useState(0)                // fake progress %
-  const [results, setResults] = useState<string[]>([])     // 4 data-URLs
-  const [choice,  setChoice]  = useState(0)                // selected index
+  const [pct,     setPct]     = useState(0)                // server-reported %
+  const [stage,   setStage]   = useState<JobStatus>('queued')
+  const [slots,   setSlots]   = useState<SlotView[]>([])
+  const [choice,  setChoice]  = useState<number | null>(null)   // selected slot
+  const [compare, setCompare] = useState(false)
 
   /*──── per-page nonce busts cache on hard-refresh ────*/
   const [nonce] = useState(
@@ -51,44 +226,101 @@ export default function SelfieDrawer ({
       : `${Date.now()}-${Math.random()}`,
   )
 
-  /*──────── refs & timers ───────────*/
-  const inputRef     = useRef<HTMLInputElement | null>(null)
-  const timerRef     = useRef<ReturnType<typeof setInterval> | null>(null)
-  const requestedRef = useRef(false)       // ensure single API hit per run
-  const forceRef     = useRef(false)       // “Generate again” flag
+  /*──────── refs ───────────*/
+  const inputRef    = useRef<HTMLInputElement | null>(null)
+  const streamRef   = useRef<EventSource | null>(null)
+  const slotStreams = useRef(new Map<number, EventSource>())   // single-slot redraws
+  const busyRef     = useRef(false)          // ensure single API hit per run
 
-  /*──────── revoke preview URL on change / unmount ───*/
-  useEffect(() => () => { preview && URL.revokeObjectURL(preview) }, [preview])
+  /*──────── revoke the preview URLs on unmount (replace revokes its own) ───*/
+  const photosRef = useRef(photos)
+  photosRef.current = photos
+  useEffect(() => () => {
+    Object.values(photosRef.current).forEach(p => URL.revokeObjectURL(p.preview))
+  }, [])
 
-  /*──────── fake progress bar ─────────*/
+  /*──────── close the streams on unmount ───*/
   useEffect(() => {
-    if (phase !== 'generating') return
-
-    setPct(0)
-    timerRef.current = setInterval(() => {
-      setPct(p => {
-        if (p >= 100) {
-          clearInterval(timerRef.current!)
-          fetchResults(forceRef.current)    // use latest flag
-          return 100
-        }
-        return p + 2.5
-      })
-    }, 100)
-
-    return () => clearInterval(timerRef.current!)
-  }, [phase])
+    const redraws = slotStreams.current
+    return () => {
+      streamRef.current?.close()
+      redraws.forEach(es => es.close())
+    }
+  }, [])
 
   /*───────────────── helpers ─────────────────*/
   const openPicker = () => inputRef.current?.click()
 
+  const stopFollowing = () => {
+    streamRef.current?.close()
+    streamRef.current = null
+  }
+
+  const stopRedraws = () => {
+    slotStreams.current.forEach(es => es.close())
+    slotStreams.current.clear()
+  }
+
+  const patchSlot = (slot: number, patch: Partial<SlotView>) =>
+    setSlots(prev => prev.map(v => (v.slot === slot ? { ...v, ...patch } : v)))
+
+  /** close without cancelling – reopening resumes the job */
+  const closeDrawer = () => {
+    stopFollowing()
+    stopRedraws()
+    busyRef.current = false
+    setCamera(false)
+    setPhase('idle')
+    setSlots([])
+    setCompare(false)
+    onClose()
+  }
+
   const resetToIdle = () => {
-    clearInterval(timerRef.current!)
+    stopFollowing()
+    stopRedraws()
+    if (placeholderId) forgetJob(placeholderId)
+    busyRef.current = false
     setPct(0)
+    setStage('queued')
     setPhase('idle')
-    setResults([])
-    setChoice(0)
-    requestedRef.current = false
+    setSlots([])
+    setChoice(null)
+    setCompare(false)
+  }
+
+  const setCheck = (key: string, check: PhotoCheck) =>
+    setPhotos(prev => (prev[key] ? { ...prev, [key]: { ...prev[key], check } } : prev))
+
+  /** server pre-flight for a freshly picked photo */
+  const vet = async (key: string, f: File) => {
+    const run = (checkRuns.current.get(key) ?? 0) + 1
+    checkRuns.current.set(key, run)
+    const current = () => checkRuns.current.get(key) === run
+    try {
+      const r = await fetch('/api/selfie/preflight', {
+        method : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body   : JSON.stringify({ selfieBase64: await readAsDataUrl(f) }),
+      })
+      const res = await r.json().catch(() => ({}))
+      if (!current()) return
+      if (r.ok && res.ok === false) setCheck(key, { state: 'bad', message: res.error, issue: res.issue })
+      /* a 429 or an outage doesn't block – the variants route checks again */
+      else setCheck(key, { state: 'ok' })
+    } catch {
+      if (current()) setCheck(key, { state: 'ok' })
+    }
+  }
+
+  const takePhoto = (key: string, f: File) => {
+    const old = photos[key]?.preview
+    if (old) URL.revokeObjectURL(old)
+    setPhotos(prev => ({
+      ...prev,
+      [key]: { file: f, preview: URL.createObjectURL(f), check: { state: 'checking' } },
+    }))
+    void vet(key, f)
   }
 
   const handleFiles = (files?: FileList | null) => {
@@ -96,59 +328,137 @@ export default function SelfieDrawer ({
     const f = files[0]
     if (!f.type.startsWith('image/')) { alert('Please pick an image'); return }
     if (f.size > 8 * 1024 * 1024)     { alert('Max size is 8 MB');     return }
+    takePhoto(face, f)
+  }
 
-    preview && URL.revokeObjectURL(preview)
-    setFile(f)
-    setPreview(URL.createObjectURL(f))
+  const pickFace = async (box: FaceBox) => {
+    if (!photo) return
+    try {
+      takePhoto(face, await cropToFace(photo.preview, box, photo.file.name))
+    } catch (err) {
+      console.error(err)
+      alert('Couldn’t crop that photo – please pick another.')
+    }
   }
 
-  /*──────────── entry point → generating ────────────*/
-  const startGeneration = (force = false) => {
-    if (!file || !placeholderId) return
-    forceRef.current = force
+  /** apply one status snapshot from the server */
+  const showJob = (job: VariantJobView) => {
+    setStage(job.status)
+    setPct(job.progress)
+    if (job.variants?.length) setSlots(prev => mergeSlots(prev, job.variants!))
+    if (job.status === 'done') {
+      stopFollowing()
+      busyRef.current = false
+      const first = job.variants?.find(v => v.url)
+      if (!first) {
+        alert('Image generation returned no results – try again.')
+        resetToIdle()
+        return
+      }
+      setChoice(first.slot)
+      setPhase('select')
+    }
+    if (job.status === 'failed') {
+      stopFollowing()
+      alert(job.error || 'Image generation failed — please try again later.')
+      resetToIdle()
+    }
+  }
+
+  /** stream a job's progress (SSE) until it finishes */
+  const follow = (id: string) => {
+    stopFollowing()
     setPhase('generating')
-    setResults([])
+    const es = new EventSource(`/api/variants/jobs/${id}/events`)
+    streamRef.current = es
+    es.addEventListener('status', e => showJob(JSON.parse((e as MessageEvent).data)))
+    es.onerror = () => {
+      /* CONNECTING = the browser is already retrying; CLOSED = gone (404) */
+      if (es.readyState === EventSource.CLOSED && streamRef.current === es) {
+        alert('We lost track of that image – please generate again.')
+        resetToIdle()
+      }
+    }
   }
 
-  /*──────────── call /api/variants ────────────*/
-  const fetchResults = async (force: boolean) => {
-    if (requestedRef.current) return           // guarantee single hit
-    requestedRef.current = true
+  /*──────── resume a job started before a reload ───*/
+  useEffect(() => {
+    if (!open || !placeholderId || busyRef.current) return
+    const id = storedJob(placeholderId)
+    if (!id) return
 
-    if (!preview || !placeholderId) return     // extra guard
+    busyRef.current = true
+    fetch(`/api/variants/jobs/${id}`)
+      .then(r => (r.ok ? r.json() : null))
+      .then((job: VariantJobView | null) => {
+        if (!job) { resetToIdle(); return }
+        if (job.status === 'done' || job.status === 'failed') showJob(job)
+        else follow(id)
+      })
+      .catch(() => { busyRef.current = false })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, placeholderId])
 
-    /* file preview (blob) → base64 data-URL */
-    const selfieBlob  = await fetch(preview).then(r => r.blob())
-    const selfieBase64: string = await new Promise(res => {
-      const fr = new FileReader()
-      fr.onloadend = () => res(fr.result as string)
-      fr.readAsDataURL(selfieBlob)
+  /** every face slot has a photo */
+  const photosReady = faceKeys.every(k => photos[k])
+
+  /** the request's photos (`faces` on multi-face placeholders) and variables */
+  const jobBody = async (): Promise<Record<string, unknown>> => ({
+    ...(faceSlots.length
+      ? {
+          faces: Object.fromEntries(await Promise.all(
+            faceSlots.map(async f => [f.key, await readAsDataUrl(photos[f.key].file)]))),
+        }
+      : { selfieBase64: await readAsDataUrl(photos[SOLO].file) }),
+    ...(variables.length && { variables: values }),
+  })
+
+  /** POST a job; null (after telling the customer) when it was refused */
+  const queueJob = async (body: Record<string, unknown>): Promise<string | null> => {
+    const r = await fetch('/api/variants/jobs', {
+      method : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body   : JSON.stringify({ placeholderId, nonce, ...body }),
     })
 
-    try {
-      const r = await fetch('/api/variants', {
-        method : 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body   : JSON.stringify({
-          selfieBase64,
-          placeholderId,
-          force,          // bypass KV?
-          nonce,          // per-page nonce
-        }),
-      })
+    /* a photo failed pre-flight after all – show why next to it */
+    if (r.status === 422) {
+      const { error, issue, face: bad = faceKeys[0] } = await r.json().catch(() => ({}))
+      setCheck(bad, { state: 'bad', message: error || 'Please pick a different photo.', issue })
+      setActiveFace(bad)
+      return null
+    }
 
-      if (!r.ok) throw new Error(await r.text())
-      const urls: string[] = await r.json()
+    /* rate limit / daily cap – the server's message says when to retry */
+    if (r.status === 429) {
+      const { error } = await r.json().catch(() => ({ error: '' }))
+      alert(error || 'Too many requests – please try again shortly.')
+      return null
+    }
+    if (!r.ok) throw new Error(await r.text())
+    return ((await r.json()) as { id: string }).id
+  }
 
-      if (urls.length === 0) {
-        alert('Image generation returned no results – try again.')
-        resetToIdle()
-        return
-      }
+  /*──────────── entry point → queue a job ────────────*/
+  const startGeneration = async (force = false) => {
+    if (!photosReady || !placeholderId || busyRef.current) return
+    busyRef.current = true
+    stopRedraws()
+    setPhase('generating')
+    setSlots([])
+    setChoice(null)
+    setCompare(false)
+    setPct(0)
+    setStage('queued')
 
-      setResults(urls)
-      setChoice(0)
-      setPhase('select')
+    try {
+      const id = await queueJob({
+        ...await jobBody(),
+        force,          // bypass KV?
+      })
+      if (!id) { resetToIdle(); return }
+      rememberJob(placeholderId, id)
+      follow(id)
     } catch (err) {
       console.error(err)
       alert('Image generation failed — please try again later.')
@@ -156,13 +466,75 @@ export default function SelfieDrawer ({
     }
   }
 
+  /*──────────── redraw one slot ────────────*/
+  const redrawSlot = async (slot: number) => {
+    if (!photosReady || !placeholderId || slotStreams.current.has(slot)) return
+    const before = slots.find(v => v.slot === slot)
+    patchSlot(slot, { url: undefined, error: undefined, busy: true, gone: false })
+
+    let id: string | null
+    try {
+      id = await queueJob({ ...await jobBody(), slot })
+    } catch (err) {
+      console.error(err)
+      id = null
+    }
+    if (!id) { if (before) patchSlot(slot, { ...before, busy: false }); return }
+
+    const es = new EventSource(`/api/variants/jobs/${id}/events`)
+    slotStreams.current.set(slot, es)
+    const finish = (patch: Partial<SlotView>) => {
+      es.close()
+      slotStreams.current.delete(slot)
+      patchSlot(slot, { ...patch, busy: false })
+    }
+    es.addEventListener('status', e => {
+      const job: VariantJobView = JSON.parse((e as MessageEvent).data)
+      const v = job.variants?.[0]
+      if (v?.url)                 finish({ url: v.url, assetId: v.assetId })
+      else if (v?.error)          finish({ error: v.error })
+      else if (job.status === 'failed') finish({ error: job.error })
+    })
+    es.onerror = () => {
+      if (es.readyState === EventSource.CLOSED) finish({ error: 'We lost track of that image.' })
+    }
+  }
+
+  const toggleFav = (slot: number) =>
+    setSlots(prev => prev.map(v => (v.slot === slot ? { ...v, fav: !v.fav } : v)))
+
+  const discard = (slot: number) => {
+    patchSlot(slot, { gone: true, fav: false })
+    if (choice === slot) {
+      setChoice(slots.find(v => v.slot !== slot && v.url && !v.gone)?.slot ?? null)
+    }
+  }
+
+  /*──────── what the grid / compare view show ───*/
+  const kept      = slots.filter(v => v.url && !v.gone)
+  const favs      = kept.filter(v => v.fav)
+  const comparing = favs.length ? favs : kept
+  const chosen    = slots.find(v => v.slot === choice && !v.gone && v.url && v.assetId)
+
+  const canGenerate = photosReady && !!placeholderId && resolved.ok
+    && faceKeys.every(k => photos[k].check.state === 'ok')
+
+  const tileProps = {
+    choice,
+    canRedraw: photosReady,
+    onPick   : setChoice,
+    onFav    : toggleFav,
+    onDiscard: discard,
+    onRedraw : redrawSlot,
+  }
+
   /*────────────────── UI ──────────────────*/
   return (
     <Transition.Root show={open} as={Fragment}>
       <Dialog
         as="div"
         className="fixed inset-0 z-50 flex"
-        onClose={() => { resetToIdle(); onClose() }}
+        onClose={closeDrawer}
       >
         {/*──── backdrop ────*/}
         <Transition.Child
@@ -199,41 +571,79 @@ export default function SelfieDrawer ({
               <h2 className="text-sm font-medium">
                 {phase === 'generating' ? 'Generating your images' : 'Selfie Drawer'}
               </h2>
-              <button onClick={onClose} className="text-xl leading-none">×</button>
+              <button onClick={closeDrawer} className="text-xl leading-none">×</button>
             </div>
 
             {/*──────── idle ─────────*/}
             {phase === 'idle' && (
               <section className="flex-1 overflow-auto p-6 space-y-6">
-                <h3 className="text-xl font-semibold">Replace the face</h3>
+                <h3 className="text-xl font-semibold">
+                  {faceSlots.length ? 'Replace the faces' : 'Replace the face'}
+                </h3>
 
-                <DropZone
-                  preview={preview}
-                  openPicker={openPicker}
-                  handleFiles={handleFiles}
-                  inputRef={inputRef}
-                />
+                {faceSlots.length > 0 && (
+                  <FaceTabs slots={faceSlots} active={face} photos={photos} onSelect={setActiveFace} />
+                )}
 
-                {preview && (
-                  <button
-                    onClick={openPicker}
-                    className="text-indigo-600 underline text-xs"
-                  >
-                    Replace
-                  </button>
+                {camera ? (
+                  <SelfieCamera
+                    key={face}                      /* a fresh camera per face slot */
+                    ratio={ratio}
+                    onCapture={f => { takePhoto(face, f); setCamera(false) }}
+                    onCancel={() => setCamera(false)}
+                  />
+                ) : (
+                  <>
+                    <DropZone
+                      preview={preview}
+                      openPicker={openPicker}
+                      handleFiles={handleFiles}
+                      inputRef={inputRef}
+                    />
+
+                    <div className="flex gap-4">
+                      {preview && (
+                        <button
+                          onClick={openPicker}
+                          className="text-indigo-600 underline text-xs"
+                        >
+                          Replace
+                        </button>
+                      )}
+                      {cameraSupported() && (
+                        <button
+                          onClick={() => setCamera(true)}
+                          className="text-indigo-600 underline text-xs"
+                        >
+                          📷 Use your camera
+                        </button>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                <PhotoCheckNote check={check} preview={preview} onPickFace={pickFace} />
+
+                {variables.length > 0 && (
+                  <VariableFields
+                    variables={variables}
+                    values={values}
+                    error={resolved.ok ? null : resolved.error}
+                    onChange={(name, value) => setValues(v => ({ ...v, [name]: value }))}
+                  />
                 )}
 
                 <TipsBox />
 
                 <button
-                  disabled={!file || !placeholderId}
+                  disabled={!canGenerate}
                   onClick={() => startGeneration(false)}
                   className={`w-full rounded-md py-2 font-semibold
-                    ${file
+                    ${canGenerate
                       ? 'bg-indigo-600 text-white hover:bg-indigo-700'
                       : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
                 >
-                  Generate 4 variants
+                  Generate variants
                 </button>
               </section>
             )}
@@ -241,9 +651,11 @@ export default function SelfieDrawer ({
             {/*──────── generating ─────────*/}
             {phase === 'generating' && (
               <section className="flex-1 flex flex-col items-center justify-center p-8 space-y-8">
-                <SkeletonGrid />
+                {slots.length
+                  ? <SlotGrid slots={slots} {...tileProps} readOnly />
+                  : <SkeletonGrid />}
                 <p className="text-center text-lg font-medium">
-                  Just adding some spice 🌶️
+                  {STAGE_LABEL[stage]}
                 </p>
                 <ProgressBar pct={pct} />
                 <button
@@ -258,47 +670,49 @@ export default function SelfieDrawer ({
             {/*──────── select ─────────*/}
             {phase === 'select' && (
               <section className="flex-1 overflow-auto p-6 space-y-6">
-                <h3 className="text-xl font-semibold mb-1">Replace the face</h3>
-
-                <div className="grid grid-cols-2 gap-3">
-                  {results.map((url, i) => (
+                <div className="flex items-baseline justify-between">
+                  <h3 className="text-xl font-semibold mb-1">Replace the face</h3>
+                  {kept.length > 1 && (
                     <button
-                      key={url}
-                      onClick={() => setChoice(i)}
-                      className={`relative rounded-md overflow-hidden ring-2
-                        ${choice === i ? 'ring-indigo-600' : 'ring-transparent'}
-                        focus:outline-none`}
+                      onClick={() => setCompare(c => !c)}
+                      className="text-indigo-600 underline text-sm"
                     >
-                      <img
-                        src={url}
-                        alt={`variant ${i}`}
-                        className="w-full h-full object-cover"
-                      />
-                      {choice === i && (
-                        <span
-                          className="absolute top-1 right-1 bg-white rounded-full p-0.5 text-indigo-600"
-                        >
-                          ✓
-                        </span>
-                      )}
+                      {compare ? 'Back to grid' : favs.length ? `Compare ♥ (${favs.length})` : 'Compare'}
                     </button>
-                  ))}
+                  )}
                 </div>
 
+                {compare ? (
+                  <div className="space-y-4">
+                    {comparing.map(v => <SlotTile key={v.slot} v={v} {...tileProps} large />)}
+                  </div>
+                ) : (
+                  <SlotGrid slots={slots} {...tileProps} />
+                )}
+
                 <p className="text-center text-sm">
-                  Pick the picture you like best.
+                  Pick the picture you like best – ♥ to shortlist, ✕ to drop, ↻ to redraw one.
                 </p>
 
                 <div className="flex gap-2">
                   <button
-                    onClick={() => { onUseSelected(results[choice]); onClose() }}
-                    className="flex-1 rounded-md bg-indigo-600 text-white py-2 font-semibold"
+                    onClick={() => {
+                      if (!chosen) return
+                      onUseSelected({ assetId: chosen.assetId!, url: chosen.url! })
+                      if (placeholderId) forgetJob(placeholderId)
+                      onClose()
+                    }}
+                    disabled={!chosen}
+                    className="flex-1 rounded-md bg-indigo-600 text-white py-2 font-semibold
+                               disabled:opacity-40 disabled:cursor-not-allowed"
                   >
                     Use selected
                   </button>
                   <button
                     onClick={() => startGeneration(true)}   /* force = true */
-                    className="flex-1 rounded-md border border-indigo-600 text-indigo-600 py-2 font-semibold"
+                    disabled={!photosReady}                 /* resumed after a reload */
+                    className="flex-1 rounded-md border border-indigo-600 text-indigo-600 py-2 font-semibold
+                               disabled:opacity-40 disabled:cursor-not-allowed"
                   >
                     Generate again
                   </button>
@@ -378,6 +792,90 @@ const PickerPlaceholder = () => (
   </div>
 )
 
+/** one tab per face slot – its name, hint and how its photo is doing */
+function FaceTabs({
+  slots, active, photos, onSelect,
+}: {
+  slots   : FaceSlotView[]
+  active  : string
+  photos  : Record<string, Photo>
+  onSelect: (key: string) => void
+}) {
+  const current = slots.find(f => f.key === active)
+  const mark = (p?: Photo) =>
+      !p                          ? '+'
+    : p.check.state === 'ok'      ? '✓'
+    : p.check.state === 'bad'     ? '⚠'
+    :                               '…'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {slots.map(f => (
+          <button
+            key={f.key}
+            onClick={() => onSelect(f.key)}
+            className={`rounded-full border px-3 py-1 text-sm
+              ${f.key === active
+                ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                : 'border-gray-300 text-gray-600 hover:border-indigo-400'}`}
+          >
+            {mark(photos[f.key])} {f.name}
+          </button>
+        ))}
+      </div>
+      {current && (
+        <p className="text-sm text-gray-600">
+          Photo of <strong>{current.name}</strong>{current.hint && ` – ${current.hint}`}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/** one input per prompt variable – text, number or a select */
+function VariableFields({
+  variables, values, error, onChange,
+}: {
+  variables: PromptVariable[]
+  values   : PromptValues
+  error    : string | null
+  onChange : (name: string, value: string) => void
+}) {
+  const field = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none'
+  return (
+    <section className="space-y-3">
+      <h4 className="font-medium">Personalise it</h4>
+      {variables.map(v => (
+        <label key={v.name} className="block space-y-1">
+          <span className="text-sm text-gray-700">{variableLabel(v)}</span>
+          {v.type === 'select' ? (
+            <select
+              value={values[v.name] ?? v.default ?? ''}
+              onChange={e => onChange(v.name, e.target.value)}
+              className={field}
+            >
+              {!v.default && <option value="">Choose…</option>}
+              {v.options?.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          ) : (
+            <input
+              type={v.type === 'number' ? 'number' : 'text'}
+              value={values[v.name] ?? ''}
+              placeholder={v.default}
+              min={v.min}
+              max={v.max}
+              onChange={e => onChange(v.name, e.target.value)}
+              className={field}
+            />
+          )}
+        </label>
+      ))}
+      {error && <p className="text-sm text-rose-700">{error}</p>}
+    </section>
+  )
+}
+
 const TipsBox = () => (
   <section className="border rounded-lg px-4 py-3 bg-gray-50 space-y-1">
     <h4 className="font-medium">Tips for best results</h4>
@@ -391,6 +889,140 @@ const TipsBox = () => (
   </section>
 )
 
+interface TileActions {
+  choice    : number | null
+  canRedraw : boolean
+  onPick    : (slot: number) => void
+  onFav     : (slot: number) => void
+  onDiscard : (slot: number) => void
+  onRedraw  : (slot: number) => void
+  /** while the first run is still streaming in */
+  readOnly? : boolean
+}
+
+function SlotGrid({ slots, ...actions }: TileActions & { slots: SlotView[] }) {
+  return (
+    <div className="grid grid-cols-2 gap-3 w-full">
+      {slots.map(v => <SlotTile key={v.slot} v={v} {...actions} />)}
+    </div>
+  )
+}
+
+function SlotTile({
+  v, choice, canRedraw, onPick, onFav, onDiscard, onRedraw, readOnly, large,
+}: TileActions & { v: SlotView; large?: boolean }) {
+  const chosen = choice === v.slot && !v.gone
+
+  const body = v.busy ? (
+    <div className="w-full h-full flex items-center justify-center bg-gray-100 animate-pulse">
+      <span className="text-xs text-gray-500">Drawing…</span>
+    </div>
+  ) : v.gone || !v.url ? (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-1 bg-gray-50 text-gray-500 p-2">
+      <span className="text-xs text-center">{v.gone ? 'Discarded' : v.error || 'No image'}</span>
+      {!readOnly && (
+        <button
+          onClick={() => onRedraw(v.slot)}
+          disabled={!canRedraw}
+          className="text-indigo-600 underline text-xs disabled:opacity-40"
+        >
+          ↻ Redraw
+        </button>
+      )}
+    </div>
+  ) : (
+    <button onClick={() => onPick(v.slot)} disabled={readOnly} className="w-full h-full focus:outline-none">
+      <img
+        src={v.url}
+        alt={`variant ${v.slot + 1}`}
+        className="w-full h-full object-cover"
+      />
+    </button>
+  )
+
+  return (
+    <div
+      className={`relative rounded-md overflow-hidden ring-2
+        ${large ? 'w-full' : 'aspect-square'}
+        ${chosen ? 'ring-indigo-600' : 'ring-transparent'}`}
+    >
+      {body}
+
+      {chosen && (
+        <span className="absolute top-1 right-1 bg-white rounded-full p-0.5 text-indigo-600">✓</span>
+      )}
+
+      {!readOnly && v.url && !v.busy && !v.gone && (
+        <div className="absolute bottom-1 inset-x-1 flex justify-between">
+          <TileButton label={v.fav ? 'Remove from favourites' : 'Favourite'} onClick={() => onFav(v.slot)}>
+            <span className={v.fav ? 'text-rose-600' : ''}>{v.fav ? '♥' : '♡'}</span>
+          </TileButton>
+          <span className="flex gap-1">
+            <TileButton label="Redraw this one" onClick={() => onRedraw(v.slot)} disabled={!canRedraw}>↻</TileButton>
+            <TileButton label="Discard" onClick={() => onDiscard(v.slot)}>✕</TileButton>
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const TileButton = ({
+  label, onClick, disabled, children,
+}: { label: string; onClick: () => void; disabled?: boolean; children: React.ReactNode }) => (
+  <button
+    title={label}
+    aria-label={label}
+    onClick={onClick}
+    disabled={disabled}
+    className="w-7 h-7 rounded-full bg-white/90 shadow text-sm leading-none
+               disabled:opacity-40 disabled:cursor-not-allowed"
+  >
+    {children}
+  </button>
+)
+
+/** pre-flight verdict under the drop zone; with several faces, a tap picks one */
+function PhotoCheckNote({
+  check, preview, onPickFace,
+}: { check: PhotoCheck; preview: string; onPickFace: (f: FaceBox) => void }) {
+  if (check.state === 'none') return null
+  if (check.state === 'checking') {
+    return <p className="text-sm text-gray-500 animate-pulse">Checking your photo…</p>
+  }
+  if (check.state === 'ok') {
+    return <p className="text-sm text-emerald-700">✓ Looks good</p>
+  }
+
+  const faces = check.issue?.code === 'many-faces' ? check.issue.faces : null
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-rose-700">⚠ {check.message}</p>
+      {faces && preview && (
+        <div className="relative">
+          <img src={preview} alt="faces found" className="w-full h-auto rounded-md" />
+          {faces.map((f, i) => (
+            <button
+              key={i}
+              onClick={() => onPickFace(f)}
+              title="Use this face"
+              aria-label={`Use face ${i + 1}`}
+              className="absolute rounded-md ring-2 ring-white shadow-[0_0_0_2px_rgba(79,70,229,.9)]
+                         hover:bg-indigo-500/25 focus:outline-none"
+              style={{
+                left  : `${f.x * 100}%`,
+                top   : `${f.y * 100}%`,
+                width : `${f.w * 100}%`,
+                height: `${f.h * 100}%`,
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 const SkeletonGrid = () => (
   <div className="flex gap-3 opacity-30">
     {Array.from({ length: 4 }).map((_, i) => (
@@ -403,7 +1035,7 @@ const ProgressBar = ({ pct }: { pct: number }) => (
   <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
     <div
       style={{ width: `${pct}%` }}
-      className="h-full bg-gradient-to-r from-cyan-500 to-indigo-600"
+      className="h-full bg-gradient-to-r from-cyan-500 to-indigo-600 transition-[width] duration-500"
     />
   </div>
 )
\ No newline at end of file
@@ -0,0 +1,108 @@
+// ToolAdjustImage.tsx
+
+"use client";
+import { useRef, useState } from "react";
+import { fabric } from "fabric";
+import { SlidersHorizontal } from "lucide-react";
+import Popover    from "./Popover";
+import IconButton from "./IconButton";
+import { applyImageAdjustments } from "@/lib/imageFilters";
+import {
+  SLIDERS, TOGGLES, PRESETS, adjustmentsOf, presetOf, hasAdjustments,
+  type ImageAdjustments,
+} from "@/lib/imageAdjustments";
+
+interface Props {
+  img: fabric.Image;
+  mutate: (p: Partial<fabric.Image>) => void;
+}
+
+/**
+ * Presets, colour sliders, b&w / sepia and blur.  Sliders preview on
+ * the canvas while dragged and are stored (one undo step) on release.
+ */
+export default function ToolAdjustImage({ img, mutate }: Props) {
+  const [open, setOpen] = useState(false);
+  const [, force]       = useState({});
+  const btnRef = useRef<HTMLButtonElement>(null);
+
+  const adj    = adjustmentsOf(img as any);
+  const preset = presetOf(adj);
+
+  /* live on the canvas … */
+  const preview = (next: ImageAdjustments) => {
+    applyImageAdjustments(img, next);
+    img.canvas?.requestRenderAll();
+    force({});
+  };
+  /* … into the store + history */
+  const commit = () => mutate({});
+  const apply  = (next: ImageAdjustments) => { preview(next); commit(); };
+
+  const chip = (active: boolean) =>
+    `rounded-full px-2.5 py-1 text-xs font-semibold
+     ${active ? "bg-[--walty-teal] text-white" : "border border-[--walty-teal] text-[--walty-teal]"}`;
+
+  return (
+    <>
+      <IconButton
+        ref={btnRef}
+        Icon={SlidersHorizontal}
+        label="Adjust colours"
+        caption="Adjust"
+        active={open || hasAdjustments(adj)}
+        onClick={() => setOpen(o => !o)}
+      />
+
+      <Popover anchor={btnRef.current} open={open} onClose={() => setOpen(false)}>
+        <div className="flex w-60 flex-col gap-3 py-1">
+          {/* presets */}
+          <div className="flex flex-wrap gap-1.5">
+            {PRESETS.map(p => (
+              <button key={p.name} type="button" className={chip(preset === p.name)}
+                      onClick={() => apply(p.adjustments)}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {/* sliders */}
+          {SLIDERS.map(s => (
+            <label key={s.key} className="flex flex-col gap-0.5 text-xs text-gray-600">
+              <span className="flex justify-between">
+                {s.label}
+                <span className="tabular-nums">{adj[s.key] ?? 0}</span>
+              </span>
+              <input
+                type="range"
+                min={s.min}
+                max={s.max}
+                step={1}
+                value={adj[s.key] ?? 0}
+                onChange={e => preview({ ...adj, [s.key]: e.target.valueAsNumber })}
+                onPointerUp={commit}
+                onKeyUp={commit}
+                className="accent-[--walty-orange]"
+              />
+            </label>
+          ))}
+
+          {/* tone – one at a time */}
+          <div className="flex gap-1.5">
+            {TOGGLES.map(t => (
+              <button key={t.key} type="button" className={chip(Boolean(adj[t.key]))}
+                      onClick={() => apply({ ...adj, grayscale: false, sepia: false, [t.key]: !adj[t.key] })}>
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          <button type="button" disabled={!hasAdjustments(adj)} onClick={() => apply({})}
+                  className="self-start text-xs text-[--walty-teal] underline disabled:opacity-40">
+            Reset
+          </button>
+        </div>
+      </Popover>
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+// ToolMask.tsx
+
+"use client";
+import { useRef, useState } from "react";
+import { fabric } from "fabric";
+import { Shapes } from "lucide-react";
+import Popover    from "./Popover";
+import IconButton from "./IconButton";
+import { applyMask } from "@/lib/clipMasks";
+import { MASK_PRESETS, maskPath, maskPreset } from "@/lib/imageMasks";
+
+interface Props {
+  img: fabric.Image;
+  mutate: (p: Partial<fabric.Image>) => void;
+  staff: boolean;
+}
+
+/**
+ * Cut the photo to a shape.  Crop pans and zooms inside it afterwards.
+ * Staff can also paste their own SVG path and turn the shape into a
+ * template photo slot.
+ */
+export default function ToolMask({ img, mutate, staff }: Props) {
+  const [open, setOpen]     = useState(false);
+  const [custom, setCustom] = useState("");
+  const [error, setError]   = useState<string | null>(null);
+  const btnRef = useRef<HTMLButtonElement>(null);
+
+  const mask      = (img as any).mask as string | undefined;
+  const photoSlot = Boolean((img as any).photoSlot);
+
+  const setMask = (next: string | undefined) => {
+    /* circles and hearts only look right square – trim the crop to its centre */
+    const w = img.width ?? 0, h = img.height ?? 0;
+    if (maskPreset(next)?.square && Math.abs(w - h) > 0.5) {
+      const side = Math.min(w, h);
+      const dx = (w - side) / 2, dy = (h - side) / 2;
+      img.set({
+        cropX : (img.cropX ?? 0) + dx,
+        cropY : (img.cropY ?? 0) + dy,
+        width : side,
+        height: side,
+        left  : (img.left ?? 0) + dx * (img.scaleX ?? 1),
+        top   : (img.top  ?? 0) + dy * (img.scaleY ?? 1),
+      });
+    }
+    (img as any).mask = next;
+    if (!next) (img as any).photoSlot = undefined;
+    applyMask(img);
+    mutate({});
+  };
+
+  const applyCustom = () => {
+    if (!maskPath(custom)) {
+      setError('Paste the path data ("M…") of a shape drawn in a 100 × 100 box.');
+      return;
+    }
+    setError(null);
+    setMask(custom.trim());
+  };
+
+  const togglePhotoSlot = () => {
+    (img as any).photoSlot = photoSlot ? undefined : true;
+    mutate({});
+  };
+
+  const chip = (active: boolean) =>
+    `rounded-full px-2.5 py-1 text-xs font-semibold
+     ${active ? "bg-[--walty-teal] text-white" : "border border-[--walty-teal] text-[--walty-teal]"}`;
+
+  return (
+    <>
+      <IconButton
+        ref={btnRef}
+        Icon={Shapes}
+        label="Photo shape"
+        caption="Shape"
+        active={open || Boolean(mask)}
+        onClick={() => setOpen(o => !o)}
+      />
+
+      <Popover anchor={btnRef.current} open={open} onClose={() => setOpen(false)}>
+        <div className="flex w-60 flex-col gap-3 py-1">
+          <div className="flex flex-wrap gap-1.5">
+            <button type="button" className={chip(!mask)} onClick={() => setMask(undefined)}>
+              None
+            </button>
+            {MASK_PRESETS.map(p => (
+              <button key={p.name} type="button" className={chip(mask === p.name)}
+                      onClick={() => setMask(p.name)}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {staff && (
+            <>
+              <label className="flex flex-col gap-1 text-xs text-gray-600">
+                Custom SVG path (100 × 100 box)
+                <textarea
+                  rows={3}
+                  value={custom || (mask && !maskPreset(mask) ? mask : "")}
+                  onChange={e => setCustom(e.target.value)}
+                  placeholder="M50 0 L100 100 L0 100 Z"
+                  className="rounded border px-2 py-1 font-mono text-[11px]"
+                />
+              </label>
+              {error && <p className="text-xs text-red-600">{error}</p>}
+              <button type="button" disabled={!custom.trim()} onClick={applyCustom}
+                      className="self-start text-xs text-[--walty-teal] underline disabled:opacity-40">
+                Use this shape
+              </button>
+
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input type="checkbox" checked={photoSlot} disabled={!mask} onChange={togglePhotoSlot} />
+                Photo slot – customers drop their own photo in
+              </label>
+            </>
+          )}
+        </div>
+      </Popover>
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+//ToolPhotoSlot.tsx
+
+"use client";
+import { useRef, useState } from "react";
+import { fabric } from "fabric";
+import { ImagePlus } from "lucide-react";
+
+import IconButton from "./IconButton";
+import { useEditor } from "../EditorStore";
+
+interface Props {
+  img: fabric.Image;
+}
+
+/* image-<hash>-<w>x<h>-<ext> – Sanity puts the pixel size in the id */
+const ASSET_SIZE = /-(\d+)x(\d+)-[a-z]+$/;
+
+/**
+ * "Replace photo" on a template photo slot: the customer's upload is
+ * centre-cropped to cover the slot, so the shape and its place on the
+ * page stay exactly as designed.  Goes through the editor store –
+ * Undo brings the template photo back.
+ */
+export default function ToolPhotoSlot({ img }: Props) {
+  const [busy, setBusy] = useState(false);
+  const fileRef     = useRef<HTMLInputElement>(null);
+  const activePage  = useEditor(s => s.activePage);
+  const updateLayer = useEditor(s => s.updateLayer);
+
+  const replace = async (file: File) => {
+    setBusy(true);
+    try {
+      const fd = new FormData();
+      fd.append("file", file);
+      const res  = await fetch("/api/upload", { method: "POST", body: fd });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      const size = ASSET_SIZE.exec(json.assetId ?? "");
+      if (!size) throw new Error("Upload sent no image size");
+      const natW = Number(size[1]), natH = Number(size[2]);
+
+      /* cover the slot's box, centred */
+      const boxW = img.getScaledWidth(), boxH = img.getScaledHeight();
+      const s    = Math.max(boxW / natW, boxH / natH);
+      updateLayer(activePage, (img as any).layerIdx, {
+        src        : { _type: "image", asset: { _type: "reference", _ref: json.assetId } },
+        srcUrl     : json.url,
+        assetId    : json.assetId,
+        bgSourceUrl: undefined,
+        cropX      : (natW - boxW / s) / 2,
+        cropY      : (natH - boxH / s) / 2,
+        cropW      : boxW / s,
+        cropH      : boxH / s,
+        scaleX     : s,
+        scaleY     : s,
+        width      : boxW,
+        height     : boxH,
+      });
+    } catch (err) {
+      console.error("Photo slot upload failed:", err);
+      alert((err as Error).message || "Upload failed – please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <IconButton
+        Icon={ImagePlus}
+        label="Replace photo"
+        caption={busy ? "Uploading…" : "Replace"}
+        onClick={() => fileRef.current?.click()}
+        disabled={busy}
+        active={busy}
+      />
+      <input
+        ref={fileRef}
+        type="file"
+        accept="image/*"
+        hidden
+        onChange={e => {
+          const f = e.target.files?.[0];
+          e.target.value = "";
+          if (f) replace(f);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+//ToolRemoveBg.tsx
+
+"use client";
+import { useState } from "react";
+import { fabric } from "fabric";
+import { Eraser, Brush } from "lucide-react";
+
+import IconButton from "./IconButton";
+import BgRefineBrush from "../BgRefineBrush";
+import { useEditor } from "../EditorStore";
+
+interface Props {
+  img: fabric.Image;
+}
+
+/**
+ * "BG Erase" – cuts the picture out via /api/remove-background, then
+ * "Refine" opens the brush to touch the edge up.  Both swap the layer's
+ * src through the editor store, so Undo brings the previous one back.
+ */
+export default function ToolRemoveBg({ img }: Props) {
+  const [busy, setBusy]         = useState(false);
+  const [refining, setRefining] = useState(false);
+  const activePage  = useEditor(s => s.activePage);
+  const updateLayer = useEditor(s => s.updateLayer);
+
+  const idx         = (img as any).layerIdx as number;
+  const src         = ((img as any).__src ?? "") as string;
+  const assetId     = (img as any).assetId as string | undefined;
+  const original    = (img as any).bgSourceUrl as string | undefined;
+  /* uploads have an asset id; template pictures a Sanity CDN URL */
+  const usable      = Boolean(assetId) || src.startsWith("https://cdn.sanity.io/");
+
+  const swapSrc = (next: { assetId: string; url: string }) =>
+    updateLayer(activePage, idx, {
+      src        : { _type: "image", asset: { _type: "reference", _ref: next.assetId } },
+      srcUrl     : next.url,
+      assetId    : next.assetId,
+      bgSourceUrl: original ?? src,   // always the very first photo
+    });
+
+  const removeBg = async () => {
+    setBusy(true);
+    try {
+      const res  = await fetch("/api/remove-background", {
+        method : "POST",
+        headers: { "Content-Type": "application/json" },
+        body   : JSON.stringify(assetId ? { assetId } : { url: src }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      swapSrc(json);
+    } catch (err) {
+      console.error("Background removal failed:", err);
+      alert((err as Error).message || "Background removal failed – please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /* the touched-up PNG goes through the normal (moderated) upload */
+  const applyRefine = async (png: Blob) => {
+    const fd = new FormData();
+    fd.append("file", new File([png], "cutout.png", { type: "image/png" }));
+    const res  = await fetch("/api/upload", { method: "POST", body: fd });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+    swapSrc(json);
+    setRefining(false);
+  };
+
+  return (
+    <>
+      <IconButton
+        Icon={Eraser}
+        label={usable ? "Remove background" : "Remove background (wait for the upload to finish)"}
+        caption={busy ? "Erasing…" : "BG Erase"}
+        onClick={removeBg}
+        disabled={busy || !usable}
+        active={busy}
+      />
+
+      {original && (
+        <IconButton
+          Icon={Brush}
+          label="Refine the cut-out"
+          caption="Refine"
+          onClick={() => setRefining(true)}
+          active={refining}
+        />
+      )}
+
+      {refining && original && (
+        <BgRefineBrush
+          cutoutUrl={src}
+          originalUrl={original}
+          onApply={applyRefine}
+          onCancel={() => setRefining(false)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,235 @@
+/**********************************************************************
+ * app/library/basket.ts   (—SERVER-ONLY—)
+ * Basket read helpers, cookie plumbing and checkout validation.
+ * The basket lives in Sanity as `basket.<token>`; the token sits in an
+ * http-only cookie so a shopper keeps one basket per browser.
+ *********************************************************************/
+
+import { cookies } from 'next/headers'
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { urlFor } from '@/sanity/lib/image'
+import { isToken } from '@/lib/tokens'
+import {
+  deliveryDateError, recipientError, type Recipient,
+} from '@/lib/delivery'
+import { checkText, heldContent, pageContent, recordFlag } from '@/lib/moderation'
+
+/* ---------- ids + cookie ----------------------------------------- */
+export const BASKET_COOKIE = 'walty_basket'
+
+export const basketDocId = (token: string) => `basket.${token}`
+
+export const basketCookie = (token: string) => ({
+  name    : BASKET_COOKIE,
+  value   : token,
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure  : process.env.NODE_ENV === 'production',
+  path    : '/',
+  maxAge  : 60 * 60 * 24 * 30,          // 30 days
+})
+
+/** token from the request cookie, if it looks like one of ours */
+export function basketTokenFromCookie(): string | undefined {
+  const t = cookies().get(BASKET_COOKIE)?.value
+  return isToken(t) ? t : undefined
+}
+
+/* ---------- types ------------------------------------------------- */
+export interface BasketItem {
+  _key         : string
+  templateId?  : string
+  productId?   : string
+  projectToken?: string
+  title        : string
+  productTitle : string
+  /** £, frozen when the item was added */
+  unitPrice    : number
+  quantity     : number
+  recipient?   : Recipient
+  deliveryDate?: string
+  coverUrl?    : string
+}
+
+export interface BasketData {
+  token   : string
+  /** a basket mid-payment (`paying`) reads as open so the shopper still
+      sees it; lockBasketForPayment turns a second attempt away and the
+      item routes only write to a basket whose status really is `open` */
+  status  : 'open' | 'paid'
+  items   : BasketItem[]
+  /** £ */
+  total   : number
+  paidAt? : string
+  paymentId?: string
+}
+
+/* ---------- money ------------------------------------------------- */
+/** integer pence – never add floats of pounds */
+export const itemsTotalPence = (items: Pick<BasketItem, 'unitPrice' | 'quantity'>[]) =>
+  items.reduce((sum, i) => sum + Math.round(i.unitPrice * 100) * i.quantity, 0)
+
+/* ---------- read -------------------------------------------------- */
+/** Basket without the heavy page snapshots; `null` if unknown */
+export async function getBasket(token: string): Promise<BasketData | null> {
+  if (!isToken(token)) return null
+
+  const raw = await sanity.fetch<any>(
+    /* groq */ `
+    *[_id == $id][0]{
+      status, paidAt, "paymentId": payment.id,
+      items[]{
+        _key,
+        "templateId"  : template._ref,
+        "productId"   : product._ref,
+        "projectToken": project,
+        title, productTitle, unitPrice, quantity, recipient, deliveryDate,
+        "cover"       : template->coverImage
+      }
+    }`,
+    { id: basketDocId(token) },
+  )
+  if (!raw) return null
+
+  const items: BasketItem[] = (raw.items ?? []).map(({ cover, ...i }: any) => ({
+    ...i,
+    quantity: i.quantity ?? 1,
+    coverUrl: cover ? urlFor(cover).width(240).url() : undefined,
+  }))
+
+  return {
+    token,
+    status   : raw.status === 'paid' ? 'paid' : 'open',
+    items,
+    total    : itemsTotalPence(items) / 100,
+    paidAt   : raw.paidAt ?? undefined,
+    paymentId: raw.paymentId ?? undefined,
+  }
+}
+
+/* ---------- checkout --------------------------------------------- */
+/** every reason the basket can't be paid for yet (empty = good to go) */
+export function checkoutErrors(basket: BasketData, now = new Date()): string[] {
+  if (basket.status !== 'open') return ['This basket has already been paid for']
+  if (!basket.items.length)     return ['Your basket is empty']
+
+  return basket.items.flatMap((item, n) => {
+    const label = `Item ${n + 1} (${item.title})`
+    return [recipientError(item.recipient), deliveryDateError(item.deliveryDate, now)]
+      .filter(Boolean)
+      .map(msg => `${label}: ${msg}`)
+  })
+}
+
+/**
+ * Items whose wording or pictures moderation refused (empty = fine).
+ * Each item's text is moderated here; flagged text goes to the review
+ * queue and, like flagged pictures, holds the order at fulfilment
+ * rather than the checkout.
+ */
+export async function moderationErrors(token: string): Promise<string[]> {
+  const items = await sanity.fetch<{ title: string; pages?: any[] }[] | null>(
+    `*[_id == $id][0].items[]{title, pages}`,
+    { id: basketDocId(token) },
+  )
+
+  const errors: string[] = []
+  for (const [n, item] of (items ?? []).entries()) {
+    const { assetIds, texts } = pageContent(item.pages)
+    const verdicts = await Promise.all(texts.map(checkText))
+    await Promise.all(verdicts.map((v, i) =>
+      recordFlag(v, { kind: 'text', text: texts[i], source: `basket:${token}` })))
+
+    const held = await heldContent({ assetIds, texts })
+    if (held.rejected) {
+      errors.push(`Item ${n + 1} (${item.title}): some of its wording or pictures can’t be printed – please change them`)
+    }
+  }
+  return errors
+}
+
+/* an abandoned 3-D Secure step frees the basket after this long */
+const PAYING_TTL_MS = 1000 * 60 * 15
+
+export const revisionConflict = (err: unknown) => (err as { statusCode?: number })?.statusCode === 409
+
+/**
+ * Claim the basket for one payment attempt (status `paying`) before any
+ * money moves.  The items are priced from the same read the lock is
+ * conditional on, so what is charged is exactly what gets ordered; the
+ * revision lock also lets only one concurrent checkout through.  The
+ * idempotency key – token + the locked revision – makes the provider
+ * drop a duplicate charge too.  `null` when it is paid or another
+ * attempt holds it.
+ */
+export async function lockBasketForPayment(
+  token: string,
+): Promise<{ idempotencyKey: string; amount: number } | null> {
+  const id  = basketDocId(token)
+  const cur = await sanity.fetch<{
+    status?     : string
+    payingSince?: string
+    _rev        : string
+    items?      : Pick<BasketItem, 'unitPrice' | 'quantity'>[]
+  } | null>(
+    `*[_id == $id][0]{status, payingSince, _rev, items[]{unitPrice, "quantity": coalesce(quantity, 1)}}`,
+    { id },
+  )
+  if (!cur || cur.status === 'paid') return null
+  if (cur.status === 'paying' && Date.now() - Date.parse(cur.payingSince ?? '') < PAYING_TTL_MS) return null
+
+  try {
+    await sanity
+      .patch(id)
+      .ifRevisionId(cur._rev)
+      .set({ status: 'paying', payingSince: new Date().toISOString() })
+      .commit()
+  } catch (err) {
+    if (revisionConflict(err)) return null
+    throw err
+  }
+  return { idempotencyKey: `${token}:${cur._rev}`, amount: itemsTotalPence(cur.items ?? []) }
+}
+
+/** a declined or failed attempt hands the basket back to the shopper */
+export async function releaseBasket(token: string) {
+  await sanity
+    .patch(basketDocId(token))
+    .set({ status: 'open' })
+    .unset(['payingSince'])
+    .commit()
+}
+
+/** Flip an open (or paying) basket to paid – a no-op if it already is */
+export async function markBasketPaid(
+  token   : string,
+  payment : { provider: string; id: string },
+  totalGbp: number,
+) {
+  const id = basketDocId(token)
+  for (let attempt = 1; ; attempt++) {
+    const cur = await sanity.fetch<{ status?: string; _rev: string } | null>(
+      `*[_id == $id][0]{status, _rev}`,
+      { id },
+    )
+    if (!cur || cur.status === 'paid') return
+
+    try {
+      await sanity
+        .patch(id)
+        .ifRevisionId(cur._rev)
+        .set({
+          status : 'paid',
+          paidAt : new Date().toISOString(),
+          total  : totalGbp,
+          payment,
+        })
+        .unset(['payingSince'])
+        .commit()
+      return
+    } catch (err) {
+      /* someone else wrote first – look again, they may have paid it */
+      if (!revisionConflict(err) || attempt >= 3) throw err
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**********************************************************************
+ * app/library/getProject.ts   (—SERVER-ONLY—)
+ * Load a customerProject by its share token and convert every layer
+ * with `fromSanity` – the same shape getTemplatePages returns.
+ *********************************************************************/
+
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { fromSanity } from '@/app/library/layerAdapters'
+import { isToken } from '@/lib/tokens'
+import type { TemplatePage } from '@/app/components/FabricCanvas'
+
+/* ---------- ids --------------------------------------------------- */
+/** dotted ids are private – never served to unauthenticated queries */
+const PREFIX = 'customerProject.'
+
+export const projectDocId = (token: string) => `${PREFIX}${token}`
+
+export interface ProjectData {
+  token       : string
+  templateId  : string
+  templateSlug?: string
+  productId?  : string
+  pages       : TemplatePage[]
+}
+
+/**
+ * Returns `null` for malformed tokens and unknown projects so callers
+ * can answer 404 without leaking which one it was.
+ */
+export async function getProject(token: string): Promise<ProjectData | null> {
+  if (!isToken(token)) return null
+
+  const query = /* groq */ `
+    *[_id == $id][0]{
+      "templateId"  : template._ref,
+      "templateSlug": template->slug.current,
+      "productId"   : product._ref,
+      pages[]{
+        name,
+        layers[]{
+          ...,
+          "source": source->{
+            _id, prompt, refImage, ratio,
+            "faceSlots": faceSlots[]{ "key": _key, name, hint },
+            "variables": variables[]{ name, label, type, "default": defaultValue, options, min, max, maxLength }
+          }
+        }
+      }
+    }
+  `
+  const raw = await sanity.fetch<{
+    templateId?  : string
+    templateSlug?: string
+    productId?   : string
+    pages?       : any[]
+  } | null>(query, { id: projectDocId(token) })
+
+  if (!raw?.templateId || !Array.isArray(raw.pages) || raw.pages.length !== 4) {
+    return null
+  }
+
+  const pages = raw.pages.map(p => ({
+    name  : p?.name,
+    layers: (p?.layers ?? []).map(fromSanity).filter(Boolean),
+  })) as TemplatePage[]
+
+  return {
+    token,
+    templateId  : raw.templateId,
+    templateSlug: raw.templateSlug,
+    productId   : raw.productId ?? undefined,
+    pages,
+  }
+}
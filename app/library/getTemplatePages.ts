@@ -4,10 +4,12 @@
  * convert every layer with `fromSanity`.
  *********************************************************************/
 
+import type { SanityClient } from '@sanity/client'
 import { sanityPreview } from '@/sanity/lib/client'
 import { urlFor } from '@/sanity/lib/image'
 import { fromSanity } from '@/app/library/layerAdapters'
 import type { TemplatePage } from '@/app/components/FabricCanvas'
+import { PRODUCT_PROJECTION, type CardProduct } from '@/sanity/lib/getProduct'
 
 /* ---------- 4-page fallback so the editor always mounts --------- */
 const EMPTY: TemplatePage[] = [
@@ -18,17 +20,22 @@ const EMPTY: TemplatePage[] = [
 ]
 
 export interface TemplateData {
+  /** published id (no `drafts.` prefix); undefined when nothing matched */
+  templateId?: string
   pages: TemplatePage[]
   coverImage?: string
+  products: CardProduct[]
 }
 
 /**
  * Accepts a route param (`slug` -or- full `_id` -or- `drafts.<id>`).
  * Returns **exactly 4 pages** with all layers converted to editor
  * format.  Never throws – fallbacks to an empty structure instead.
+ * Reads drafts by default; public callers pass the published client.
  */
 export async function getTemplatePages(
   idOrSlug: string,
+  client  : SanityClient = sanityPreview,
 ): Promise<TemplateData> {
   /* 1 ─ pick the first match by _id or slug */
   const query = /* groq */ `
@@ -40,7 +47,9 @@ export async function getTemplatePages(
       slug.current == $key
     )
   ][0]{
+    _id,
     coverImage,
+    "products": products[]->{ ${PRODUCT_PROJECTION} },
     pages[]{
       layers[]{
         ...,                       // keep every native field
@@ -48,7 +57,10 @@ export async function getTemplatePages(
         "source": source->{
           _id,
           prompt,
-          refImage                // we only need these three
+          refImage,
+          ratio,
+          "faceSlots": faceSlots[]{ "key": _key, name, hint },
+          "variables": variables[]{ name, label, type, "default": defaultValue, options, min, max, maxLength }
         }
       }
     }
@@ -60,7 +72,12 @@ export async function getTemplatePages(
     draftKey:  idOrSlug.startsWith('drafts.') ? idOrSlug : `drafts.${idOrSlug}`,
   }
 
-  const raw = await sanityPreview.fetch<{pages?: any[]; coverImage?: any}>(query, params)
+  const raw = await client.fetch<{
+    _id?: string
+    pages?: any[]
+    coverImage?: any
+    products?: (CardProduct | null)[]
+  }>(query, params)
 
   const pages = Array.isArray(raw?.pages) && raw.pages.length === 4
     ? raw.pages
@@ -84,5 +101,10 @@ console.log(
 
   const coverImage = raw?.coverImage ? urlFor(raw.coverImage).url() : undefined
 
-  return { pages: pagesOut, coverImage }
+  /* dangling references come back as null */
+  const products = (raw?.products ?? []).filter(Boolean) as CardProduct[]
+
+  const templateId = raw?._id?.replace(/^drafts\./, '')
+
+  return { templateId, pages: pagesOut, coverImage, products }
 }
\ No newline at end of file
@@ -3,10 +3,13 @@
  * --------------------------------------------------------------------
  * 2025-05-30  • supports aiLayer (face-swap placeholder)
  *            • round-trips opacity / scale / w / h
+ *            • …and image adjustments (lib/imageAdjustments)
+ *            • …and masks / photo slots (lib/imageMasks)
  *********************************************************************/
 
 import { urlFor }     from '@/sanity/lib/image'
 import type { Layer } from '@/app/components/FabricCanvas'
+import { adjustmentsOf } from '@/lib/imageAdjustments'
 
 /* ───────── helpers ──────────────────────────────────────────────── */
 function isSanityRef(src:any): src is { _type:'image'; asset:{ _ref:string } } {
@@ -68,6 +71,9 @@ if (raw._type === 'aiLayer') {
       ...(raw.cropW != null && { cropW: raw.cropW }),
       ...(raw.cropH != null && { cropH: raw.cropH }),
       opacity: raw.opacity,
+      ...adjustmentsOf(raw),
+      ...(raw.mask      && { mask: raw.mask }),
+      ...(raw.photoSlot && { photoSlot: true }),
       selectable: raw._type !== 'bgImage',
       editable  : raw._type !== 'bgImage',
     }
@@ -90,6 +96,8 @@ if (raw._type === 'aiLayer') {
       textAlign : raw.textAlign,
       lineHeight: raw.lineHeight,
       opacity   : raw.opacity,
+      scaleX    : raw.scaleX,
+      scaleY    : raw.scaleY,
     }
   }
 
@@ -97,6 +105,13 @@ if (raw._type === 'aiLayer') {
   return null
 }
 
+/** A page's layers in editor shape – accepts editor *or* raw Sanity layers */
+export function pageLayers(page: { layers?: any[] }): Layer[] {
+  return (page.layers ?? [])
+    .map(raw => (raw?.type ? raw as Layer : fromSanity(raw)))
+    .filter(Boolean) as Layer[]
+}
+
 /* ================================================================== */
 /* 2 ▸ Fabric → Sanity (toSanity)                                     */
 /* ================================================================== */
@@ -135,7 +150,7 @@ if (layer?._type === 'aiLayer') {
 
   /* —— native Sanity objects (editableImage / editableText) —— */
   if (layer?._type) {
-    const { _isAI, selectable, editable, src, assetId, type, ...rest } = layer
+    const { _isAI, selectable, editable, src, assetId, type, bgSourceUrl, ...rest } = layer
     return rest
   }
 
@@ -156,6 +171,9 @@ if (layer.type === 'image') {
     ...(layer.opacity != null && { opacity: layer.opacity }),
     ...(layer.scaleX  != null && { scaleX: layer.scaleX }),
     ...(layer.scaleY  != null && { scaleY: layer.scaleY }),
+    ...adjustmentsOf(layer),
+    ...(layer.mask      && { mask: layer.mask }),
+    ...(layer.photoSlot && { photoSlot: true }),
   };
 
 /* 1️⃣ Already have assetId → easiest */
@@ -201,4 +219,19 @@ else if (typeof layer.src === 'string') {
 
   /* fallback (shouldn’t happen) */
   return {}
-}
\ No newline at end of file
+}
+
+/* ================================================================== */
+/* 3 ▸ whole pages → Sanity (templates *and* customer projects)       */
+/* ================================================================== */
+const FALLBACK_NAMES = ['front', 'inner-L', 'inner-R', 'back'] as const
+
+/** Keeps each page’s `name` and runs every layer through toSanity */
+export function pagesToSanity(pagesRaw: any[]): { name: string; layers: any[] }[] {
+  return pagesRaw.map((p, i) => ({
+    name:   typeof p?.name === 'string' && p.name.trim()
+              ? p.name.trim()
+              : FALLBACK_NAMES[i] ?? `page-${i}`,
+    layers: Array.isArray(p?.layers) ? p.layers.map(toSanity) : [],
+  }))
+}
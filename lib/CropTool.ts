@@ -4,9 +4,12 @@
  * 2025‑06‑08
  *   • Always shows crop‑window stroke above bitmap
  *   • Bitmap & frame controls are simultaneously draggable
+ *   • Masked photos: the frame outlines the shape, the clip is rebuilt
+ *     for the new crop (lib/clipMasks)
  *********************************************************************/
 
 import { fabric } from 'fabric'
+import { applyMask, maskShape } from './clipMasks'
 
 export class CropTool {
   public  isActive = false
@@ -93,6 +96,7 @@ export class CropTool {
       selectable     : true,
       evented        : true,
     }).setCoords()
+    img.clipPath = undefined           // the whole photo while cropping
     this.cleanup.push(() => {
       img.lockUniScaling  = prevLockUniScaling
       img.centeredScaling = prevCenteredScaling
@@ -116,6 +120,13 @@ export class CropTool {
     const grid = { stroke:'#ffffff22', strokeWidth:1/this.SCALE,
                    selectable:false, evented:false }
 
+    /* masked photo → its shape inside the window, scaled along with it */
+    const outline = maskShape((img as any).mask, fw, fh, { x: 0, y: 0 }, {
+      fill:'', evented:false,
+      stroke:this.SEL, strokeWidth:1/this.SCALE, strokeDashArray:[4/this.SCALE, 3/this.SCALE],
+      strokeUniform:true,
+    })
+
     this.frame = new fabric.Group([
       new fabric.Rect({ left:0, top:0, width:fw, height:fh,
         fill:'',
@@ -123,6 +134,7 @@ export class CropTool {
         evented:false,
         stroke:this.SEL, strokeWidth:1/this.SCALE,
         strokeUniform:true }),
+      ...(outline ? [outline] : []),
     ],{
       left:fx, top:fy, originX:'left', originY:'top',
       selectable:true, evented:true,  lockRotation:true,   // controls work; interior clicks fall through
@@ -680,6 +692,7 @@ export class CropTool {
         width : this.orig.width,
         height: this.orig.height,
       }).setCoords();
+      applyMask(this.img);
       this.fc.setActiveObject(this.img);
       this.img.fire('modified');
       this.fc.fire('object:modified', { target: this.img } as any);
@@ -705,6 +718,7 @@ export class CropTool {
         width : cropW,
         height: cropH,
       }).setCoords();
+      applyMask(img);
 
       this.fc.setActiveObject(img);
       img.fire('modified');
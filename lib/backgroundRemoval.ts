@@ -0,0 +1,210 @@
+/**********************************************************************
+ * lib/backgroundRemoval.ts   (—SERVER-ONLY—)
+ * Cut the subject out of a photo → transparent PNG
+ * --------------------------------------------------------------------
+ *   removeBackground(bytes, session) → { png, provider }
+ *
+ * The cut-out always has the upright photo's pixel size, so a layer's
+ * crop rectangle and scale stay valid when its src is swapped.
+ *
+ * The model backend is picked by BG_REMOVAL_PROVIDER:
+ *   removebg   remove.bg (REMOVE_BG_API_KEY) – billed to the AI
+ *              spend ledger like image generation
+ *   http       POSTs { image: base64 } to BG_REMOVAL_URL (optional
+ *              BG_REMOVAL_TOKEN), expects { image: base64 PNG } – a
+ *              self-hosted rembg / U²-Net, say
+ *   local      no model: the backdrop is flood-filled in from the
+ *              edges and lib/cleanAlpha tidies the edge.  Only for
+ *              plain backdrops – anything busier is refused
+ * Default: removebg with a key, else http with a URL, else local.
+ *
+ * The local cut-out is also the fallback when the model backend fails
+ * or the visitor's daily AI budget is spent.
+ *********************************************************************/
+import sharp from 'sharp'
+
+import { cleanAlpha } from '@/lib/cleanAlpha'
+import { checkBudget, incCost } from '@/lib/budget'
+
+/** carries the HTTP status the route should answer with */
+export class BackgroundRemovalError extends Error {
+  constructor (message: string, readonly status = 422) { super(message) }
+}
+
+export interface Cutout {
+  png     : Buffer
+  /** which backend made it – `local` after a fallback */
+  provider: string
+}
+
+const MODEL_PX = 2048               // long side the model backends get
+const LOCAL_PX = 768                // the local mask is found at this size
+const TOLERANCE = 42                // RGB distance still counted as backdrop
+const MIN_PLAIN = 0.6               // share of the border that must be backdrop
+
+/* ---------- model backends ---------------------------------------- */
+interface BackgroundRemover {
+  readonly name: string
+  /** `jpeg` is upright, at most MODEL_PX on its long side */
+  cutout (jpeg: Buffer): Promise<Buffer>
+}
+
+const removebg: BackgroundRemover = {
+  name: 'removebg',
+  async cutout (jpeg) {
+    const key = process.env.REMOVE_BG_API_KEY
+    if (!key) throw new Error('REMOVE_BG_API_KEY is not set')
+
+    const form = new FormData()
+    form.append('image_file', new Blob([new Uint8Array(jpeg)], { type: 'image/jpeg' }), 'photo.jpg')
+    form.append('size', 'auto')
+    form.append('format', 'png')
+
+    const res = await fetch('https://api.remove.bg/v1.0/removebg', {
+      method : 'POST',
+      headers: { 'x-api-key': key },
+      body   : form,
+      signal : AbortSignal.timeout(1000 * 60),
+    })
+    if (!res.ok) throw new Error(`remove.bg ${res.status}: ${await res.text()}`)
+    return Buffer.from(await res.arrayBuffer())
+  },
+}
+
+const http: BackgroundRemover = {
+  name: 'http',
+  async cutout (jpeg) {
+    const url = process.env.BG_REMOVAL_URL
+    if (!url) throw new Error('BG_REMOVAL_URL is not set')
+
+    const res = await fetch(url, {
+      method : 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(process.env.BG_REMOVAL_TOKEN && {
+          authorization: `Bearer ${process.env.BG_REMOVAL_TOKEN}`,
+        }),
+      },
+      body  : JSON.stringify({ image: jpeg.toString('base64') }),
+      signal: AbortSignal.timeout(1000 * 60),
+    })
+    if (!res.ok) throw new Error(`background remover ${res.status}: ${await res.text()}`)
+    const { image } = await res.json()
+    if (typeof image !== 'string') throw new Error('background remover sent no image')
+    return Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64')
+  },
+}
+
+const REMOVERS: Record<string, BackgroundRemover | null> = {
+  removebg,
+  http,
+  local: null,
+}
+
+function getRemover (): BackgroundRemover | null {
+  const name = process.env.BG_REMOVAL_PROVIDER
+    ?? (process.env.REMOVE_BG_API_KEY ? 'removebg' : process.env.BG_REMOVAL_URL ? 'http' : 'local')
+  if (!(name in REMOVERS)) throw new Error(`Unknown BG_REMOVAL_PROVIDER "${name}"`)
+  return REMOVERS[name]
+}
+
+/* ---------- local cut-out ----------------------------------------- */
+const median = (xs: number[]) => xs.sort((a, b) => a - b)[xs.length >> 1]
+
+/** 255 = subject, 0 = backdrop – found on a LOCAL_PX thumbnail */
+async function backdropMask (upright: Buffer) {
+  const { data, info: { width: w, height: h } } = await sharp(upright)
+    .resize(LOCAL_PX, LOCAL_PX, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const border: number[] = []
+  for (let x = 0; x < w; x++) border.push(x, (h - 1) * w + x)
+  for (let y = 1; y < h - 1; y++) border.push(y * w, y * w + w - 1)
+
+  /* the backdrop colour is the border's median, channel by channel */
+  const bg = [0, 1, 2].map(c => median(border.map(p => data[p * 3 + c])))
+  const near = (p: number) =>
+    Math.hypot(data[p * 3] - bg[0], data[p * 3 + 1] - bg[1], data[p * 3 + 2] - bg[2]) <= TOLERANCE
+
+  const seeds = border.filter(near)
+  if (seeds.length < border.length * MIN_PLAIN) {
+    throw new BackgroundRemovalError('That photo’s background is too busy to remove — try one against a plain wall.')
+  }
+
+  /* flood fill from the border – backdrop only counts when it touches the edge */
+  const mask  = new Uint8Array(w * h).fill(255)
+  const stack = new Int32Array(w * h)
+  let top = 0
+  for (const p of seeds) { mask[p] = 0; stack[top++] = p }
+  while (top) {
+    const p = stack[--top]
+    const x = p % w
+    for (const q of [x > 0 ? p - 1 : -1, x < w - 1 ? p + 1 : -1, p - w, p + w]) {
+      if (q >= 0 && q < w * h && mask[q] && near(q)) { mask[q] = 0; stack[top++] = q }
+    }
+  }
+
+  const kept = mask.reduce((n, v) => n + (v ? 1 : 0), 0) / (w * h)
+  if (kept < 0.02 || kept > 0.98) {
+    throw new BackgroundRemovalError('We couldn’t tell the subject from the background in that photo.')
+  }
+  return { mask, w, h }
+}
+
+async function localCutout (upright: Buffer, width: number, height: number) {
+  const { mask, w, h } = await backdropMask(upright)
+
+  /* a soft, full-size mask; cleanAlpha's threshold makes it a clean edge */
+  const alpha = await sharp(Buffer.from(mask), { raw: { width: w, height: h, channels: 1 } })
+    .resize(width, height, { fit: 'fill' })
+    .blur(1.5)
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer()
+
+  /* two passes – in one pipeline sharp drops the alpha after joining it */
+  const rgb  = await sharp(upright).removeAlpha().raw().toBuffer()
+  const rgba = await sharp(rgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer()
+  return cleanAlpha(rgba)
+}
+
+/* ---------- entry point ------------------------------------------- */
+/** the photo's subject on a transparent background */
+export async function removeBackground (bytes: Buffer, session: string): Promise<Cutout> {
+  let upright: { data: Buffer; info: sharp.OutputInfo }
+  try {
+    upright = await sharp(bytes).rotate().png().toBuffer({ resolveWithObject: true })
+  } catch {
+    throw new BackgroundRemovalError('We couldn’t open that picture.')
+  }
+  const { data: png, info: { width, height } } = upright
+
+  const remover = getRemover()
+  const paid    = remover?.name === 'removebg'
+  if (remover && (!paid || (await checkBudget(session)).ok)) {
+    try {
+      const jpeg = await sharp(png)
+        .resize(MODEL_PX, MODEL_PX, { fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 90 })
+        .toBuffer()
+      const out = await remover.cutout(jpeg)
+      if (paid) {
+        await incCost('removebg', 1, { session, stage: 'cutout' })
+          .catch(err => console.error('[budget] ledger write failed', err))
+      }
+      return {
+        png     : await sharp(out).resize(width, height, { fit: 'fill' }).ensureAlpha().png().toBuffer(),
+        provider: remover.name,
+      }
+    } catch (err) {
+      console.error(`[bg-removal] ${remover.name} failed – trying the local cut-out`, err)
+    }
+  }
+  return { png: await localCutout(png, width, height), provider: 'local' }
+}
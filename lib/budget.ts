@@ -1,13 +1,124 @@
-// naïve daily budget tracker (resets on each server restart)
-let spentCents = 0;
-const DAILY_LIMIT_CENTS = Number(process.env.DAILY_BUDGET_CENTS ?? 1000); // £10 default
+/**********************************************************************
+ * lib/budget.ts   (—SERVER-ONLY—)
+ * AI spend ledger + rolling daily caps
+ * --------------------------------------------------------------------
+ * Every paid AI call is written to Sanity as an `aiSpend` entry, so
+ * spend survives restarts and is shared by every server instance.
+ *
+ *   checkBudget(session)     before the call – is this visitor, and
+ *                            the site as a whole, under the 24 h cap?
+ *   remainingCents(session)  how much more this visitor may spend –
+ *                            for sizing a request to fit the caps
+ *   incCost(provider, n,     after the call – one ledger entry
+ *           { session, placeholderId, stage })
+ *
+ * Caps (cents, rolling 24 h):
+ *   DAILY_BUDGET_CENTS        whole site   (default 1000 = £10)
+ *   USER_DAILY_BUDGET_CENTS   one session  (default 100)
+ *
+ * Two calls racing past the check can overshoot a cap by one call –
+ * fine for a cost guard-rail, it isn't billing.
+ *********************************************************************/
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { newToken } from '@/lib/tokens'
+import type { ImageProviderName } from '@/lib/imageProviders'
 
-export function incCost(_provider: 'openai' | 'swap', units = 1) {
-  // tweak multipliers when you know actual pricing
-  const perUnitCents = _provider === 'openai' ? 5 : 2;
-  spentCents += units * perUnitCents;
+/** image generation, plus the paid background-removal backend and
+    the selfie pre-flight's face detector */
+export type SpendProvider = ImageProviderName | 'removebg' | 'facedetect'
+
+/** what one unit (provider call) costs us – tweak when pricing changes */
+export const UNIT_CENTS: Record<SpendProvider, number> = {
+  openai    : 5,
+  faceswap  : 2,
+  fake      : 0,
+  removebg  : 20,
+  /* a low-detail gpt-4o-mini look is a fraction of a cent – rounded up */
+  facedetect: 1,
+}
+
+const DAY_MS           = 24 * 60 * 60 * 1000
+const GLOBAL_CAP_CENTS = Number(process.env.DAILY_BUDGET_CENTS ?? 1000)
+const USER_CAP_CENTS   = Number(process.env.USER_DAILY_BUDGET_CENTS ?? 100)
+
+export interface SpendContext {
+  /** lib/session id of the visitor who triggered the call */
+  session       : string
+  placeholderId?: string
+  /** which lib/variants step made the call – `cutout` is
+      lib/backgroundRemoval, `preflight` lib/preflight's face detector */
+  stage?        : 'generate' | 'swap' | 'cutout' | 'preflight'
+}
+
+export type BudgetCheck =
+  | { ok: true }
+  | { ok: false; scope: 'user' | 'global'; spentCents: number; capCents: number }
+
+const sum = (xs: (number | null)[]) => xs.reduce<number>((a, b) => a + (b ?? 0), 0)
+
+/* ---------- check ------------------------------------------------- */
+async function spentToday(session: string) {
+  const since = new Date(Date.now() - DAY_MS).toISOString()
+  const spent = await sanity.fetch<{ global: (number | null)[]; user: (number | null)[] }>(
+    /* groq */ `{
+      "global": *[_type == "aiSpend" && at > $since].cents,
+      "user"  : *[_type == "aiSpend" && at > $since && session == $session].cents
+    }`,
+    { since, session },
+  )
+  return { global: sum(spent.global), user: sum(spent.user) }
 }
 
-export function checkBudget() {
-  return spentCents < DAILY_LIMIT_CENTS;
-}
\ No newline at end of file
+export async function checkBudget(session: string): Promise<BudgetCheck> {
+  const { global, user } = await spentToday(session)
+  if (global >= GLOBAL_CAP_CENTS) {
+    return { ok: false, scope: 'global', spentCents: global, capCents: GLOBAL_CAP_CENTS }
+  }
+  if (user >= USER_CAP_CENTS) {
+    return { ok: false, scope: 'user', spentCents: user, capCents: USER_CAP_CENTS }
+  }
+  return { ok: true }
+}
+
+/** cents this visitor may still spend – the tighter of the two caps */
+export async function remainingCents(session: string): Promise<number> {
+  const { global, user } = await spentToday(session)
+  return Math.max(0, Math.min(GLOBAL_CAP_CENTS - global, USER_CAP_CENTS - user))
+}
+
+/* ---------- record ------------------------------------------------ */
+export async function incCost(
+  provider: SpendProvider,
+  units = 1,
+  { session, placeholderId, stage }: SpendContext,
+) {
+  const unitCents = UNIT_CENTS[provider]
+
+  /* the template is looked up now so the report doesn't depend on
+     placeholders staying attached to the same template later */
+  const template = placeholderId
+    ? await sanity.fetch<{ _id: string; title?: string } | null>(
+        `*[_type == "cardTemplate" && references($id)][0]{_id, title}`,
+        { id: placeholderId },
+      )
+    : null
+
+  await sanity.create({
+    _id      : `aiSpend.${newToken()}`,
+    _type    : 'aiSpend',
+    at       : new Date().toISOString(),
+    provider,
+    ...(stage && { stage }),
+    units,
+    unitCents,
+    cents    : units * unitCents,
+    session,
+    ...(placeholderId && {
+      placeholder: { _type: 'reference', _ref: placeholderId, _weak: true },
+    }),
+    ...(template && {
+      template     : { _type: 'reference', _ref: template._id.replace(/^drafts\./, ''), _weak: true },
+      templateTitle: template.title,
+    }),
+  })
+}
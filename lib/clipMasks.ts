@@ -0,0 +1,42 @@
+/**********************************************************************
+ * clipMasks.ts – image masks as Fabric clipPaths
+ * --------------------------------------------------------------------
+ * The lib/imageMasks path, scaled from its 100 × 100 box to the
+ * image's cropped size.  A clipPath lives in the image's own
+ * coordinates (centre at 0,0, before scale and flip), so it follows
+ * moves, scaling and flips; a new crop needs `applyMask` again.
+ *********************************************************************/
+
+import { fabric } from 'fabric'
+import { maskPath } from './imageMasks'
+
+/** the mask's path laid over a `w × h` box – `origin` is its top-left */
+export function maskShape (
+  mask  : string | null | undefined,
+  w     : number,
+  h     : number,
+  origin: { x: number; y: number },
+  opts  : fabric.IPathOptions = {},
+): fabric.Path | null {
+  const d = maskPath(mask)
+  if (!d) return null
+
+  /* with no stroke Fabric puts left/top on the path's own bounding box */
+  const p  = new fabric.Path(d, { strokeWidth: 0, originX: 'left', originY: 'top' })
+  const sx = w / 100, sy = h / 100
+  p.set({
+    ...opts,
+    scaleX: sx,
+    scaleY: sy,
+    left  : origin.x + (p.left ?? 0) * sx,
+    top   : origin.y + (p.top  ?? 0) * sy,
+  })
+  return p
+}
+
+/** (re)build the image's clipPath from its `mask` field and crop */
+export function applyMask (img: fabric.Image) {
+  const w = img.width ?? 0, h = img.height ?? 0
+  img.clipPath = maskShape((img as any).mask, w, h, { x: -w / 2, y: -h / 2 }) ?? undefined
+  img.dirty = true
+}
@@ -0,0 +1,60 @@
+/**********************************************************************
+ * lib/delivery.ts – delivery-date + address rules
+ * Pure helpers shared by the basket UI and the checkout route, so the
+ * date picker and the server always agree.
+ *********************************************************************/
+
+/** days between ordering and the earliest delivery we promise */
+export const MIN_LEAD_DAYS = 2
+/** how far ahead a card can be scheduled */
+export const MAX_LEAD_DAYS = 365
+
+export interface Recipient {
+  name    : string
+  line1   : string
+  line2?  : string
+  city    : string
+  postcode: string
+  country : string          // ISO 3166-1 alpha-2
+}
+
+/** yyyy-mm-dd in UTC */
+const isoDay = (d: Date) => d.toISOString().slice(0, 10)
+
+const addDays = (from: Date, n: number) => {
+  const d = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()))
+  d.setUTCDate(d.getUTCDate() + n)
+  return d
+}
+
+export const earliestDeliveryDate = (now = new Date()) => isoDay(addDays(now, MIN_LEAD_DAYS))
+export const latestDeliveryDate   = (now = new Date()) => isoDay(addDays(now, MAX_LEAD_DAYS))
+
+/** `null` when fine, otherwise a message for the shopper */
+export function deliveryDateError (date: unknown, now = new Date()): string | null {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return 'Choose a delivery date'
+  }
+  if (date < earliestDeliveryDate(now)) return `Earliest delivery is ${earliestDeliveryDate(now)}`
+  if (date > latestDeliveryDate(now))   return 'Delivery date is too far ahead'
+  return null
+}
+
+/** `null` when complete, otherwise the first missing field */
+export function recipientError (r: Partial<Recipient> | null | undefined): string | null {
+  if (!r) return 'Add a recipient address'
+  for (const f of ['name', 'line1', 'city', 'postcode', 'country'] as const) {
+    if (typeof r[f] !== 'string' || !r[f]!.trim()) return `Recipient ${f} is required`
+  }
+  return null
+}
+
+/** trims strings and drops unknown keys */
+export const cleanRecipient = (r: Partial<Recipient>): Recipient => ({
+  name    : String(r.name     ?? '').trim(),
+  line1   : String(r.line1    ?? '').trim(),
+  ...(r.line2?.trim() && { line2: r.line2.trim() }),
+  city    : String(r.city     ?? '').trim(),
+  postcode: String(r.postcode ?? '').trim().toUpperCase(),
+  country : String(r.country  ?? 'GB').trim().toUpperCase(),
+})
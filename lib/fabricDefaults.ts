@@ -1,8 +1,10 @@
 /*  fabricDefaults.ts  */
 import { fabric } from 'fabric';
+import { PREVIEW_W, PAGE_W } from './pageGeometry';
 
 /* ————— constants ————— */
-export const SCALE        = 420 / 1772;        // or the real SCALE you compute
+// handle sizes are tuned for the default SKU; other sizes differ by a few %
+export const SCALE        = PREVIEW_W / PAGE_W;
 export const SEL_COLOR    = '#2EC4B6';         // brand teal – shared everywhere
 export const HANDLE_SHADOW = 'rgba(0,0,0,0.15)';
 export const HANDLE_BLUR   = 1 / SCALE;
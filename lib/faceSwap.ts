@@ -1,12 +0,0 @@
-// TODO: call your real face-swap micro-service
-export async function swapFace({
-    src,
-    face,
-  }: {
-    src: string;
-    face: string; // base64-encoded user selfie
-  }): Promise<string> {
-    // For dev just echo the original URL
-    console.log('FAKE swapFace ►', { src, faceLen: face.length });
-    return src;
-  }
\ No newline at end of file
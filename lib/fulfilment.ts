@@ -0,0 +1,283 @@
+/**********************************************************************
+ * lib/fulfilment.ts   (—SERVER-ONLY—)
+ * Paid basket → order → print files → print lab
+ * --------------------------------------------------------------------
+ *   placeOrder(basketToken)   create the order (idempotent) + kick off
+ *   fulfilOrder(orderId)      render every item's print PDF, upload it
+ *                             as a Sanity file asset, hand the job to
+ *                             the PrintProvider – unless some of its
+ *                             content is awaiting moderation review.
+ *                             A `sent-to-print` order only goes again
+ *                             with { reprint: true } (staff-confirmed)
+ *   resumeHeldOrders()        render the `held` orders whose content
+ *                             staff have since approved
+ *   setOrderStatus(…)         the only way status changes – checks the
+ *                             lifecycle in sanity/lib/orderStatus and
+ *                             appends to the order's history
+ *********************************************************************/
+import { randomInt, randomUUID } from 'crypto'
+
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { canMoveTo, type OrderStatus } from '@/sanity/lib/orderStatus'
+import { basketDocId } from '@/app/library/basket'
+import { renderPrintPdf } from '@/lib/printPdf'
+import { pageGeometry } from '@/lib/pageGeometry'
+import { getPrintProvider, type PrintJobItem } from '@/lib/printProviders'
+import { heldContent, pageContent } from '@/lib/moderation'
+
+/* ---------- ids --------------------------------------------------- */
+/** one order per basket – a retried checkout finds the same doc */
+export const orderDocId = (basketToken: string) => `order.${basketToken}`
+
+export const isOrderId = (id: string) => /^order\.[A-Za-z0-9_-]{16,64}$/.test(id)
+
+const ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'   // no 0/O, 1/I
+
+/** W261019-K3F9 – short enough to read out on the phone */
+const makeOrderNumber = (now = new Date()) => {
+  const day  = now.toISOString().slice(2, 10).replace(/-/g, '')
+  const tail = Array.from({ length: 4 }, () => ALPHABET[randomInt(ALPHABET.length)]).join('')
+  return `W${day}-${tail}`
+}
+
+const event = (status: OrderStatus, note?: string) => ({
+  _key  : randomUUID(),
+  _type : 'orderEvent',
+  at    : new Date().toISOString(),
+  status,
+  ...(note && { note }),
+})
+
+/* ---------- status ------------------------------------------------ */
+export class OrderStatusError extends Error {}
+
+/**
+ * Move an order along its lifecycle.  Uses the document revision as a
+ * lock so two workers can't both claim the same transition.
+ */
+export async function setOrderStatus(
+  id   : string,
+  to   : OrderStatus,
+  note?: string,
+  extra: Record<string, unknown> = {},
+) {
+  const cur = await sanity.fetch<{ status: OrderStatus; _rev: string } | null>(
+    `*[_id == $id][0]{status, _rev}`,
+    { id },
+  )
+  if (!cur) throw new OrderStatusError(`Unknown order ${id}`)
+  if (!canMoveTo(cur.status, to)) {
+    throw new OrderStatusError(`Order ${id} can’t go from ${cur.status} to ${to}`)
+  }
+
+  await sanity
+    .patch(id)
+    .ifRevisionId(cur._rev)
+    .set({ status: to, ...extra })
+    .setIfMissing({ history: [] })
+    .append('history', [event(to, note)])
+    .commit()
+}
+
+/* ---------- create ------------------------------------------------ */
+/** Copy a paid basket into an order; returns the existing one on retry */
+export async function createOrderFromBasket(basketToken: string) {
+  const id = orderDocId(basketToken)
+
+  const existing = await sanity.fetch<string | null>(`*[_id == $id][0].orderNumber`, { id })
+  if (existing) return { id, orderNumber: existing, created: false }
+
+  const basket = await sanity.fetch<any>(
+    `*[_id == $id][0]{status, total, paidAt, payment, items}`,
+    { id: basketDocId(basketToken) },
+  )
+  if (basket?.status !== 'paid') {
+    throw new Error(`Basket ${basketToken} is not paid`)
+  }
+
+  const orderNumber = makeOrderNumber()
+  await sanity.createIfNotExists({
+    _id     : id,
+    _type   : 'order',
+    orderNumber,
+    status  : 'paid',
+    placedAt: basket.paidAt ?? new Date().toISOString(),
+    total   : basket.total,
+    payment : basket.payment,
+    basket  : basketToken,
+    history : [event('paid', basket.payment ? `${basket.payment.provider} ${basket.payment.id}` : undefined)],
+    items   : (basket.items ?? []).map((i: any) => ({
+      _key        : i._key,
+      _type       : 'orderItem',
+      template    : i.template,
+      product     : i.product,
+      title       : i.title,
+      productTitle: i.productTitle,
+      unitPrice   : i.unitPrice,
+      quantity    : i.quantity ?? 1,
+      recipient   : i.recipient,
+      deliveryDate: i.deliveryDate,
+      renderStatus: 'pending',
+      pages       : i.pages,                 // frozen layers, already Sanity-shaped
+      json        : i.json,
+    })),
+  })
+
+  /* a concurrent call may have won the race – report whatever stuck */
+  const stuck = await sanity.fetch<string>(`*[_id == $id][0].orderNumber`, { id })
+  return { id, orderNumber: stuck, created: stuck === orderNumber }
+}
+
+/* ---------- render + print --------------------------------------- */
+export interface FulfilOptions {
+  /** print a `sent-to-print` order again – a new job at the lab */
+  reprint?: boolean
+  /** who asked, for the order history */
+  by?     : string
+}
+
+/**
+ * Render every item and send the job to the print lab.  Safe to call
+ * again for `failed` orders (staff re-trigger); a `sent-to-print` one
+ * needs `reprint`, which starts a new print run – retries within a run
+ * share its idempotency key.
+ */
+export async function fulfilOrder(id: string, opts: FulfilOptions = {}): Promise<OrderStatus> {
+  const cur = await sanity.fetch<{ status: OrderStatus; printRun?: number } | null>(
+    `*[_id == $id][0]{status, printRun}`,
+    { id },
+  )
+  if (cur?.status === 'sent-to-print' && !opts.reprint) {
+    throw new OrderStatusError(`Order ${id} is already at the print lab – confirm a reprint`)
+  }
+  const printRun = (cur?.printRun ?? 0) + (opts.reprint ? 1 : 0)
+  const note     = [opts.reprint && 'reprint', opts.by && `by ${opts.by}`].filter(Boolean).join(' ')
+  await setOrderStatus(id, 'rendering', note || undefined, { printRun })
+
+  const order = await sanity.fetch<any>(
+    /* groq */ `
+    *[_id == $id][0]{
+      orderNumber,
+      items[]{
+        _key, quantity, productTitle, recipient, deliveryDate,
+        "spec": product->{trimWidthMm, trimHeightMm, pageCount},
+        pages[]{
+          name,
+          layers[]{ ..., "source": source->{ _id, prompt, refImage } }
+        }
+      }
+    }`,
+    { id },
+  )
+
+  /* flagged uploads / wording wait for staff – approving them in the
+     Moderation queue resumes the order */
+  const held = await heldContent(pageContent((order.items ?? []).flatMap((i: any) => i.pages ?? [])))
+  if (held.pending || held.rejected) {
+    await setOrderStatus(id, 'held',
+      `held for moderation – ${held.pending} awaiting review, ${held.rejected} rejected`)
+    return 'held'
+  }
+
+  /* one item at a time – full-resolution PDFs are memory-hungry */
+  const jobItems: PrintJobItem[] = []
+  let failures = 0
+  for (const item of order.items ?? []) {
+    const at = `items[_key=="${item._key}"]`
+    await sanity.patch(id).set({ [`${at}.renderStatus`]: 'rendering' }).commit()
+    try {
+      const pdf = await renderPrintPdf(item.pages ?? [], {
+        geometry: pageGeometry(item.spec),
+        title   : `${order.orderNumber} – ${item.productTitle}`,
+      })
+      const asset = await sanity.assets.upload('file', Buffer.from(pdf), {
+        filename   : `${order.orderNumber}-${item._key.slice(0, 8)}.pdf`,
+        contentType: 'application/pdf',
+        label      : 'print-file',
+      })
+      await sanity
+        .patch(id)
+        .set({
+          [`${at}.renderStatus`]: 'done',
+          [`${at}.printFile`]   : { _type: 'file', asset: { _type: 'reference', _ref: asset._id } },
+        })
+        .unset([`${at}.renderError`])
+        .commit()
+
+      jobItems.push({
+        key         : item._key,
+        printFileUrl: asset.url,
+        quantity    : item.quantity ?? 1,
+        productTitle: item.productTitle,
+        recipient   : item.recipient,
+        deliveryDate: item.deliveryDate,
+      })
+    } catch (err) {
+      failures++
+      console.error('[fulfilment] render failed', id, item._key, err)
+      await sanity
+        .patch(id)
+        .set({
+          [`${at}.renderStatus`]: 'failed',
+          [`${at}.renderError`] : (err as Error).message?.slice(0, 500) || 'render failed',
+        })
+        .commit()
+    }
+  }
+
+  if (failures) {
+    await setOrderStatus(id, 'failed', `${failures} item(s) failed to render`)
+    return 'failed'
+  }
+
+  /* hand-off to the print lab */
+  const printer = getPrintProvider()
+  try {
+    const ref = await printer.submit({
+      orderId       : id,
+      orderNumber   : order.orderNumber,
+      idempotencyKey: `${id}:${printRun}`,
+      items         : jobItems,
+    })
+    await setOrderStatus(id, 'sent-to-print', `${printer.name} job ${ref}`)
+    return 'sent-to-print'
+  } catch (err) {
+    console.error('[fulfilment] print hand-off failed', id, err)
+    await setOrderStatus(id, 'failed', `print hand-off failed: ${(err as Error).message}`.slice(0, 500))
+    return 'failed'
+  }
+}
+
+/** fire-and-forget – the checkout response must not wait for rendering */
+export function startFulfilment(id: string) {
+  void fulfilOrder(id).catch(err => console.error('[fulfilment]', id, err))
+}
+
+/**
+ * Start rendering every `held` order whose content is now all approved;
+ * resolves to their ids.  Orders with rejected content stay held for
+ * staff to sort out with the customer.
+ */
+export async function resumeHeldOrders(): Promise<string[]> {
+  const held = await sanity.fetch<{ _id: string; items?: { pages?: any[] }[] }[]>(
+    `*[_type == "order" && status == "held"]{ _id, items[]{ pages } }`,
+  )
+  const clear = await Promise.all(held.map(async o => {
+    const h = await heldContent(pageContent((o.items ?? []).flatMap(i => i.pages ?? [])))
+    return !h.pending && !h.rejected
+  }))
+  const ids = held.filter((_, i) => clear[i]).map(o => o._id)
+  ids.forEach(startFulfilment)
+  return ids
+}
+
+/** Paid basket → order, then start rendering in the background */
+export async function placeOrder(basketToken: string) {
+  const order = await createOrderFromBasket(basketToken)
+  if (order.created) startFulfilment(order.id)
+  return order
+}
+
+/** order number shown on the confirmation page (null until created) */
+export const orderNumberFor = (basketToken: string) =>
+  sanity.fetch<string | null>(`*[_id == $id][0].orderNumber`, { id: orderDocId(basketToken) })
@@ -0,0 +1,174 @@
+/**********************************************************************
+ * lib/imageAdjustments.ts
+ * Non-destructive colour / blur adjustments on image layers
+ * --------------------------------------------------------------------
+ *   brightness  contrast  saturation  warmth     −100 … 100, 0 = as is
+ *   blur                                          0 … 100
+ *   grayscale   sepia                             on / off
+ *
+ * They are plain Layer fields (saved on editableImage) – the photo
+ * itself is never touched.  Both renderers work from this file:
+ *   editor   lib/imageFilters – a Fabric filter on the layer
+ *   server   lib/layerImages  – on the decoded pixels before the crop
+ * so the print matches the screen:
+ *   • the colour part is ONE 4×5 matrix in Fabric's ColorMatrix layout,
+ *     applied by the same loop (applyColorMatrix) on both sides
+ *   • blur is a true Gaussian – canvas `blur()` in the browser, sharp
+ *     `.blur(σ)` on the server – with σ relative to the image's short
+ *     side, so the preview and the print blur the same share of it
+ *
+ * No server-only imports – the editor toolbar uses the same ranges and
+ * presets.
+ *********************************************************************/
+
+export interface ImageAdjustments {
+  brightness?: number
+  contrast?  : number
+  saturation?: number
+  warmth?    : number
+  blur?      : number
+  grayscale? : boolean
+  sepia?     : boolean
+}
+
+export type SliderAdjustment = 'brightness' | 'contrast' | 'saturation' | 'warmth' | 'blur'
+
+/** slider fields in toolbar order */
+export const SLIDERS: { key: SliderAdjustment; label: string; min: number; max: number }[] = [
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100 },
+  { key: 'contrast',   label: 'Contrast',   min: -100, max: 100 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+  { key: 'warmth',     label: 'Warmth',     min: -100, max: 100 },
+  { key: 'blur',       label: 'Blur',       min:    0, max: 100 },
+]
+
+export const TOGGLES = [
+  { key: 'grayscale', label: 'Black & white' },
+  { key: 'sepia',     label: 'Sepia' },
+] as const
+
+/** every adjustment field – what round-trips on a layer */
+export const ADJUSTMENT_KEYS: (keyof ImageAdjustments)[] = [
+  ...SLIDERS.map(s => s.key), ...TOGGLES.map(t => t.key),
+]
+
+/** a preset replaces whatever was set before */
+export const PRESETS: { name: string; label: string; adjustments: ImageAdjustments }[] = [
+  { name: 'vivid',   label: 'Vivid',   adjustments: { saturation: 40, contrast: 15 } },
+  { name: 'warm',    label: 'Warm',    adjustments: { warmth: 45, saturation: 10 } },
+  { name: 'cool',    label: 'Cool',    adjustments: { warmth: -40, brightness: 5 } },
+  { name: 'fade',    label: 'Fade',    adjustments: { contrast: -25, brightness: 8, saturation: -25 } },
+  { name: 'noir',    label: 'Noir',    adjustments: { grayscale: true, contrast: 35 } },
+  { name: 'vintage', label: 'Vintage', adjustments: { sepia: true, contrast: -10, brightness: 5 } },
+  { name: 'dreamy',  label: 'Dreamy',  adjustments: { blur: 12, brightness: 10, contrast: -10 } },
+]
+
+/* ---------- normalising ------------------------------------------- */
+/**
+ * The valid, non-neutral adjustments on anything layer-shaped (a
+ * Layer, an editableImage, a Fabric image) – numbers rounded and
+ * clamped to their slider, zeros and `false` dropped.
+ */
+export function adjustmentsOf (src: Record<string, any> | null | undefined): ImageAdjustments {
+  const out: ImageAdjustments = {}
+  if (!src) return out
+  for (const { key, min, max } of SLIDERS) {
+    const v = Math.min(max, Math.max(min, Math.round(Number(src[key]))))
+    if (Number.isFinite(v) && v) out[key] = v
+  }
+  for (const { key } of TOGGLES) if (src[key] === true) out[key] = true
+  return out
+}
+
+export const hasAdjustments = (adj: ImageAdjustments) => Object.keys(adjustmentsOf(adj)).length > 0
+
+/** the preset these adjustments are exactly, if any */
+export const presetOf = (adj: ImageAdjustments) => {
+  const key = JSON.stringify(adjustmentsOf(adj))
+  return PRESETS.find(p => JSON.stringify(adjustmentsOf(p.adjustments)) === key)?.name
+}
+
+/* ---------- colour ------------------------------------------------ */
+/* an affine colour map: rows r, g, b of [r g b offset], offset in 0 … 1 */
+type Affine = number[][]
+
+const IDENTITY: Affine = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0]]
+const LUMA = [0.2126, 0.7152, 0.0722]
+const SEPIA: Affine = [
+  [0.393, 0.769, 0.189, 0],
+  [0.349, 0.686, 0.168, 0],
+  [0.272, 0.534, 0.131, 0],
+]
+
+/** `b` applied after `a` */
+const then = (a: Affine, b: Affine): Affine => b.map(row => [
+  ...[0, 1, 2].map(c => row[0] * a[0][c] + row[1] * a[1][c] + row[2] * a[2][c]),
+  row[0] * a[0][3] + row[1] * a[1][3] + row[2] * a[2][3] + row[3],
+])
+
+const saturate = (s: number): Affine =>
+  [0, 1, 2].map(r => [...LUMA.map((l, c) => (1 - s) * l + (r === c ? s : 0)), 0])
+
+const scale = (r: number, g: number, b: number, offset = 0): Affine =>
+  [[r, 0, 0, offset], [0, g, 0, offset], [0, 0, b, offset]]
+
+/**
+ * The colour adjustments as one matrix in Fabric's ColorMatrix layout
+ * (20 values, offsets in 0 … 1, alpha row untouched).  Order: tone
+ * (b&w / sepia), saturation, warmth, contrast, brightness.
+ */
+export function colorMatrix (adjustments: ImageAdjustments): number[] {
+  const a = adjustmentsOf(adjustments)
+  let m = IDENTITY
+
+  if (a.sepia)          m = then(m, SEPIA)
+  else if (a.grayscale) m = then(m, saturate(0))
+  if (a.saturation) m = then(m, saturate(1 + a.saturation / 100))
+  if (a.warmth) {
+    const w = a.warmth / 100
+    m = then(m, scale(1 + 0.15 * w, 1 + 0.03 * w, 1 - 0.15 * w))
+  }
+  if (a.contrast) {
+    const f = 1 + a.contrast / 100
+    m = then(m, scale(f, f, f, 0.5 * (1 - f)))
+  }
+  if (a.brightness) m = then(m, scale(1, 1, 1, 0.4 * a.brightness / 100))
+
+  const [r, g, b] = m
+  return [
+    r[0], r[1], r[2], 0, r[3],
+    g[0], g[1], g[2], 0, g[3],
+    b[0], b[1], b[2], 0, b[3],
+    0,    0,    0,    1, 0,
+  ]
+}
+
+/**
+ * Fabric's ColorMatrix maths (colorsOnly) on RGBA pixels, in place.
+ * A Uint8ClampedArray rounds and clamps exactly like canvas ImageData.
+ */
+export function applyColorMatrix (data: Uint8ClampedArray, m: number[]) {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2]
+    data[i]     = r * m[0]  + g * m[1]  + b * m[2]  + m[4]  * 255
+    data[i + 1] = r * m[5]  + g * m[6]  + b * m[7]  + m[9]  * 255
+    data[i + 2] = r * m[10] + g * m[11] + b * m[12] + m[14] * 255
+  }
+}
+
+/** true when the matrix changes nothing */
+export const isIdentity = (m: number[]) =>
+  m.every((v, i) => v === (i % 6 === 0 ? 1 : 0))
+
+/* ---------- blur -------------------------------------------------- */
+/** blur 100 = σ of 2 % of the image's short side */
+const BLUR_MAX = 0.02
+/** sharp refuses anything smaller */
+const MIN_SIGMA = 0.3
+
+/** Gaussian σ in source pixels for a `width × height` image, 0 = none */
+export function blurSigma (adjustments: ImageAdjustments, width: number, height: number) {
+  const blur  = adjustmentsOf(adjustments).blur ?? 0
+  const sigma = blur / 100 * BLUR_MAX * Math.min(width, height)
+  return sigma >= MIN_SIGMA ? Math.round(sigma * 100) / 100 : 0
+}
@@ -0,0 +1,63 @@
+/**********************************************************************
+ * imageFilters.ts – live image adjustments in the editor
+ * --------------------------------------------------------------------
+ * One custom Fabric filter, `Adjust`, renders a layer's
+ * lib/imageAdjustments fields: the shared colour matrix, then the
+ * Gaussian blur.  lib/layerImages does the very same on the server.
+ *
+ * Fabric runs filters on its canvas-2D backend here – its WebGL one
+ * can't take photos past 2048 px and blurs differently from the print.
+ *********************************************************************/
+
+import { fabric } from 'fabric'
+import {
+  ADJUSTMENT_KEYS, adjustmentsOf, hasAdjustments,
+  colorMatrix, applyColorMatrix, isIdentity, blurSigma,
+  type ImageAdjustments,
+} from './imageAdjustments'
+
+const filters = fabric.Image.filters as any
+;(fabric as any).filterBackend = new (fabric as any).Canvas2dFilterBackend()
+
+filters.Adjust = fabric.util.createClass(filters.BaseFilter, {
+  type         : 'Adjust',
+  mainParameter: 'adjustments',
+  adjustments  : {},
+
+  isNeutralState () {
+    return !hasAdjustments(this.adjustments)
+  },
+
+  applyTo2d (options: { imageData: ImageData }) {
+    const { imageData } = options
+    const m = colorMatrix(this.adjustments)
+    if (!isIdentity(m)) applyColorMatrix(imageData.data, m)
+
+    const sigma = blurSigma(this.adjustments, imageData.width, imageData.height)
+    if (!sigma) return
+
+    /* canvas `blur()` is a Gaussian with σ in px – sharp's `.blur(σ)` */
+    const src = fabric.util.createCanvasElement()
+    const out = fabric.util.createCanvasElement()
+    src.width  = out.width  = imageData.width
+    src.height = out.height = imageData.height
+    src.getContext('2d')!.putImageData(imageData, 0, 0)
+    const ctx = out.getContext('2d')!
+    ctx.filter = `blur(${sigma}px)`
+    ctx.drawImage(src, 0, 0)
+    options.imageData = ctx.getImageData(0, 0, out.width, out.height)
+  },
+})
+filters.Adjust.fromObject = filters.BaseFilter.fromObject
+
+/**
+ * Put adjustments on a Fabric image: the fields (so objToLayer and
+ * copy/paste carry them) and the filter that renders them.
+ */
+export function applyImageAdjustments (img: fabric.Image, adjustments: ImageAdjustments) {
+  const adj = adjustmentsOf(adjustments)
+  ADJUSTMENT_KEYS.forEach(k => { (img as any)[k] = adj[k] })
+  img.filters = hasAdjustments(adj) ? [new filters.Adjust({ adjustments: adj })] : []
+  img.applyFilters()
+  img.dirty = true
+}
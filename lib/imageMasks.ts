@@ -0,0 +1,89 @@
+/**********************************************************************
+ * lib/imageMasks.ts
+ * Shaped photos – circles, hearts, arches … on image layers
+ * --------------------------------------------------------------------
+ * A layer's `mask` is either a preset name (`circle`, `heart` …) or
+ * an SVG path drawn in a 100 × 100 box.  The box is stretched over the
+ * layer's visible (cropped) rectangle, so the crop decides where the
+ * shape sits on the photo and CropTool's pan & zoom work inside it.
+ *
+ *   editor   lib/clipMasks – a Fabric clipPath on the image
+ *   server   lib/layerImages – the same path as an SVG alpha mask
+ *
+ * A `photoSlot` is a masked image staff place in a template: customers
+ * drop their own photo into it, the shape and its place stay put.
+ *
+ * No server-only imports – the editor's shape picker uses it too.
+ *********************************************************************/
+
+export interface MaskPreset {
+  name  : string
+  label : string
+  /** SVG path in a 100 × 100 box */
+  path  : string
+  /** looks right square only – picking it squares the crop */
+  square: boolean
+}
+
+export const MASK_PRESETS: MaskPreset[] = [
+  {
+    name  : 'circle',
+    label : 'Circle',
+    path  : 'M50 0 A50 50 0 1 1 50 100 A50 50 0 1 1 50 0 Z',
+    square: true,
+  },
+  {
+    name  : 'oval',
+    label : 'Oval',
+    path  : 'M50 0 A50 50 0 1 1 50 100 A50 50 0 1 1 50 0 Z',
+    square: false,
+  },
+  {
+    name  : 'heart',
+    label : 'Heart',
+    path  : 'M50 96 C18 72 0 54 0 31 C0 13 13 0 29 0 C39 0 46 5 50 13'
+          + ' C54 5 61 0 71 0 C87 0 100 13 100 31 C100 54 82 72 50 96 Z',
+    square: true,
+  },
+  {
+    name  : 'rounded',
+    label : 'Rounded',
+    path  : 'M10 0 H90 A10 10 0 0 1 100 10 V90 A10 10 0 0 1 90 100'
+          + ' H10 A10 10 0 0 1 0 90 V10 A10 10 0 0 1 10 0 Z',
+    square: false,
+  },
+  {
+    name  : 'arch',
+    label : 'Arch',
+    path  : 'M0 100 V50 A50 50 0 0 1 100 50 V100 Z',
+    square: false,
+  },
+]
+
+/** longest custom path we take – a traced logo, not an illustration */
+export const MASK_PATH_MAX = 4000
+
+/* path data only: commands, numbers, separators – nothing that could
+   break out of the `d` attribute the server renders it into.  The
+   editableImage schema repeats this rule */
+const PATH_DATA = /^[Mm][MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]*$/
+
+export const maskPreset = (mask: string | null | undefined) =>
+  MASK_PRESETS.find(p => p.name === mask)
+
+/** the SVG path behind a `mask` value, `null` for none / anything invalid */
+export function maskPath (mask: string | null | undefined): string | null {
+  if (!mask) return null
+  const preset = maskPreset(mask)
+  if (preset) return preset.path
+  const d = mask.trim()
+  return d.length <= MASK_PATH_MAX && PATH_DATA.test(d) ? d : null
+}
+
+/** the mask as a white-on-transparent SVG, `width × height` px */
+export function maskSvg (mask: string | null | undefined, width: number, height: number): string | null {
+  const d = maskPath(mask)
+  if (!d) return null
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"`
+    + ` viewBox="0 0 100 100" preserveAspectRatio="none"><path d="${d}" fill="#fff"/></svg>`
+}
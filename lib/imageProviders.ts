@@ -0,0 +1,264 @@
+/**********************************************************************
+ * lib/imageProviders.ts   (—SERVER-ONLY—)
+ * Pluggable image generation behind /api/variants
+ * --------------------------------------------------------------------
+ * lib/variants only talks to the ImageProvider interface.  Each
+ * aiPlaceholder picks its provider in the Studio, so two placeholders
+ * on the same artwork can A/B them; placeholders that don't choose use
+ * IMAGE_PROVIDER (default "openai").  The face-swap stage after
+ * generation uses SWAP_PROVIDER (default "faceswap") – and is skipped,
+ * with a warning, while that provider isn't configured.
+ * IMAGE_PROVIDER_FORCE overrides all of them – set it to "fake" to run
+ * the selfie flow offline.
+ *
+ * openai    gpt-image-1 images.edit / images.generate (OPENAI_API_KEY)
+ * faceswap  POSTs { target, face } as base64 to FACESWAP_URL and reads
+ *           back { image } (optional bearer token in FACESWAP_TOKEN)
+ * fake      composites the inputs locally with sharp – no network, and
+ *           the same inputs always give the same pixels
+ *
+ * Every method takes and returns PNG bytes.
+ *********************************************************************/
+import OpenAI, { toFile } from 'openai'
+import crypto             from 'crypto'
+import sharp              from 'sharp'
+
+export type ImageProviderName = 'openai' | 'faceswap' | 'fake'
+
+export type ImageSize = '1024x1024' | '1536x1024' | '1024x1536'
+
+export interface ImageSpec {
+  prompt    : string
+  size      : ImageSize
+  quality   : 'low' | 'medium' | 'high' | 'auto'
+  background: 'transparent' | 'opaque' | 'auto'
+  /** how many images to return */
+  n         : number
+  /** end-user id passed on for abuse tracking */
+  user?     : string
+  /** which of several parallel calls this is – deterministic providers
+      vary their output on it, the real ones ignore it */
+  variant?  : number
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName
+  /** redraw `images` following the prompt – ORDER matters: template, then
+      the selfie (or one photo per face slot, in slot order) */
+  edit     (images: Buffer[], spec: ImageSpec): Promise<Buffer[]>
+  /** draw from the prompt alone */
+  generate (spec: ImageSpec): Promise<Buffer[]>
+  /** put the face from `face` onto the person in `target` */
+  faceSwap (target: Buffer, face: Buffer): Promise<Buffer>
+  /** false while its key / URL isn't set – calls would only throw */
+  configured (): boolean
+}
+
+const sizeOf = (size: ImageSize) => {
+  const [width, height] = size.split('x').map(Number)
+  return { width, height }
+}
+
+/* ---------- openai ------------------------------------------------ */
+const IMAGE_MODEL = 'gpt-image-1'
+const SWAP_PROMPT =
+  'Replace the face of the person in the first image with the face from the second image. ' +
+  'Keep everything else – pose, clothing, lighting, style and background – exactly as it is.'
+
+/* created on first use so the other providers work without a key */
+let openaiClient: OpenAI | undefined
+const openai = () => openaiClient ??= new OpenAI({
+  apiKey : process.env.OPENAI_API_KEY,
+  timeout: 1000 * 120,
+})
+
+const pngFile = (bytes: Buffer, i: number) =>
+  toFile(bytes, `image-${i}.png`, { type: 'image/png' })
+
+function decodeOpenAI (result: any): Buffer[] {
+  const data: { b64_json?: string }[] = result?.data ?? []
+  if (!data.length || data.some(d => typeof d.b64_json !== 'string')) {
+    throw new Error('OpenAI returned no usable image')
+  }
+  return data.map(d => Buffer.from(d.b64_json!, 'base64'))
+}
+
+const openaiProvider: ImageProvider = {
+  name: 'openai',
+
+  configured: () => Boolean(process.env.OPENAI_API_KEY),
+
+  async edit (images, { prompt, size, quality, background, n, user }) {
+    const result = await (openai().images as any).edit({
+      model: IMAGE_MODEL,
+      image: await Promise.all(images.map(pngFile)),
+      prompt, n, size, quality, background, user,
+    })
+    return decodeOpenAI(result)
+  },
+
+  async generate ({ prompt, size, quality, background, n, user }) {
+    const result = await (openai().images as any).generate({
+      model: IMAGE_MODEL,
+      prompt, n, size, quality, background, user,
+    })
+    return decodeOpenAI(result)
+  },
+
+  async faceSwap (target, face) {
+    const { width, height } = await sharp(target).metadata()
+    const size: ImageSize =
+          width && height && width > height * 1.2 ? '1536x1024'
+        : width && height && height > width * 1.2 ? '1024x1536'
+        :                                           '1024x1024'
+    const [out] = await this.edit([target, face], {
+      prompt: SWAP_PROMPT, size, quality: 'medium', background: 'auto', n: 1,
+    })
+    return out
+  },
+}
+
+/* ---------- faceswap (HTTP micro-service) ------------------------- */
+const faceswapProvider: ImageProvider = {
+  name: 'faceswap',
+
+  configured: () => Boolean(process.env.FACESWAP_URL),
+
+  /* the service only swaps – the prompt is ignored and every result
+     would be identical, so n is capped at one */
+  async edit ([target, face, ...more]) {
+    if (!target || !face) throw new Error('faceswap needs a template and a selfie')
+    if (more.length) throw new Error('faceswap places a single face – use another provider for multi-face placeholders')
+    return [await this.faceSwap(target, face)]
+  },
+
+  async generate () {
+    throw new Error('faceswap provider cannot draw from a prompt – give the placeholder a reference image')
+  },
+
+  async faceSwap (target, face) {
+    const url = process.env.FACESWAP_URL
+    if (!url) throw new Error('FACESWAP_URL is not set')
+
+    const res = await fetch(url, {
+      method : 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(process.env.FACESWAP_TOKEN && {
+          authorization: `Bearer ${process.env.FACESWAP_TOKEN}`,
+        }),
+      },
+      body  : JSON.stringify({ target: target.toString('base64'), face: face.toString('base64') }),
+      signal: AbortSignal.timeout(1000 * 120),
+    })
+    if (!res.ok) throw new Error(`faceswap ${res.status}: ${await res.text()}`)
+
+    /* either raw image bytes or { image: base64 } */
+    if (res.headers.get('content-type')?.startsWith('image/')) {
+      return sharp(Buffer.from(await res.arrayBuffer())).png().toBuffer()
+    }
+    const json = await res.json().catch(() => ({}))
+    if (typeof json.image !== 'string') throw new Error('faceswap returned no image')
+    return Buffer.from(json.image.replace(/^data:image\/\w+;base64,/, ''), 'base64')
+  },
+}
+
+/* ---------- fake -------------------------------------------------- */
+const hue = (...parts: (Buffer | string)[]) => {
+  const h = crypto.createHash('sha1')
+  parts.forEach(p => h.update(p))
+  return h.digest().readUInt16BE(0) % 360
+}
+
+/** the face, cut to a circle `d` px across */
+const faceDisc = async (face: Buffer, d: number) =>
+  sharp(face)
+    .resize(d, d, { fit: 'cover' })
+    .composite([{
+      input: Buffer.from(`<svg width="${d}" height="${d}"><circle cx="${d / 2}" cy="${d / 2}" r="${d / 2}"/></svg>`),
+      blend: 'dest-in',
+    }])
+    .png()
+    .toBuffer()
+
+/** the faces side by side across the upper part of the target */
+async function pasteFaces (target: Buffer, faces: Buffer[], width: number, height: number, tint: number) {
+  const d = Math.round(Math.min(width / faces.length, Math.min(width, height) / 3))
+  const gap = (width - d * faces.length) / (faces.length + 1)
+  return sharp(target)
+    .resize(width, height, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .modulate({ hue: tint })
+    .composite(await Promise.all(faces.map(async (face, i) => ({
+      input: await faceDisc(face, d),
+      left : Math.round(gap + i * (d + gap)),
+      top  : Math.round(height / 5),
+    }))))
+    .png()
+    .toBuffer()
+}
+
+const fakeProvider: ImageProvider = {
+  name: 'fake',
+
+  configured: () => true,
+
+  async edit ([target, ...faces], { size, n, variant = 0 }) {
+    if (!target || !faces.length) throw new Error('fake edit needs a template and a selfie')
+    const { width, height } = sizeOf(size)
+    /* each variant is the same composite with its hue turned a little further */
+    return Promise.all(Array.from({ length: n }, (_, i) =>
+      pasteFaces(target, faces, width, height, ((variant + i) * 40) % 360)))
+  },
+
+  async generate ({ prompt, size, n, variant = 0 }) {
+    const { width, height } = sizeOf(size)
+    return Promise.all(Array.from({ length: n }, (_, i) => {
+      const h = (hue(prompt) + (variant + i) * 40) % 360
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+          <stop offset="0" stop-color="hsl(${h},70%,65%)"/>
+          <stop offset="1" stop-color="hsl(${(h + 60) % 360},70%,35%)"/>
+        </linearGradient></defs>
+        <rect width="100%" height="100%" fill="url(#g)"/>
+      </svg>`
+      return sharp(Buffer.from(svg)).png().toBuffer()
+    }))
+  },
+
+  async faceSwap (target, face) {
+    const { width = 1024, height = 1024 } = await sharp(target).metadata()
+    return pasteFaces(target, [face], width, height, 0)
+  },
+}
+
+/* ---------- registry --------------------------------------------- */
+const PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  openai  : openaiProvider,
+  faceswap: faceswapProvider,
+  fake    : fakeProvider,
+}
+
+export const IMAGE_PROVIDERS = Object.keys(PROVIDERS) as ImageProviderName[]
+
+/** the placeholder's choice, unless IMAGE_PROVIDER_FORCE says otherwise */
+export function getImageProvider (preferred?: string | null): ImageProvider {
+  const name = process.env.IMAGE_PROVIDER_FORCE
+    || preferred
+    || process.env.IMAGE_PROVIDER
+    || 'openai'
+  const provider = PROVIDERS[name as ImageProviderName]
+  if (!provider) throw new Error(`Unknown image provider "${name}"`)
+  return provider
+}
+
+/**
+ * who runs the doFaceSwap stage after generation – null while it isn't
+ * configured, so the stage is skipped rather than failing after the
+ * paid generate call
+ */
+export function getSwapProvider (): ImageProvider | null {
+  const provider = getImageProvider(process.env.SWAP_PROVIDER || 'faceswap')
+  if (provider.configured()) return provider
+  console.warn(`[imageProviders] swap provider "${provider.name}" is not configured – skipping face-swap`)
+  return null
+}
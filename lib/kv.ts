@@ -1,17 +1,241 @@
-// super-simple in-memory KV cache so the API route compiles in dev
-const store = new Map<string, { value: any; exp: number }>();
-
-export const KV = {
-  async get(key: string) {
-    const item = store.get(key);
-    if (!item) return null;
-    if (Date.now() > item.exp) {
-      store.delete(key);
-      return null;
+/**********************************************************************
+ * lib/kv.ts   (—SERVER-ONLY—)
+ * Pluggable key/value cache
+ * --------------------------------------------------------------------
+ * Callers only see the KVStore interface; the backend is picked by
+ * KV_DRIVER (default "memory"):
+ *
+ * memory – process-local Map (on globalThis so dev hot-reload keeps it)
+ * sqlite – one table in a local file, survives restarts
+ *            KV_SQLITE_PATH   default .data/kv.sqlite
+ * redis  – any Redis-protocol server (Redis, Valkey, Upstash, …),
+ *          shared by every serverless instance
+ *            KV_REDIS_URL     default redis://localhost:6379
+ *
+ * Values are JSON.  Keys live under KV_NAMESPACE (default "walty")
+ * and callers can carve out their own:  KV.namespace('variants').
+ *
+ *   await KV.set(key, value, { ex: 3600 })   // expire after an hour
+ *   await KV.get<string>(key)                // null when missing/expired
+ *   await KV.incr(key, { ex: 60 })           // atomic counter (rate limits)
+ *********************************************************************/
+import { mkdirSync } from 'fs'
+import path          from 'path'
+
+export interface SetOptions {
+  /** expire after this many seconds (omit to keep forever) */
+  ex?: number
+}
+
+export interface KVStore {
+  readonly driver: string
+  get<T = any>(key: string): Promise<T | null>
+  set(key: string, value: unknown, opts?: SetOptions): Promise<void>
+  /** true when something was removed */
+  delete(key: string): Promise<boolean>
+  /**
+   * Atomically add 1 and return the new count.  `ex` only applies when
+   * the counter is created, so a window doesn't slide on every hit.
+   */
+  incr(key: string, opts?: SetOptions): Promise<number>
+  /** seconds left · Infinity when it never expires · null when missing */
+  ttl(key: string): Promise<number | null>
+  /** same backend, keys prefixed with `<ns>:` */
+  namespace(ns: string): KVStore
+}
+
+/** What a backend implements – full keys, raw JSON strings */
+interface KVDriver {
+  readonly name: string
+  get   (key: string): Promise<string | null>
+  /** expAt = epoch ms, null = no expiry */
+  set   (key: string, json: string, expAt: number | null): Promise<void>
+  delete(key: string): Promise<boolean>
+  incr  (key: string, expAt: number | null): Promise<number>
+  /** epoch ms, null = no expiry, undefined = missing */
+  expiry(key: string): Promise<number | null | undefined>
+}
+
+/* ---------- memory ----------------------------------------------- */
+type MemEntry = { json: string; expAt: number | null }
+
+const memoryDriver = (): KVDriver => {
+  const store: Map<string, MemEntry> =
+    ((globalThis as any).__kvMemory ??= new Map<string, MemEntry>())
+
+  /** expired entries are dropped on read */
+  const live = (key: string) => {
+    const e = store.get(key)
+    if (e && e.expAt !== null && e.expAt <= Date.now()) {
+      store.delete(key)
+      return undefined
     }
-    return item.value;
-  },
-  async set(key: string, value: any, { ex }: { ex: number }) {
-    store.set(key, { value, exp: Date.now() + ex * 1000 });
-  },
-};
\ No newline at end of file
+    return e
+  }
+
+  return {
+    name  : 'memory',
+    async get (key)              { return live(key)?.json ?? null },
+    async set (key, json, expAt) { store.set(key, { json, expAt }) },
+    async delete (key)           { return live(key) !== undefined && store.delete(key) },
+    async incr (key, expAt) {
+      const e = live(key)
+      const n = (e ? Number(JSON.parse(e.json)) || 0 : 0) + 1
+      store.set(key, { json: String(n), expAt: e ? e.expAt : expAt })
+      return n
+    },
+    async expiry (key)           { return live(key)?.expAt },
+  }
+}
+
+/* ---------- sqlite ----------------------------------------------- */
+const SWEEP_EVERY = 200            // writes between expired-row sweeps
+
+const sqliteDriver = async (): Promise<KVDriver> => {
+  const { default: Database } = await import('better-sqlite3')
+
+  let file = process.env.KV_SQLITE_PATH || '.data/kv.sqlite'
+  if (file !== ':memory:') {
+    file = path.resolve(file)
+    mkdirSync(path.dirname(file), { recursive: true })
+  }
+
+  const db = new Database(file)
+  db.pragma('journal_mode = WAL')  // readers don't block the writer
+  db.exec(`CREATE TABLE IF NOT EXISTS kv (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    exp   INTEGER
+  )`)
+
+  const q = {
+    get   : db.prepare<[string, number], { value: string; exp: number | null }>(
+              'SELECT value, exp FROM kv WHERE key = ? AND (exp IS NULL OR exp > ?)'),
+    set   : db.prepare('INSERT OR REPLACE INTO kv (key, value, exp) VALUES (?, ?, ?)'),
+    delete: db.prepare<[string, number]>(
+              'DELETE FROM kv WHERE key = ? AND (exp IS NULL OR exp > ?)'),
+    sweep : db.prepare<[number]>('DELETE FROM kv WHERE exp IS NOT NULL AND exp <= ?'),
+    /* an expired row is replaced, a live one bumped – in one statement */
+    incr  : db.prepare<[{ key: string; expAt: number | null; now: number }], { value: string }>(
+              `INSERT INTO kv (key, value, exp) VALUES (@key, '1', @expAt)
+               ON CONFLICT(key) DO UPDATE SET
+                 value = CASE WHEN exp IS NOT NULL AND exp <= @now THEN '1'
+                              ELSE CAST(CAST(value AS INTEGER) + 1 AS TEXT) END,
+                 exp   = CASE WHEN exp IS NOT NULL AND exp <= @now THEN @expAt ELSE exp END
+               RETURNING value`),
+  }
+  let writes = 0
+
+  return {
+    name: 'sqlite',
+    async get (key) { return q.get.get(key, Date.now())?.value ?? null },
+    async set (key, json, expAt) {
+      q.set.run(key, json, expAt)
+      if (++writes % SWEEP_EVERY === 0) q.sweep.run(Date.now())
+    },
+    async delete (key) { return q.delete.run(key, Date.now()).changes > 0 },
+    async incr (key, expAt) {
+      return Number(q.incr.get({ key, expAt, now: Date.now() })!.value)
+    },
+    async expiry (key) {
+      const row = q.get.get(key, Date.now())
+      return row ? row.exp : undefined
+    },
+  }
+}
+
+/* ---------- redis ------------------------------------------------ */
+const redisDriver = async (): Promise<KVDriver> => {
+  const { default: Redis } = await import('ioredis')
+
+  const redis = new Redis(process.env.KV_REDIS_URL || 'redis://localhost:6379', {
+    maxRetriesPerRequest: 2,       // fail the request rather than hang the route
+  })
+  redis.on('error', err => console.error('[kv:redis]', err.message))
+
+  return {
+    name: 'redis',
+    async get (key) { return redis.get(key) },
+    async set (key, json, expAt) {
+      if (expAt === null) await redis.set(key, json)
+      else await redis.set(key, json, 'PX', Math.max(1, expAt - Date.now()))
+    },
+    async delete (key) { return (await redis.del(key)) > 0 },
+    async incr (key, expAt) {
+      if (expAt === null) return redis.incr(key)
+      /* NX: only the first hit creates the key (and starts its expiry) */
+      const res = await redis
+        .multi()
+        .set(key, 0, 'PX', Math.max(1, expAt - Date.now()), 'NX')
+        .incr(key)
+        .exec()
+      const [err, n] = res![1]
+      if (err) throw err
+      return n as number
+    },
+    async expiry (key) {
+      const ms = await redis.pttl(key)         // -2 missing · -1 no expiry
+      return ms === -2 ? undefined : ms === -1 ? null : Date.now() + ms
+    },
+  }
+}
+
+/* ---------- registry --------------------------------------------- */
+const drivers: Record<string, () => KVDriver | Promise<KVDriver>> = {
+  memory: memoryDriver,
+  sqlite: sqliteDriver,
+  redis : redisDriver,
+}
+
+/** Build a store on top of one driver (exported for scripts/kv-check) */
+export function createKV (
+  driverName = process.env.KV_DRIVER || 'memory',
+  prefix     = process.env.KV_NAMESPACE ?? 'walty',
+): KVStore {
+  const factory = drivers[driverName]
+  if (!factory) throw new Error(`Unknown KV_DRIVER “${driverName}”`)
+
+  /* connect on first use – importing the module stays cheap */
+  let ready: Promise<KVDriver> | null = null
+  const driver = () => (ready ??= Promise.resolve(factory()))
+
+  const store = (ns: string): KVStore => {
+    const full = (key: string) => (ns ? `${ns}:${key}` : key)
+    return {
+      driver: driverName,
+
+      async get (key) {
+        const json = await (await driver()).get(full(key))
+        return json === null ? null : JSON.parse(json)
+      },
+
+      async set (key, value, { ex } = {}) {
+        if (value === undefined) throw new Error('KV values must be JSON-serialisable')
+        const expAt = ex != null ? Date.now() + ex * 1000 : null
+        await (await driver()).set(full(key), JSON.stringify(value), expAt)
+      },
+
+      async delete (key) {
+        return (await driver()).delete(full(key))
+      },
+
+      async incr (key, { ex } = {}) {
+        const expAt = ex != null ? Date.now() + ex * 1000 : null
+        return (await driver()).incr(full(key), expAt)
+      },
+
+      async ttl (key) {
+        const expAt = await (await driver()).expiry(full(key))
+        if (expAt === undefined) return null
+        return expAt === null ? Infinity : Math.max(0, (expAt - Date.now()) / 1000)
+      },
+
+      namespace: child => store(ns ? `${ns}:${child}` : child),
+    }
+  }
+
+  return store(prefix)
+}
+
+/* one shared store per process (hot-reload safe) */
+export const KV: KVStore = ((globalThis as any).__kv ??= createKV())
@@ -0,0 +1,181 @@
+/**********************************************************************
+ * lib/layerImages.ts   (—SERVER-ONLY—)
+ * Resolve an image layer to full-resolution pixels + its placement on
+ * the page, mirroring what FabricCanvas does in the browser – colour
+ * adjustments and blur included (lib/imageAdjustments), and the shape
+ * mask (lib/imageMasks).
+ *********************************************************************/
+import { readFile } from 'fs/promises'
+import path         from 'path'
+import sharp        from 'sharp'
+
+import { urlFor }          from '@/sanity/lib/image'
+import { projectId }       from '@/sanity/env'
+import type { Layer }      from '@/app/components/FabricCanvas'
+import { DEFAULT_GEOMETRY, type PageGeometry } from '@/lib/pageGeometry'
+import {
+  adjustmentsOf, hasAdjustments, colorMatrix, applyColorMatrix, isIdentity, blurSigma,
+  type ImageAdjustments,
+} from '@/lib/imageAdjustments'
+import { maskSvg } from '@/lib/imageMasks'
+
+export interface LayerBitmap {
+  /** adjusted, cropped, masked + flipped PNG, at the source's native resolution */
+  png   : Buffer
+  /** top-left corner and size on the page, in page pixels */
+  x     : number
+  y     : number
+  width : number
+  height: number
+}
+
+/* ---------- source resolution ------------------------------------ */
+
+/** Best full-resolution URL we can find for an image layer */
+export function layerImageUrl (ly: Layer): string | undefined {
+  /* a real asset beats any cached / blob URL */
+  if (ly.assetId) {
+    return urlFor({ _type: 'image', asset: { _type: 'reference', _ref: ly.assetId } } as any).url()
+  }
+  if (ly.src && typeof ly.src === 'object' && ly.src.asset?._ref) {
+    return urlFor(ly.src as any).url()
+  }
+  if (typeof ly.src === 'string' && ly.src) return ly.src
+  return ly.srcUrl
+}
+
+/* layer URLs come from customers' baskets – only our own files and
+   this project's Sanity assets, never an arbitrary host or path */
+const PUBLIC_DIR = path.join(process.cwd(), 'public')
+const EXTRA_HOSTS = (process.env.IMAGE_FETCH_HOSTS ?? '')
+  .split(',').map(h => h.trim().toLowerCase()).filter(Boolean)
+
+/** the file under public/ behind a site path – null if it leaves public/ */
+function publicFile (url: string): string | null {
+  let rel: string
+  try { rel = decodeURIComponent(url.split(/[?#]/)[0]) } catch { return null }
+  const file = path.resolve(PUBLIC_DIR, '.' + path.posix.normalize('/' + rel))
+  return file.startsWith(PUBLIC_DIR + path.sep) ? file : null
+}
+
+/** https on cdn.sanity.io for this project, or a host in IMAGE_FETCH_HOSTS */
+function allowedRemote (url: string): boolean {
+  let u: URL
+  try { u = new URL(url) } catch { return false }
+  if (u.protocol !== 'https:' || u.username || u.password || u.port) return false
+  const host = u.hostname.toLowerCase()
+  if (host === 'cdn.sanity.io') {
+    return u.pathname.startsWith(`/images/${projectId}/`) || u.pathname.startsWith(`/files/${projectId}/`)
+  }
+  return EXTRA_HOSTS.includes(host)
+}
+
+/** Fetch the raw bytes behind a URL (data:, /public path or allowed https) */
+export async function fetchImageBytes (url: string): Promise<Buffer> {
+  if (url.startsWith('data:')) {
+    return Buffer.from(url.replace(/^data:[^;]+;base64,/, ''), 'base64')
+  }
+  if (url.startsWith('blob:')) {
+    throw new Error('blob: URLs only exist in the browser – save the image first')
+  }
+  if (url.startsWith('/') && !url.startsWith('//')) {
+    const file = publicFile(url)
+    if (!file) throw new Error(`image path outside public/: ${url}`)
+    return readFile(file)
+  }
+  if (!allowedRemote(url)) throw new Error(`image host not allowed: ${url}`)
+  const res = await fetch(url, { redirect: 'error' })
+  if (!res.ok) throw new Error(`image fetch failed (${res.status}) ${url}`)
+  return Buffer.from(await res.arrayBuffer())
+}
+
+/* ---------- adjustments ------------------------------------------ */
+
+/**
+ * The layer's colour matrix and blur on the whole, uncropped image –
+ * where Fabric's filter runs too, so a blur reaches across the crop
+ * edge the same way.
+ */
+async function adjustBitmap (bytes: Buffer, adj: ImageAdjustments): Promise<Buffer> {
+  const { data, info: { width, height } } = await sharp(bytes)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const m = colorMatrix(adj)
+  if (!isIdentity(m)) applyColorMatrix(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), m)
+
+  const raw   = { width, height, channels: 4 as const }
+  const sigma = blurSigma(adj, width, height)
+  if (!sigma) return sharp(data, { raw }).png().toBuffer()
+
+  /* the canvas blurs against transparency past the edge – pad with it */
+  const pad    = Math.ceil(sigma * 3)
+  const padded = await sharp(data, { raw })
+    .extend({ top: pad, bottom: pad, left: pad, right: pad, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .raw()
+    .toBuffer()
+  const blurred = await sharp(padded, { raw: { ...raw, width: width + pad * 2, height: height + pad * 2 } })
+    .blur(sigma)
+    .raw()
+    .toBuffer()
+  return sharp(blurred, { raw: { ...raw, width: width + pad * 2, height: height + pad * 2 } })
+    .extract({ left: pad, top: pad, width, height })
+    .png()
+    .toBuffer()
+}
+
+/* ---------- placement -------------------------------------------- */
+
+/**
+ * Load, adjust, crop, mask and flip an image layer.  Returns `null` when the layer
+ * has nothing renderable yet (e.g. an upload still in flight).
+ */
+export async function loadLayerBitmap (
+  ly: Layer,
+  g : PageGeometry = DEFAULT_GEOMETRY,
+): Promise<LayerBitmap | null> {
+  const url = layerImageUrl(ly)
+  if (!url) return null
+
+  const adj   = adjustmentsOf(ly)
+  const bytes = hasAdjustments(adj)
+    ? await adjustBitmap(await fetchImageBytes(url), adj)
+    : await fetchImageBytes(url)
+  const meta  = await sharp(bytes).metadata()
+  const natW  = meta.width  ?? 1
+  const natH  = meta.height ?? 1
+
+  /* cropping rectangle – same defaults Fabric uses */
+  const left   = Math.max(0, Math.round(ly.cropX ?? 0))
+  const top    = Math.max(0, Math.round(ly.cropY ?? 0))
+  const width  = Math.min(natW - left, Math.round(ly.cropW ?? natW))
+  const height = Math.min(natH - top,  Math.round(ly.cropH ?? natH))
+
+  let img = sharp(bytes).ensureAlpha()
+  if (left || top || width !== natW || height !== natH) {
+    img = img.extract({ left, top, width, height })
+  }
+
+  /* the mask sits on the crop box, before the flip – as Fabric's
+     clipPath does.  sharp composites after flipping, hence own pass */
+  const mask = maskSvg(ly.mask, width, height)
+  if (mask) {
+    img = sharp(await img.composite([{ input: Buffer.from(mask), blend: 'dest-in' }]).png().toBuffer())
+  }
+  if (ly.flipX) img = img.flop()
+  if (ly.flipY) img = img.flip()
+
+  /* scale – FabricCanvas shrinks unscaled images to fit the page */
+  let sX = ly.scaleX, sY = ly.scaleY
+  if (sX == null || sY == null) {
+    sX = sY = Math.min(1, g.pageW / width, g.pageH / height)
+  }
+
+  return {
+    png   : await img.png().toBuffer(),
+    x     : ly.x ?? 0,
+    y     : ly.y ?? 0,
+    width : width  * sX,
+    height: height * sY,
+  }
+}
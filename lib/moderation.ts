@@ -0,0 +1,330 @@
+/**********************************************************************
+ * lib/moderation.ts   (—SERVER-ONLY—)
+ * Content moderation – uploads, customer text and generated images
+ * --------------------------------------------------------------------
+ *   checkText(text)      → { verdict, categories, provider, reason? }
+ *   checkImage(bytes)    → same, for any image sharp can read
+ *   recordFlag(…)        flag / block → a `moderationFlag` document,
+ *                        the Studio's "Moderation" review queue
+ *   heldContent(…)       what of an order is still pending or was
+ *                        rejected – checkout and fulfilment ask this
+ *   decideFlag(…)        staff's Approve / Reject from the Studio
+ *
+ * Verdicts:
+ *   allow   fine
+ *   flag    may be fine – it goes on, but staff review it before
+ *           anything containing it is printed
+ *   block   never reaches the canvas or an order
+ *
+ * The provider is picked by MODERATION_PROVIDER:
+ *   openai   omni-moderation-latest (OPENAI_API_KEY) – the default
+ *            when a key is set
+ *   rules    local stand-in: word lists for text (extend them with
+ *            MODERATION_BLOCKLIST / MODERATION_FLAGLIST, comma
+ *            separated).  It can't judge pictures – images only fail
+ *            when unreadable; a heuristic there flagged every selfie
+ *            and held orders for nothing
+ *
+ * Answers are cached in KV per content hash for a week.  If the
+ * provider is down the content is flagged, not allowed – a human
+ * looks at it instead.
+ *
+ * Flag documents have a stable id per content, so the same text or
+ * image is reviewed once: staff approving it sticks, and seeing it
+ * again doesn't add another entry to the queue.
+ *********************************************************************/
+import OpenAI from 'openai'
+import crypto from 'crypto'
+import sharp  from 'sharp'
+
+import { sanityWriteClient as sanity } from '@/sanity/lib/client'
+import { KV } from '@/lib/kv'
+
+export type ModerationVerdict = 'allow' | 'flag' | 'block'
+export type ModerationKind    = 'upload' | 'text' | 'generated'
+
+/** a moderationFlag's review state – `blocked` unless staff overrule it */
+export type ModerationStatus = 'pending' | 'approved' | 'rejected' | 'blocked'
+
+export interface ModerationResult {
+  verdict   : ModerationVerdict
+  /** e.g. "sexual", "hate", "contact-info" – empty when allowed */
+  categories: string[]
+  provider  : string
+  /** staff-facing, for the review queue */
+  reason?   : string
+}
+
+const CACHE_SEC = 60 * 60 * 24 * 7
+const CHECK_PX  = 512                // what the provider gets to see
+
+const cache = KV.namespace('moderation')
+
+const sha1 = (data: string | Buffer) => crypto.createHash('sha1').update(data).digest('hex')
+
+const allow = (provider: string): ModerationResult => ({ verdict: 'allow', categories: [], provider })
+
+/* ---------- providers --------------------------------------------- */
+interface ModerationProvider {
+  readonly name: string
+  checkText (text: string): Promise<ModerationResult>
+  /** `jpeg` is at most CHECK_PX on its long side, alpha flattened onto white */
+  checkImage (jpeg: Buffer): Promise<ModerationResult>
+}
+
+/* — openai — */
+/** never acceptable on a greeting card, however the customer means it */
+const OPENAI_BLOCK = new Set([
+  'sexual', 'sexual/minors', 'hate/threatening', 'harassment/threatening',
+  'violence/graphic', 'self-harm/instructions', 'illicit/violent',
+])
+/** below the model's own threshold but close enough for a human look */
+const NEAR_MISS = 0.3
+
+let openaiClient: OpenAI | undefined
+async function openaiModerate (input: OpenAI.ModerationCreateParams['input']): Promise<ModerationResult> {
+  openaiClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY, timeout: 1000 * 30 })
+  const res = await openaiClient.moderations.create({ model: 'omni-moderation-latest', input })
+  const r   = res.results[0]
+  if (!r) throw new Error('moderation returned no result')
+
+  const flagged = Object.entries(r.categories).filter(([, on]) => on).map(([c]) => c)
+  const scores  = r.category_scores as unknown as Record<string, number>
+  const close   = Object.entries(scores).filter(([, s]) => s >= NEAR_MISS).map(([c]) => c)
+
+  if (flagged.some(c => OPENAI_BLOCK.has(c))) {
+    return { verdict: 'block', categories: flagged, provider: 'openai' }
+  }
+  if (flagged.length || close.length) {
+    const categories = flagged.length ? flagged : close
+    return {
+      verdict : 'flag',
+      categories,
+      provider: 'openai',
+      reason  : flagged.length ? undefined : `close to the threshold (${close.map(c => `${c} ${scores[c].toFixed(2)}`).join(', ')})`,
+    }
+  }
+  return allow('openai')
+}
+
+const openaiProvider: ModerationProvider = {
+  name: 'openai',
+  checkText : text => openaiModerate(text),
+  checkImage: jpeg => openaiModerate([
+    { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${jpeg.toString('base64')}` } },
+  ]),
+}
+
+/* — rules — */
+const BLOCK_TERMS = [
+  'kill yourself', 'kys', 'heil hitler', 'sieg heil', 'white power', '1488',
+  'child porn', 'cp links', 'rape', 'porn', 'nudes',
+]
+const FLAG_TERMS = [
+  'fuck', 'shit', 'bitch', 'bastard', 'cunt', 'dick', 'cock', 'pussy', 'wanker',
+  'twat', 'slut', 'whore', 'nazi', 'kill', 'cocaine',
+]
+const envTerms = (name: string) =>
+  (process.env[name] ?? '').split(',').map(t => t.trim().toLowerCase()).filter(Boolean)
+
+/* leetspeak and padding ("f.u.c.k", "5h1t") shouldn't slip through */
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' }
+const normalise = (text: string) =>
+  text.toLowerCase()
+    .replace(/[013457@$]/g, c => LEET[c])
+    .replace(/(\w)[.\-_*]+(?=\w)/g, '$1')
+    .replace(/\s+/g, ' ')
+
+/* whole words, plus the usual endings ("fucking") – not "cockerel" */
+const termRe = (terms: string[]) => terms.length
+  ? new RegExp(`\\b(?:${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?:s|es|ed|er|ers|ing|in)?\\b`, 'g')
+  : null
+
+const URL_RE   = /\b(?:https?:\/\/|www\.)\S+|\b[\w-]+\.(?:com|net|org|io|co|uk|ru|xyz|link)\b/i
+const PHONE_RE = /(?:\+?\d[\s-]?){9,}/
+const EMAIL_RE = /\b[\w.+-]+@[\w-]+\.[\w.]+\b/
+
+const rulesProvider: ModerationProvider = {
+  name: 'rules',
+
+  async checkText (text) {
+    /* terms are matched on the raw text too – the blocklist has digits */
+    const haystacks = [text.toLowerCase(), normalise(text)]
+    const hits = (terms: string[]) => {
+      const re = termRe(terms)
+      return re ? [...new Set(haystacks.flatMap(h => h.match(re) ?? []))] : []
+    }
+
+    const blocked = hits([...BLOCK_TERMS, ...envTerms('MODERATION_BLOCKLIST')])
+    if (blocked.length) {
+      return { verdict: 'block', categories: ['blocklist'], provider: 'rules', reason: `matched ${blocked.join(', ')}` }
+    }
+
+    const categories: string[] = []
+    const reasons: string[] = []
+    const flagged = hits([...FLAG_TERMS, ...envTerms('MODERATION_FLAGLIST')])
+    if (flagged.length) { categories.push('profanity'); reasons.push(`matched ${flagged.join(', ')}`) }
+    if (URL_RE.test(text) || EMAIL_RE.test(text) || PHONE_RE.test(text)) {
+      categories.push('contact-info')
+      reasons.push('contains a link, e-mail address or phone number')
+    }
+    return categories.length
+      ? { verdict: 'flag', categories, provider: 'rules', reason: reasons.join('; ') }
+      : allow('rules')
+  },
+
+  /* readable is all it can tell (checkImage already blocked the rest) */
+  checkImage: async () => allow('rules'),
+}
+
+const PROVIDERS: Record<string, ModerationProvider> = {
+  openai: openaiProvider,
+  rules : rulesProvider,
+}
+
+function getModerationProvider (): ModerationProvider {
+  const name = process.env.MODERATION_PROVIDER
+    ?? (process.env.OPENAI_API_KEY && process.env.IMAGE_PROVIDER_FORCE !== 'fake' ? 'openai' : 'rules')
+  const provider = PROVIDERS[name]
+  if (!provider) throw new Error(`Unknown MODERATION_PROVIDER "${name}"`)
+  return provider
+}
+
+/* ---------- the checks -------------------------------------------- */
+async function cached (
+  key : string,
+  kind: string,
+  run : (provider: ModerationProvider) => Promise<ModerationResult>,
+): Promise<ModerationResult> {
+  const provider = getModerationProvider()
+  const full = `${provider.name}:${kind}:${key}`
+  const hit  = await cache.get<ModerationResult>(full)
+  if (hit) return hit
+
+  let result: ModerationResult
+  try {
+    result = await run(provider)
+  } catch (err) {
+    /* unlike the face check, an outage mustn't wave content through */
+    console.error(`[moderation] ${provider.name} failed – flagging for review`, err)
+    return { verdict: 'flag', categories: ['unchecked'], provider: provider.name, reason: 'moderation service unavailable' }
+  }
+  await cache.set(full, result, { ex: CACHE_SEC })
+  return result
+}
+
+/** classify customer-entered text – empty text is always allowed */
+export async function checkText (text: string): Promise<ModerationResult> {
+  const t = text.trim()
+  if (!t) return allow('none')
+  return cached(sha1(t), 'text', p => p.checkText(t))
+}
+
+/** classify an image; unreadable bytes are blocked */
+export async function checkImage (bytes: Buffer): Promise<ModerationResult> {
+  return cached(sha1(bytes), 'image', async p => {
+    let jpeg: Buffer
+    try {
+      jpeg = await sharp(bytes)
+        .rotate()
+        .resize(CHECK_PX, CHECK_PX, { fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 85 })
+        .toBuffer()
+    } catch {
+      return { verdict: 'block', categories: ['unreadable'], provider: p.name, reason: 'not a readable image' }
+    }
+    return p.checkImage(jpeg)
+  })
+}
+
+/* ---------- review queue ------------------------------------------ */
+export interface FlagSubject {
+  kind    : ModerationKind
+  /** the stored image – uploads and generated images */
+  assetId?: string
+  /** customer text, verbatim */
+  text?   : string
+  /** where it was seen, e.g. "upload", "variables:<placeholderId>", "basket:<token>" */
+  source  : string
+  session?: string
+}
+
+/** one review entry per image / text – the same content maps to the same doc */
+export const flagDocId = ({ assetId, text }: Pick<FlagSubject, 'assetId' | 'text'>) =>
+  `moderationFlag.${sha1(assetId ? `asset:${assetId}` : `text:${(text ?? '').trim()}`).slice(0, 32)}`
+
+/**
+ * Put flagged / blocked content in front of staff; allowed content is
+ * ignored.  An existing entry keeps its review status.  Returns the
+ * entry's id, or null when nothing was recorded.
+ */
+export async function recordFlag (result: ModerationResult, subject: FlagSubject): Promise<string | null> {
+  if (result.verdict === 'allow') return null
+
+  const _id = flagDocId(subject)
+  await sanity.createIfNotExists({
+    _id,
+    _type     : 'moderationFlag',
+    kind      : subject.kind,
+    verdict   : result.verdict,
+    status    : result.verdict === 'block' ? 'blocked' : 'pending',
+    categories: result.categories,
+    provider  : result.provider,
+    ...(result.reason    && { reason: result.reason }),
+    ...(subject.assetId  && { image: { _type: 'image', asset: { _type: 'reference', _ref: subject.assetId } } }),
+    ...(subject.text     && { text: subject.text.trim() }),
+    source    : subject.source,
+    ...(subject.session  && { session: subject.session }),
+    createdAt : new Date().toISOString(),
+  })
+  return _id
+}
+
+export const isFlagId = (id: string) => /^moderationFlag\.[0-9a-f]{32}$/.test(id)
+
+/** record staff's decision on a review entry (any Studio draft of it goes) */
+export async function decideFlag (id: string, status: 'approved' | 'rejected', by: string) {
+  await sanity
+    .transaction()
+    .patch(sanity.patch(id).set({ status, reviewedAt: new Date().toISOString(), reviewedBy: by }))
+    .delete(`drafts.${id}`)
+    .commit()
+}
+
+export interface HeldContent {
+  /** waiting for a decision */
+  pending : number
+  /** staff said no, or it was blocked outright */
+  rejected: number
+}
+
+/** how much of these images / texts may not be printed (yet) */
+export async function heldContent (
+  { assetIds = [], texts = [] }: { assetIds?: string[]; texts?: string[] },
+): Promise<HeldContent> {
+  const ids = [...new Set([
+    ...assetIds.map(assetId => flagDocId({ assetId })),
+    ...texts.filter(t => t.trim()).map(text => flagDocId({ text })),
+  ])]
+  if (!ids.length) return { pending: 0, rejected: 0 }
+
+  const statuses = await sanity.fetch<ModerationStatus[]>(
+    `*[_type == "moderationFlag" && _id in $ids].status`,
+    { ids },
+  )
+  return {
+    pending : statuses.filter(s => s === 'pending').length,
+    rejected: statuses.filter(s => s === 'rejected' || s === 'blocked').length,
+  }
+}
+
+/** every image asset and text in a page snapshot (Sanity-shaped layers) */
+export function pageContent (pages: any[] = []) {
+  const layers   = pages.flatMap(p => p?.layers ?? [])
+  const assetIds = layers.map(l => l?.src?.asset?._ref).filter((r): r is string => typeof r === 'string')
+  const texts    = layers
+    .filter(l => l?._type === 'editableText' && typeof l.text === 'string')
+    .map(l => l.text as string)
+  return { assetIds, texts }
+}
@@ -0,0 +1,81 @@
+/**********************************************************************
+ * lib/pageGeometry.ts – print geometry shared by editor & exporters
+ * --------------------------------------------------------------------
+ * Every layer coordinate is stored in true 300 DPI page pixels, with
+ * (0,0) at the top-left corner of the *bleed* box.  The browser canvas
+ * and the server-side PDF exporter both read their sizes from here so
+ * the two can never drift apart.
+ *
+ * 2025-06-20 • geometry now comes from the selected cardProduct (SKU);
+ *              the constants below are only the fallback size.
+ *********************************************************************/
+
+/* ---------- units ------------------------------------------------- */
+export const DPI = 300
+
+/** millimetres → page pixels */
+export const mm = (n: number) => (n / 25.4) * DPI
+
+/** page pixels → PDF points (1 pt = 1/72 inch) */
+export const pxToPt = (px: number) => (px / DPI) * 72
+
+/** millimetres → PDF points */
+export const mmToPt = (n: number) => (n / 25.4) * 72
+
+/** on-screen width of one page in the editor (CSS px) */
+export const PREVIEW_W = 420
+
+/* ---------- fallback card size ------------------------------------ */
+export const TRIM_W_MM = 150
+export const TRIM_H_MM = 214
+export const BLEED_MM  = 3
+
+export const PAGE_W = Math.round(mm(TRIM_W_MM + BLEED_MM * 2))
+export const PAGE_H = Math.round(mm(TRIM_H_MM + BLEED_MM * 2))
+
+/* ---------- per-SKU geometry -------------------------------------- */
+
+/** The print-spec fields every cardProduct carries */
+export interface ProductSpec {
+  trimWidthMm : number
+  trimHeightMm: number
+  pageCount   : number
+}
+
+export interface PageGeometry {
+  trimWmm  : number
+  trimHmm  : number
+  bleedMm  : number
+  /** full bleed-box size in page pixels */
+  pageW    : number
+  pageH    : number
+  pageCount: number
+}
+
+/** Geometry for a product; falls back to the 150 × 214 mm default */
+export function pageGeometry (spec?: Partial<ProductSpec> | null): PageGeometry {
+  const trimWmm = spec?.trimWidthMm  || TRIM_W_MM
+  const trimHmm = spec?.trimHeightMm || TRIM_H_MM
+  return {
+    trimWmm,
+    trimHmm,
+    bleedMm  : BLEED_MM,
+    pageW    : Math.round(mm(trimWmm + BLEED_MM * 2)),
+    pageH    : Math.round(mm(trimHmm + BLEED_MM * 2)),
+    pageCount: Math.min(4, Math.max(1, spec?.pageCount || 4)),
+  }
+}
+
+export const DEFAULT_GEOMETRY = pageGeometry()
+
+/**
+ * Which of the four template pages (front · inner-L · inner-R · back)
+ * a product actually prints.  Templates always carry all four.
+ */
+const PAGE_SETS: Record<number, number[]> = {
+  1: [0],
+  2: [0, 3],
+  3: [0, 2, 3],
+  4: [0, 1, 2, 3],
+}
+export const printedPages = (g: PageGeometry) => PAGE_SETS[g.pageCount] ?? PAGE_SETS[4]
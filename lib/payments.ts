@@ -0,0 +1,120 @@
+/**********************************************************************
+ * lib/payments.ts   (—SERVER-ONLY—)
+ * Pluggable payment provider
+ * --------------------------------------------------------------------
+ * Checkout only talks to the PaymentProvider interface; the concrete
+ * provider is picked by PAYMENT_PROVIDER (default "fake").
+ *
+ * fake – never leaves the process, so the whole purchase path can be
+ *        exercised offline.  FAKE_PAYMENT_OUTCOME picks what happens:
+ *          succeed   (default) paid immediately
+ *          decline   card declined
+ *          redirect  needs a "3-D Secure" hop via returnUrl first
+ *********************************************************************/
+import { randomBytes } from 'crypto'
+
+export type PaymentStatus = 'succeeded' | 'requires_action' | 'failed' | 'refunded'
+
+export interface PaymentRequest {
+  /** smallest currency unit (pence) */
+  amount     : number
+  currency   : 'GBP'
+  /** our own id – the basket token */
+  reference  : string
+  description: string
+  /** where the provider sends the shopper after an off-site step */
+  returnUrl  : string
+  /** the same key twice → the same payment, never a second charge */
+  idempotencyKey: string
+}
+
+export interface Payment {
+  id         : string
+  status     : PaymentStatus
+  amount     : number
+  currency   : string
+  reference  : string
+  /** present when status = requires_action */
+  redirectUrl?: string
+  /** human-readable reason when status = failed */
+  error?     : string
+}
+
+export interface PaymentProvider {
+  readonly name: string
+  createPayment (req: PaymentRequest): Promise<Payment>
+  /** re-read the authoritative status (never trust the return URL) */
+  getPayment    (id: string): Promise<Payment | null>
+  /** hand back the whole of a succeeded payment */
+  refundPayment (id: string): Promise<Payment>
+}
+
+/* ---------- fake provider ---------------------------------------- */
+/* on globalThis so every route bundle (and dev hot-reload) sees the same map */
+const fakePayments: Map<string, Payment> =
+  ((globalThis as any).__fakePayments ??= new Map<string, Payment>())
+const fakeByKey: Map<string, string> =
+  ((globalThis as any).__fakePaymentKeys ??= new Map<string, string>())
+
+const fakeProvider: PaymentProvider = {
+  name: 'fake',
+
+  async createPayment (req) {
+    const seen = fakePayments.get(fakeByKey.get(req.idempotencyKey) ?? '')
+    if (seen) return seen
+
+    const outcome = process.env.FAKE_PAYMENT_OUTCOME ?? 'succeed'
+    const id = `fake_${randomBytes(8).toString('hex')}`
+    const base = { id, amount: req.amount, currency: req.currency, reference: req.reference }
+
+    const payment: Payment =
+      outcome === 'decline'
+        ? { ...base, status: 'failed', error: 'Your card was declined (fake provider)' }
+      : outcome === 'redirect'
+        ? {
+            ...base,
+            status     : 'requires_action',
+            redirectUrl: `${req.returnUrl}${req.returnUrl.includes('?') ? '&' : '?'}payment=${id}`,
+          }
+      : { ...base, status: 'succeeded' }
+
+    fakePayments.set(id, payment)
+    fakeByKey.set(req.idempotencyKey, id)
+    return payment
+  },
+
+  async getPayment (id) {
+    const p = fakePayments.get(id)
+    if (!p) return null
+    /* the "3-D Secure" hop always passes once the shopper comes back */
+    if (p.status === 'requires_action') {
+      const done: Payment = { ...p, status: 'succeeded', redirectUrl: undefined }
+      fakePayments.set(id, done)
+      return done
+    }
+    return p
+  },
+
+  async refundPayment (id) {
+    const p = fakePayments.get(id)
+    if (!p) throw new Error(`Unknown payment ${id}`)
+    if (p.status !== 'succeeded' && p.status !== 'refunded') {
+      throw new Error(`Payment ${id} is ${p.status} – nothing to refund`)
+    }
+    const refunded: Payment = { ...p, status: 'refunded' }
+    fakePayments.set(id, refunded)
+    return refunded
+  },
+}
+
+/* ---------- registry --------------------------------------------- */
+const PROVIDERS: Record<string, PaymentProvider> = {
+  fake: fakeProvider,
+}
+
+export function getPaymentProvider (): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER ?? 'fake'
+  const provider = PROVIDERS[name]
+  if (!provider) throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`)
+  return provider
+}
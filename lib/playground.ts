@@ -0,0 +1,124 @@
+/**********************************************************************
+ * lib/playground.ts   (—SERVER-ONLY—)
+ * The Studio prompt playground's server half
+ * --------------------------------------------------------------------
+ *   playgroundOptions()   sample faces, providers and their prices
+ *   runPlaygroundCell()   one image: placeholder × revision × quality
+ *                         × provider, with sample faces as the selfies
+ *
+ * Cells go through the normal lib/variants pipeline – pre-flight,
+ * caches, ledger, asset upload – with VariantOverrides for quality and
+ * provider and a single slot.  Repeating a cell is a cache hit and
+ * costs nothing; `cents` says what a run actually spent.
+ *
+ * Sample faces are the files in public/sample-faces, so the Studio can
+ * show them from the site as well.
+ *
+ * Staff only (lib/staffAuth).  Each staff member's runs are their own
+ * ledger session, under the same daily caps as customers, and only
+ * the allow-listed qualities and providers can be picked:
+ *   PLAYGROUND_QUALITIES   default low,medium
+ *   PLAYGROUND_PROVIDERS   default openai,fake
+ *********************************************************************/
+import { promises as fs } from 'fs'
+import path               from 'path'
+
+import { sanity }         from '@/sanity/lib/client'
+import { UNIT_CENTS }     from '@/lib/budget'
+import { IMAGE_PROVIDERS, type ImageProviderName } from '@/lib/imageProviders'
+import { generateVariants, VariantError, type VariantOverrides } from '@/lib/variants'
+import type { PromptValues } from '@/lib/promptVariables'
+
+const FACES_DIR = path.join(process.cwd(), 'public', 'sample-faces')
+const FACE_EXT  = /\.(jpe?g|png|webp)$/i
+
+/** ledger session prefix – one session per staff member */
+export const PLAYGROUND_SESSION = 'studio-playground'
+
+export const playgroundSession = (staffId: string) => `${PLAYGROUND_SESSION}:${staffId}`
+
+type Quality = 'low' | 'medium' | 'high'
+
+/* an env list, narrowed to what exists */
+const allowList = <T extends string>(env: string | undefined, known: readonly T[], fallback: string): T[] =>
+  (env ?? fallback).split(',').map(s => s.trim()).filter((s): s is T => known.includes(s as T))
+
+export const PLAYGROUND_QUALITIES = allowList<Quality>(
+  process.env.PLAYGROUND_QUALITIES, ['low', 'medium', 'high'], 'low,medium')
+export const PLAYGROUND_PROVIDERS = allowList<ImageProviderName>(
+  process.env.PLAYGROUND_PROVIDERS, IMAGE_PROVIDERS, 'openai,fake')
+
+export interface PlaygroundCell {
+  placeholderId: string
+  /** sample face file names – one per face slot on multi-face placeholders */
+  faces        : string[]
+  /** default: the live revision */
+  revision?    : string
+  quality      : Quality
+  provider     : ImageProviderName
+  variables?   : PromptValues
+}
+
+export interface PlaygroundResult {
+  assetId: string
+  url    : string
+  /** what this run spent – 0 on a cache hit */
+  cents  : number
+}
+
+/* ---------- options ---------------------------------------------- */
+export async function listSampleFaces (): Promise<string[]> {
+  const names = await fs.readdir(FACES_DIR).catch(() => [] as string[])
+  return names.filter(n => FACE_EXT.test(n)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+}
+
+export async function playgroundOptions () {
+  return {
+    faces    : await listSampleFaces(),
+    providers: PLAYGROUND_PROVIDERS,
+    qualities: PLAYGROUND_QUALITIES,
+    unitCents: UNIT_CENTS,
+  }
+}
+
+/* ---------- one cell --------------------------------------------- */
+async function faceDataUrl (name: string) {
+  /* only names from the listing – never a path */
+  if (!(await listSampleFaces()).includes(name)) {
+    throw new VariantError(`Unknown sample face "${name}"`, 400)
+  }
+  const bytes = await fs.readFile(path.join(FACES_DIR, name))
+  const type  = name.toLowerCase().endsWith('.png') ? 'png' : name.toLowerCase().endsWith('.webp') ? 'webp' : 'jpeg'
+  return `data:image/${type};base64,${bytes.toString('base64')}`
+}
+
+/** draw one image for the grid; throws VariantError like the routes' generations */
+export async function runPlaygroundCell (cell: PlaygroundCell, session: string): Promise<PlaygroundResult> {
+  if (!cell.faces.length) throw new VariantError('Pick at least one sample face', 400)
+  if (!PLAYGROUND_QUALITIES.includes(cell.quality) || !PLAYGROUND_PROVIDERS.includes(cell.provider)) {
+    throw new VariantError('That quality / provider isn’t enabled for the playground', 400)
+  }
+
+  /* multi-face placeholders get the faces in slot order, round again if short */
+  const slotKeys: string[] = await sanity.fetch(
+    `coalesce(*[_type == "aiPlaceholder" && _id == $id][0].faceSlots[]._key, [])`,
+    { id: cell.placeholderId },
+  )
+  const photos = await Promise.all(cell.faces.map(faceDataUrl))
+  const selfie = slotKeys.length
+    ? { faces: Object.fromEntries(slotKeys.map((k, i) => [k, photos[i % photos.length]])) }
+    : { selfieBase64: photos[0] }
+
+  let cents = 0
+  const overrides: VariantOverrides = {
+    quality: cell.quality, provider: cell.provider, variants: 1, revision: cell.revision,
+  }
+  const [result] = await generateVariants(
+    { ...selfie, placeholderId: cell.placeholderId, variables: cell.variables },
+    session,
+    { onCost: c => { cents += c } },
+    overrides,
+  )
+  if (!result?.assetId || !result.url) throw new VariantError(result?.error ?? 'No image came back')
+  return { assetId: result.assetId, url: result.url, cents }
+}
@@ -0,0 +1,237 @@
+/**********************************************************************
+ * lib/preflight.ts   (—SERVER-ONLY—)
+ * Selfie quality checks – run before anything is spent on generation
+ * --------------------------------------------------------------------
+ *   checkSelfie(dataUrl, session) → { ok: true, png, faces }
+ *                                 | { ok: false, issue, message }
+ *
+ * In order, cheapest first:
+ *   unreadable   sharp can't decode it
+ *   low-res      shorter side under MIN_SIDE px
+ *   blurry       variance of the Laplacian under MIN_SHARPNESS
+ *   no-face      the detector found nobody
+ *   many-faces   …or more than one person – `faces` lets the drawer
+ *                offer to crop to one of them
+ *
+ * The photo is auto-oriented from EXIF first, and `png` is that
+ * upright copy – it is what the image providers get.
+ *
+ * Face detection is pluggable, picked by FACE_DETECTOR:
+ *   openai   gpt-4o-mini vision (OPENAI_API_KEY) – the default
+ *   http     POSTs { image: base64 } to FACE_DETECT_URL, expects
+ *            { faces: [{ x, y, w, h }] } (optional FACE_DETECT_TOKEN)
+ *   fake     one face in the middle – offline runs and the fake
+ *            image provider
+ * Detector answers are cached in KV per photo for a day; a paid call
+ * (openai) goes in the lib/budget ledger against the visitor.  If the
+ * detector is down the face check is skipped (ok, `faces` empty).
+ *********************************************************************/
+import OpenAI from 'openai'
+import crypto from 'crypto'
+import sharp  from 'sharp'
+
+import { KV } from '@/lib/kv'
+import { incCost } from '@/lib/budget'
+
+/** a face, as fractions (0-1) of the upright photo's width / height */
+export interface FaceBox {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export type PreflightIssue =
+  | { code: 'unreadable' }
+  | { code: 'low-res'; width: number; height: number; minSide: number }
+  | { code: 'blurry'; sharpness: number }
+  | { code: 'no-face' }
+  | { code: 'many-faces'; faces: FaceBox[] }
+
+export type PreflightResult =
+  | { ok: true; png: Buffer; width: number; height: number; faces: FaceBox[] }
+  | { ok: false; issue: PreflightIssue; message: string }
+
+const MIN_SIDE      = 400
+const MIN_SHARPNESS = 40
+const BLUR_PX       = 512            // sharpness is measured at this size
+const DETECT_PX     = 768            // what the detector gets to see
+const CACHE_SEC     = 60 * 60 * 24
+
+const cache = KV.namespace('preflight')
+
+/* ---------- visitor-facing wording -------------------------------- */
+export function issueMessage (issue: PreflightIssue): string {
+  switch (issue.code) {
+    case 'unreadable': return 'We couldn’t open that picture — try a JPEG or PNG.'
+    case 'low-res'   : return `That photo is quite small (${issue.width}×${issue.height}) — pick one at least ${issue.minSide} px on the short side.`
+    case 'blurry'    : return 'That photo looks blurry — try one that’s sharp and well-lit.'
+    case 'no-face'   : return 'We couldn’t find a face — pick a photo where your face is clearly visible.'
+    case 'many-faces': return `We found ${issue.faces.length} faces — pick one.`
+  }
+}
+
+/* ---------- sharpness --------------------------------------------- */
+/** variance of the 4-neighbour Laplacian on a greyscale thumbnail */
+async function sharpness (upright: Buffer) {
+  const { data, info } = await sharp(upright)
+    .greyscale()
+    .resize(BLUR_PX, BLUR_PX, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const { width: w, height: h } = info
+  let sum = 0, sumSq = 0, n = 0
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x
+      const lap = data[i - 1] + data[i + 1] + data[i - w] + data[i + w] - 4 * data[i]
+      sum += lap; sumSq += lap * lap; n++
+    }
+  }
+  return n ? sumSq / n - (sum / n) ** 2 : 0
+}
+
+/* ---------- detectors --------------------------------------------- */
+interface FaceDetector {
+  readonly name: string
+  /** billed per call – recorded as `facedetect` spend */
+  readonly paid: boolean
+  /** `jpeg` is upright and at most DETECT_PX on its long side */
+  detect (jpeg: Buffer): Promise<FaceBox[]>
+}
+
+const clamp01 = (n: unknown) => Math.min(1, Math.max(0, Number(n) || 0))
+const toBoxes = (faces: unknown): FaceBox[] =>
+  Array.isArray(faces)
+    ? faces.map((f: any) => ({ x: clamp01(f?.x), y: clamp01(f?.y), w: clamp01(f?.w), h: clamp01(f?.h) }))
+    : []
+
+let openaiClient: OpenAI | undefined
+const openaiDetector: FaceDetector = {
+  name: 'openai',
+  paid: true,
+  async detect (jpeg) {
+    openaiClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY, timeout: 1000 * 30 })
+    const res = await openaiClient.chat.completions.create({
+      model          : 'gpt-4o-mini',
+      response_format: { type: 'json_object' },
+      temperature    : 0,
+      messages       : [{
+        role   : 'user',
+        content: [
+          {
+            type: 'text',
+            text: 'Find every human face in this photo, including small or partly hidden ones but not faces on ' +
+                  'posters or screens. Answer only with JSON {"faces":[{"x":0,"y":0,"w":0,"h":0}]} – each box ' +
+                  'as fractions of the image width and height, x/y being the top-left corner.',
+          },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${jpeg.toString('base64')}`, detail: 'low' } },
+        ],
+      }],
+    })
+    return toBoxes(JSON.parse(res.choices[0]?.message?.content ?? '{}').faces)
+  },
+}
+
+const httpDetector: FaceDetector = {
+  name: 'http',
+  paid: false,
+  async detect (jpeg) {
+    const url = process.env.FACE_DETECT_URL
+    if (!url) throw new Error('FACE_DETECT_URL is not set')
+
+    const res = await fetch(url, {
+      method : 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(process.env.FACE_DETECT_TOKEN && {
+          authorization: `Bearer ${process.env.FACE_DETECT_TOKEN}`,
+        }),
+      },
+      body  : JSON.stringify({ image: jpeg.toString('base64') }),
+      signal: AbortSignal.timeout(1000 * 30),
+    })
+    if (!res.ok) throw new Error(`face detector ${res.status}: ${await res.text()}`)
+    return toBoxes((await res.json()).faces)
+  },
+}
+
+const fakeDetector: FaceDetector = {
+  name: 'fake',
+  paid: false,
+  async detect () {
+    return [{ x: 0.35, y: 0.2, w: 0.3, h: 0.4 }]
+  },
+}
+
+const DETECTORS: Record<string, FaceDetector> = {
+  openai: openaiDetector,
+  http  : httpDetector,
+  fake  : fakeDetector,
+}
+
+function getFaceDetector (): FaceDetector {
+  /* running the whole flow on the fake image provider implies offline */
+  const name = process.env.FACE_DETECTOR
+    ?? (process.env.IMAGE_PROVIDER_FORCE === 'fake' ? 'fake' : 'openai')
+  const detector = DETECTORS[name]
+  if (!detector) throw new Error(`Unknown FACE_DETECTOR "${name}"`)
+  return detector
+}
+
+/* ---------- the check --------------------------------------------- */
+const fail = (issue: PreflightIssue): PreflightResult => ({ ok: false, issue, message: issueMessage(issue) })
+
+/** Everything a selfie must pass before a provider sees it; `session`
+    is who a paid detector call is billed to */
+export async function checkSelfie (dataUrl: string, session: string): Promise<PreflightResult> {
+  const raw = Buffer.from(dataUrl.replace(/^data:image\/[\w+.-]+;base64,/, ''), 'base64')
+
+  /* 1 ▸ decode + EXIF auto-orient */
+  let upright: { data: Buffer; info: sharp.OutputInfo }
+  try {
+    upright = await sharp(raw).rotate().png().toBuffer({ resolveWithObject: true })
+  } catch {
+    return fail({ code: 'unreadable' })
+  }
+  const { data: png, info: { width, height } } = upright
+
+  /* 2 ▸ resolution */
+  if (Math.min(width, height) < MIN_SIDE) {
+    return fail({ code: 'low-res', width, height, minSide: MIN_SIDE })
+  }
+
+  /* 3 ▸ blur */
+  const score = await sharpness(png)
+  if (score < MIN_SHARPNESS) {
+    return fail({ code: 'blurry', sharpness: Math.round(score) })
+  }
+
+  /* 4 ▸ faces – one detector call per photo and detector */
+  const detector = getFaceDetector()
+  const key = `${detector.name}:${crypto.createHash('sha1').update(png).digest('hex')}`
+  let faces = await cache.get<FaceBox[]>(key)
+  if (!faces) {
+    const jpeg = await sharp(png)
+      .resize(DETECT_PX, DETECT_PX, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer()
+    try {
+      faces = await detector.detect(jpeg)
+    } catch (err) {
+      /* like the rate limiter: an outage shouldn't stop every selfie */
+      console.error(`[preflight] ${detector.name} detector failed – skipping the face check`, err)
+      return { ok: true, png, width, height, faces: [] }
+    }
+    await cache.set(key, faces, { ex: CACHE_SEC })
+    if (detector.paid) {
+      await incCost('facedetect', 1, { session, stage: 'preflight' })
+        .catch(err => console.error('[budget] ledger write failed', err))
+    }
+  }
+
+  if (!faces.length)    return fail({ code: 'no-face' })
+  if (faces.length > 1) return fail({ code: 'many-faces', faces })
+  return { ok: true, png, width, height, faces }
+}
@@ -0,0 +1,100 @@
+/**********************************************************************
+ * lib/printFonts.ts   (—SERVER-ONLY—)
+ * Map an editor `fontFamily` + weight/style to a real font file so the
+ * exporters can embed it.  Recoleta ships with the repo; anything else
+ * is looked up in PRINT_FONT_DIR as  <Family>-<Variant>.(otf|ttf), the
+ * family with everything but letters and digits dropped
+ *   e.g.  Georgia-Regular.ttf · OpenSans-BoldItalic.ttf
+ *********************************************************************/
+import { readFile }      from 'fs/promises'
+import path              from 'path'
+import { StandardFonts, type PDFFont } from 'pdf-lib'
+
+export type FontVariant = 'Regular' | 'Bold' | 'Italic' | 'BoldItalic'
+
+const APP_FONTS = path.join(process.cwd(), 'app', 'fonts')
+
+/** fonts we carry in the repo (family names are lower-cased) */
+const BUILT_IN: Record<string, Partial<Record<FontVariant, string>>> = {
+  recoleta: {
+    Regular: path.join(APP_FONTS, 'RecoletaRegular-9044842.otf'),
+    Bold   : path.join(APP_FONTS, 'RecoletaBold-9044848.otf'),
+  },
+}
+
+/** editor weight / style → one of the four variants we look for */
+export function fontVariant (
+  weight?: string | number,
+  style ?: string,
+): FontVariant {
+  const bold   = weight === 'bold' || Number(weight) >= 600
+  const italic = style === 'italic' || style === 'oblique'
+  return bold && italic ? 'BoldItalic' : bold ? 'Bold' : italic ? 'Italic' : 'Regular'
+}
+
+/** PDF standard-14 stand-in when no font file is available */
+export function standardFace (family = '', v: FontVariant): StandardFonts {
+  const f = family.toLowerCase()
+  const serif = /georgia|times|serif|recoleta/.test(f) && !f.includes('sans')
+  const mono  = /mono|courier/.test(f)
+  const table = mono
+    ? { Regular: StandardFonts.Courier,   Bold: StandardFonts.CourierBold,   Italic: StandardFonts.CourierOblique,   BoldItalic: StandardFonts.CourierBoldOblique }
+    : serif
+    ? { Regular: StandardFonts.TimesRoman, Bold: StandardFonts.TimesRomanBold, Italic: StandardFonts.TimesRomanItalic, BoldItalic: StandardFonts.TimesRomanBoldItalic }
+    : { Regular: StandardFonts.Helvetica, Bold: StandardFonts.HelveticaBold, Italic: StandardFonts.HelveticaOblique, BoldItalic: StandardFonts.HelveticaBoldOblique }
+  return table[v]
+}
+
+const charSets = new WeakMap<PDFFont, Set<number>>()
+
+/**
+ * `text` without the characters `font` can't encode, line breaks kept.
+ * The standard faces only speak WinAnsi and pdf-lib throws on anything
+ * else (emoji, CJK …) – better a missing glyph than no print file.
+ */
+export function encodableText (font: PDFFont, text: string): string {
+  let known = charSets.get(font)
+  if (!known) charSets.set(font, known = new Set(font.getCharacterSet()))
+  return Array.from(text).filter(c => c === '\n' || known!.has(c.codePointAt(0)!)).join('')
+}
+
+const cache = new Map<string, Promise<Uint8Array | null>>()
+
+/**
+ * Bytes of the best matching font file, or `null` when we have none –
+ * callers then fall back to a standard face and log a warning.
+ */
+export function loadFontFile (
+  family : string | undefined,
+  variant: FontVariant,
+): Promise<Uint8Array | null> {
+  const fam = (family ?? '').trim()
+  const key = `${fam.toLowerCase()}:${variant}`
+  if (!cache.has(key)) cache.set(key, findFontFile(fam, variant))
+  return cache.get(key)!
+}
+
+async function findFontFile (family: string, variant: FontVariant) {
+  const builtIn = BUILT_IN[family.toLowerCase()]
+  /* the family comes from the template – never let it leave the dir */
+  const file = family.replace(/[^A-Za-z0-9]/g, '')
+  const candidates = [
+    builtIn?.[variant],
+    builtIn?.Regular,
+    ...(process.env.PRINT_FONT_DIR && file
+      ? ['otf', 'ttf'].flatMap(ext => [
+          path.join(process.env.PRINT_FONT_DIR!, `${file}-${variant}.${ext}`),
+          path.join(process.env.PRINT_FONT_DIR!, `${file}-Regular.${ext}`),
+        ])
+      : []),
+  ].filter(Boolean) as string[]
+
+  for (const file of candidates) {
+    try {
+      return new Uint8Array(await readFile(file))
+    } catch {
+      /* try the next one */
+    }
+  }
+  return null
+}
@@ -0,0 +1,204 @@
+/**********************************************************************
+ * lib/printPdf.ts   (—SERVER-ONLY—)
+ * TemplatePage[] → multi-page, print-ready PDF
+ * --------------------------------------------------------------------
+ * • one PDF page per card page (front · inner-L · inner-R · back)
+ * • MediaBox = bleed box + optional slug for crop marks
+ * • TrimBox / BleedBox set so RIPs know where to cut
+ * • fonts embedded (subset) whenever we have the file – see printFonts
+ * • images placed at their native resolution, cropped + flipped
+ *********************************************************************/
+import {
+  PDFDocument,
+  rgb,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  type PDFFont,
+  type PDFPage,
+  type RGB,
+} from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+
+import type { Layer, TemplatePage } from '@/app/components/FabricCanvas'
+import { pageLayers }               from '@/app/library/layerAdapters'
+import { layoutText }               from '@/lib/textLayout'
+import { loadLayerBitmap }          from '@/lib/layerImages'
+import {
+  encodableText, loadFontFile, fontVariant, standardFace,
+} from '@/lib/printFonts'
+import {
+  DEFAULT_GEOMETRY, printedPages, pxToPt, mmToPt,
+  type PageGeometry,
+} from '@/lib/pageGeometry'
+
+export interface PrintOptions {
+  /** page size + page count of the SKU being printed */
+  geometry? : PageGeometry
+  /** draw trim marks in a slug around the bleed (default true) */
+  cropMarks?: boolean
+  /** document title written into the PDF metadata */
+  title?    : string
+}
+
+/* ---------- crop-mark geometry (mm) ------------------------------ */
+const SLUG_MM     = 10     // margin outside the bleed that holds marks
+const MARK_GAP_MM = 2      // space between bleed edge and mark
+const MARK_LEN_MM = 6
+const MARK_WEIGHT = 0.25   // pt – hairline
+
+/* ---------- helpers ---------------------------------------------- */
+const K = pxToPt(1)        // page pixel → point
+
+const toRgb = (c = '#000'): RGB => {
+  const h = c.length === 4
+    ? `#${c[1]}${c[1]}${c[2]}${c[2]}${c[3]}${c[3]}`
+    : c
+  const m = /^#([0-9a-f]{6})$/i.exec(h)
+  if (!m) return rgb(0, 0, 0)
+  const n = parseInt(m[1], 16)
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255)
+}
+
+/* ================================================================== */
+/* main export                                                         */
+/* ================================================================== */
+export async function renderPrintPdf (
+  pages: TemplatePage[],
+  { cropMarks = true, title = 'Greeting card', geometry: g = DEFAULT_GEOMETRY }: PrintOptions = {},
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.registerFontkit(fontkit)
+  doc.setTitle(title)
+  doc.setProducer('get-card print export')
+  doc.setCreationDate(new Date())
+
+  /* one embedded font per family+variant, shared by every page */
+  const fonts = new Map<string, Promise<PDFFont>>()
+  const fontFor = (ly: Layer) => {
+    const v   = fontVariant(ly.fontWeight, ly.fontStyle)
+    const key = `${ly.fontFamily ?? ''}:${v}`
+    if (!fonts.has(key)) {
+      fonts.set(key, (async () => {
+        const bytes = await loadFontFile(ly.fontFamily, v)
+        if (bytes) return doc.embedFont(bytes, { subset: true })
+        console.warn(`[print] no font file for “${ly.fontFamily}” ${v} – using a standard face`)
+        return doc.embedFont(standardFace(ly.fontFamily, v))
+      })())
+    }
+    return fonts.get(key)!
+  }
+
+  const slug  = cropMarks ? mmToPt(SLUG_MM) : 0
+  const bleed = mmToPt(g.bleedMm)
+  const bleedW = g.pageW * K
+  const bleedH = g.pageH * K
+
+  /* only the pages this SKU prints, in template order */
+  for (const tplPage of printedPages(g).map(i => pages[i]).filter(Boolean)) {
+    const page = doc.addPage([bleedW + slug * 2, bleedH + slug * 2])
+    page.setBleedBox(slug, slug, bleedW, bleedH)
+    page.setTrimBox(slug + bleed, slug + bleed, bleedW - bleed * 2, bleedH - bleed * 2)
+
+    /* same white backdrop the editor shows */
+    page.drawRectangle({ x: slug, y: slug, width: bleedW, height: bleedH, color: rgb(1, 1, 1) })
+
+    /* layers[0] is the top-most → paint from the end */
+    const layers = pageLayers(tplPage)
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const ly = layers[i]
+      if (ly.type === 'image') await drawImageLayer(doc, page, ly, slug, g)
+      if (ly.type === 'text' && ly.text) await drawTextLayer(page, ly, await fontFor(ly), slug, g)
+    }
+
+    if (cropMarks) drawCropMarks(page, slug, bleed)
+  }
+
+  return doc.save()
+}
+
+/* ---------- images ----------------------------------------------- */
+async function drawImageLayer (
+  doc : PDFDocument,
+  page: PDFPage,
+  ly  : Layer,
+  slug: number,
+  g   : PageGeometry,
+) {
+  const bmp = await loadLayerBitmap(ly, g)
+  if (!bmp) return
+
+  const img = await doc.embedPng(bmp.png)
+  page.drawImage(img, {
+    x      : slug + bmp.x * K,
+    y      : page.getHeight() - slug - (bmp.y + bmp.height) * K,
+    width  : bmp.width  * K,
+    height : bmp.height * K,
+    opacity: ly.opacity ?? 1,
+  })
+}
+
+/* ---------- text ------------------------------------------------- */
+async function drawTextLayer (
+  page: PDFPage,
+  ly  : Layer,
+  font: PDFFont,
+  slug: number,
+  g   : PageGeometry,
+) {
+  const text   = encodableText(font, ly.text ?? '')
+  const layout = layoutText({ ...ly, text }, (t, size) => font.widthOfTextAtSize(t, size), g)
+  const color  = toRgb(ly.fill)
+  const opacity = ly.opacity ?? 1
+
+  /* work in the layer's own pixel space: origin = its top-left,
+     y grows *up*, so every baseline is drawn at a negative y        */
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(
+      K * (ly.scaleX ?? 1), 0, 0, K * (ly.scaleY ?? 1),
+      slug + ly.x * K,
+      page.getHeight() - slug - ly.y * K,
+    ),
+  )
+
+  for (const line of layout.lines) {
+    if (!line.text) continue
+    page.drawText(line.text, {
+      x: line.x, y: -line.baseline, size: layout.fontSize, font, color, opacity,
+    })
+    if (ly.underline) {
+      page.drawRectangle({
+        x: line.x,
+        y: -(line.baseline + layout.underlineY) - layout.underlineW,
+        width : line.width,
+        height: layout.underlineW,
+        color, opacity,
+      })
+    }
+  }
+
+  page.pushOperators(popGraphicsState())
+}
+
+/* ---------- crop marks ------------------------------------------- */
+function drawCropMarks (page: PDFPage, slug: number, bleed: number) {
+  const W = page.getWidth(), H = page.getHeight()
+  const gap = mmToPt(MARK_GAP_MM), len = mmToPt(MARK_LEN_MM)
+  const black = rgb(0, 0, 0)
+
+  const trimL = slug + bleed, trimR = W - slug - bleed
+  const trimB = slug + bleed, trimT = H - slug - bleed
+
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    page.drawLine({ start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, thickness: MARK_WEIGHT, color: black })
+
+  for (const y of [trimB, trimT]) {
+    line(slug - gap - len, y, slug - gap, y)           // left
+    line(W - slug + gap, y, W - slug + gap + len, y)   // right
+  }
+  for (const x of [trimL, trimR]) {
+    line(x, slug - gap - len, x, slug - gap)           // bottom
+    line(x, H - slug + gap, x, H - slug + gap + len)   // top
+  }
+}
@@ -0,0 +1,88 @@
+/**********************************************************************
+ * lib/printProviders.ts   (—SERVER-ONLY—)
+ * Pluggable hand-off to the print lab
+ * --------------------------------------------------------------------
+ * Fulfilment only talks to the PrintProvider interface; the concrete
+ * provider is picked by PRINT_PROVIDER (default "fake").
+ *
+ * fake     logs the job – nothing leaves the machine
+ * webhook  POSTs the job as JSON to PRINT_WEBHOOK_URL
+ *          (optional bearer token in PRINT_WEBHOOK_TOKEN)
+ *
+ * Every job carries an idempotency key – the same key for retries of
+ * one print run, a new one only for a staff-confirmed reprint – so a
+ * lab that already has the job doesn't print it twice.
+ *********************************************************************/
+import type { Recipient } from '@/lib/delivery'
+
+export interface PrintJobItem {
+  /** order item _key – echo it back when reporting shipment */
+  key         : string
+  printFileUrl: string
+  quantity    : number
+  productTitle: string
+  recipient?  : Recipient
+  deliveryDate?: string
+}
+
+export interface PrintJob {
+  orderId       : string
+  orderNumber   : string
+  /** `<orderId>:<printRun>` – sent as the Idempotency-Key header too */
+  idempotencyKey: string
+  items         : PrintJobItem[]
+}
+
+export interface PrintProvider {
+  readonly name: string
+  /** resolves with the lab's job reference */
+  submit (job: PrintJob): Promise<string>
+}
+
+/* ---------- fake -------------------------------------------------- */
+const fakeProvider: PrintProvider = {
+  name: 'fake',
+  async submit (job) {
+    console.log(`[print:fake] ${job.orderNumber} (${job.idempotencyKey}) → ${job.items.length} item(s)`,
+      job.items.map(i => i.printFileUrl))
+    return `fake-${job.orderNumber}`
+  },
+}
+
+/* ---------- webhook ----------------------------------------------- */
+const webhookProvider: PrintProvider = {
+  name: 'webhook',
+  async submit (job) {
+    const url = process.env.PRINT_WEBHOOK_URL
+    if (!url) throw new Error('PRINT_WEBHOOK_URL is not set')
+
+    const res = await fetch(url, {
+      method : 'POST',
+      headers: {
+        'content-type'   : 'application/json',
+        'idempotency-key': job.idempotencyKey,
+        ...(process.env.PRINT_WEBHOOK_TOKEN && {
+          authorization: `Bearer ${process.env.PRINT_WEBHOOK_TOKEN}`,
+        }),
+      },
+      body: JSON.stringify(job),
+    })
+    if (!res.ok) throw new Error(`print webhook ${res.status}: ${await res.text()}`)
+
+    const json = await res.json().catch(() => ({}))
+    return String(json.id ?? json.jobId ?? job.orderNumber)
+  },
+}
+
+/* ---------- registry --------------------------------------------- */
+const PROVIDERS: Record<string, PrintProvider> = {
+  fake   : fakeProvider,
+  webhook: webhookProvider,
+}
+
+export function getPrintProvider (): PrintProvider {
+  const name = process.env.PRINT_PROVIDER ?? 'fake'
+  const provider = PROVIDERS[name]
+  if (!provider) throw new Error(`Unknown PRINT_PROVIDER "${name}"`)
+  return provider
+}
@@ -0,0 +1,101 @@
+/**********************************************************************
+ * lib/promptVariables.ts
+ * Customer-filled variables in aiPlaceholder prompts
+ * --------------------------------------------------------------------
+ *   "Render {{name}} as a {{style}} astronaut, age {{age}}"
+ *
+ * Staff declare each variable on the placeholder (type, default,
+ * options); the customer fills them in SelfieDrawer.  The server is
+ * the authority: getPromptForPlaceholder resolves the submitted values
+ * against the declarations and interpolates them, and lib/variants
+ * puts the resolved values into its fingerprint.
+ *
+ *   text     free text – trimmed, single-line, at most maxLength chars
+ *   number   finite, inside min / max when set
+ *   select   one of `options`
+ *
+ * A blank value falls back to the default; a variable with neither is
+ * required.  {{tags}} that aren't declared variables (face slots, say)
+ * are left for whoever comes next.
+ *
+ * No server-only imports – the drawer validates with the same rules.
+ *********************************************************************/
+
+export type PromptVariableType = 'text' | 'number' | 'select'
+
+/** a variable as declared on the aiPlaceholder */
+export interface PromptVariable {
+  name      : string
+  label?    : string
+  type      : PromptVariableType
+  default?  : string
+  /** select only */
+  options?  : string[]
+  /** number only */
+  min?      : number
+  max?      : number
+  /** text only – TEXT_MAX when unset */
+  maxLength?: number
+}
+
+/** variable name → value, as the customer typed / picked it */
+export type PromptValues = Record<string, string>
+
+export type ResolvedVariables =
+  | { ok: true; values: PromptValues }
+  | { ok: false; error: string; name: string }
+
+export const TEXT_MAX      = 40
+export const VARIABLE_NAME = /^[a-z][a-z0-9_]*$/i
+
+/** thrown by getPromptForPlaceholder – the routes answer 400 with it */
+export class PromptVariableError extends Error {
+  constructor (message: string, readonly variable: string) { super(message) }
+}
+
+export const variableLabel = (v: PromptVariable) => v.label || v.name
+
+/** one variable's canonical value, or the visitor-facing problem */
+function resolveOne (v: PromptVariable, raw: string | undefined): { value: string } | { error: string } {
+  const label = variableLabel(v)
+  const given = (raw ?? '').replace(/\s+/g, ' ').trim()
+  const value = given || (v.default ?? '').trim()
+  if (!value) return { error: `Please fill in “${label}”.` }
+
+  switch (v.type) {
+    case 'number': {
+      const n = Number(value)
+      if (!Number.isFinite(n))                 return { error: `“${label}” must be a number.` }
+      if (v.min !== undefined && n < v.min)    return { error: `“${label}” must be at least ${v.min}.` }
+      if (v.max !== undefined && n > v.max)    return { error: `“${label}” must be at most ${v.max}.` }
+      return { value: String(n) }
+    }
+    case 'select':
+      return v.options?.includes(value)
+        ? { value }
+        : { error: `Please pick one of the options for “${label}”.` }
+    default: {
+      const max = v.maxLength ?? TEXT_MAX
+      if (value.length > max)                  return { error: `“${label}” can be at most ${max} characters.` }
+      if (/[{}]/.test(value))                  return { error: `“${label}” can’t contain { or }.` }
+      return { value }
+    }
+  }
+}
+
+/** the submitted values checked against the declarations – undeclared
+    keys are dropped, blanks take their default */
+export function resolveVariables (declared: PromptVariable[], given: PromptValues = {}): ResolvedVariables {
+  const values: PromptValues = {}
+  for (const v of declared) {
+    const r = resolveOne(v, given[v.name])
+    if ('error' in r) return { ok: false, error: r.error, name: v.name }
+    values[v.name] = r.value
+  }
+  return { ok: true, values }
+}
+
+/** {{name}} → its value; tags that aren't in `values` stay as they are */
+export const interpolate = (prompt: string, values: PromptValues) =>
+  prompt.replace(/\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi, (tag, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : tag)
@@ -0,0 +1,142 @@
+/**********************************************************************
+ * lib/rateLimit.ts   (—SERVER-ONLY—)
+ * Per-route rate limits for route handlers
+ * --------------------------------------------------------------------
+ *   export const POST = withRateLimit(VARIANTS_LIMIT, handler)
+ *
+ * Every request is counted twice – once against the client IP and
+ * once against the lib/session cookie – and must be under every window
+ * of the rule for both.  Clearing cookies therefore doesn't help a
+ * bot, and a busy office behind one IP gets its own per-visitor room.
+ * The IP is the platform's req.ip, or the X-Forwarded-For hop added
+ * by our own proxy (TRUSTED_PROXY_HOPS, default 1) – never a hop the
+ * client could have written.
+ *
+ * Windows are sliding (two fixed buckets, the previous one weighted by
+ * how much of it still overlaps), counted with KV.incr so the limits
+ * hold across instances whenever KV_DRIVER is shared storage.  A short
+ * window next to a long one is the burst allowance: e.g. 3 a minute,
+ * but no more than 20 an hour.
+ *
+ * Over the limit → 429 { error } with Retry-After (seconds).  Requests
+ * made while limited still count, so hammering keeps you limited.
+ *********************************************************************/
+import { NextRequest, NextResponse } from 'next/server'
+import { KV } from '@/lib/kv'
+import { sessionId } from '@/lib/session'
+
+export interface RateWindow {
+  /** requests allowed … */
+  limit    : number
+  /** … per this many seconds */
+  windowSec: number
+}
+
+export interface RateLimitRule {
+  /** counter namespace – one per route */
+  name   : string
+  windows: RateWindow[]
+  /** the IP allowance, if it should differ from the per-session one */
+  ipWindows?: RateWindow[]
+}
+
+export interface RateLimitResult {
+  ok        : boolean
+  /** seconds until the tightest exceeded window lets a request through */
+  retryAfter: number
+  /** the window that tripped, for the response headers */
+  window?   : RateWindow
+}
+
+const counters = KV.namespace('ratelimit')
+
+/* ---------- client identity --------------------------------------- */
+/* proxies we run behind – each appends the address it saw to
+   X-Forwarded-For, so only the last this-many hops are theirs */
+const TRUSTED_PROXY_HOPS = Math.max(0, Number(process.env.TRUSTED_PROXY_HOPS ?? 1) || 0)
+
+/**
+ * The platform's own client address (req.ip on Vercel), else the hop
+ * our nearest trusted proxy recorded.  Earlier X-Forwarded-For hops
+ * are whatever the client sent and never used.
+ */
+export function clientIp(req: NextRequest): string {
+  if (req.ip) return req.ip
+  if (!TRUSTED_PROXY_HOPS) return 'unknown'
+  const hops = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',').map(h => h.trim()).filter(Boolean)
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || 'unknown'
+}
+
+/* ---------- one sliding window ------------------------------------ */
+async function hit(key: string, { limit, windowSec }: RateWindow) {
+  const now     = Date.now() / 1000
+  const bucket  = Math.floor(now / windowSec)
+  const elapsed = now - bucket * windowSec                 // into this bucket
+
+  const [cur, prev] = await Promise.all([
+    counters.incr(`${key}:${windowSec}:${bucket}`, { ex: windowSec * 2 }),
+    counters.get<number>(`${key}:${windowSec}:${bucket - 1}`).then(n => n ?? 0),
+  ])
+
+  const overlap = 1 - elapsed / windowSec
+  if (prev * overlap + cur <= limit) return 0
+
+  /* how long until one more request (it counts too) would fit? */
+  const wait = cur >= limit
+    /* this bucket is full: it becomes "previous" and has to fade */
+    ? windowSec - elapsed + windowSec * Math.max(0, 1 - (limit - 1) / cur)
+    /* room in this bucket once the previous one has faded enough */
+    : windowSec * (1 - (limit - cur - 1) / prev) - elapsed
+  return Math.max(1, Math.ceil(wait))
+}
+
+/* ---------- check ------------------------------------------------- */
+export async function checkRateLimit(
+  rule: RateLimitRule,
+  ip  : string,
+  session: string,
+): Promise<RateLimitResult> {
+  const checks = [
+    ...(rule.ipWindows ?? rule.windows).map(w => ({ key: `${rule.name}:ip:${ip}`, w })),
+    ...rule.windows.map(w => ({ key: `${rule.name}:sid:${session}`, w })),
+  ]
+  const waits = await Promise.all(checks.map(c => hit(c.key, c.w)))
+
+  let worst = -1
+  waits.forEach((s, i) => { if (s > 0 && (worst < 0 || s > waits[worst])) worst = i })
+  return worst < 0
+    ? { ok: true, retryAfter: 0 }
+    : { ok: false, retryAfter: waits[worst], window: checks[worst].w }
+}
+
+/* ---------- route wrapper ----------------------------------------- */
+type Handler<C> = (req: NextRequest, ctx: C) => Promise<Response> | Response
+
+export function withRateLimit<C = unknown>(rule: RateLimitRule, handler: Handler<C>): Handler<C> {
+  return async (req, ctx) => {
+    let res: RateLimitResult
+    try {
+      res = await checkRateLimit(rule, clientIp(req), sessionId())
+    } catch (err) {
+      /* a KV outage shouldn't take the route down with it */
+      console.error(`[rate-limit] ${rule.name} check failed – letting request through`, err)
+      return handler(req, ctx)
+    }
+
+    if (!res.ok) {
+      const w = res.window!
+      return NextResponse.json(
+        { error: `Too many requests – please try again in ${res.retryAfter} s` },
+        {
+          status : 429,
+          headers: {
+            'Retry-After'      : String(res.retryAfter),
+            'RateLimit-Policy' : `${w.limit};w=${w.windowSec}`,
+          },
+        },
+      )
+    }
+    return handler(req, ctx)
+  }
+}
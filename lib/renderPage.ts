@@ -0,0 +1,184 @@
+/**********************************************************************
+ * lib/renderPage.ts   (—SERVER-ONLY—)
+ * TemplatePage → PNG / JPEG, headless, at any resolution
+ * --------------------------------------------------------------------
+ * Reproduces what FabricCanvas paints in the browser, straight from
+ * the stored layers, so covers, proofs and e-mails no longer depend on
+ * whatever the editor last had on screen.
+ *
+ *   layers ──► one SVG in page-pixel space ──► sharp (librsvg) ──► bitmap
+ *
+ * • images   full-res bytes, cropped + flipped by layerImages
+ * • text     laid out by textLayout (Fabric's wrapping maths) and drawn
+ *            as glyph outlines, so no system fonts are involved
+ * • fonts we have no file for fall back to an SVG <text> run
+ *********************************************************************/
+import sharp                          from 'sharp'
+import fontkit, { type Font }          from '@pdf-lib/fontkit'
+import { PDFDocument, type PDFFont }   from 'pdf-lib'
+
+import type { Layer, TemplatePage } from '@/app/components/FabricCanvas'
+import { pageLayers }               from '@/app/library/layerAdapters'
+import { layoutText, type MeasureFn } from '@/lib/textLayout'
+import { loadLayerBitmap }          from '@/lib/layerImages'
+import {
+  encodableText, loadFontFile, fontVariant, standardFace,
+} from '@/lib/printFonts'
+import { DEFAULT_GEOMETRY, type PageGeometry } from '@/lib/pageGeometry'
+
+export interface RenderOptions {
+  /** page size of the SKU (default 150 × 214 mm + bleed) */
+  geometry?: PageGeometry
+  /** output width in px – height follows the page ratio (default: 300 DPI) */
+  width?   : number
+  format?  : 'png' | 'jpeg'
+  /** JPEG quality 1-100 (default 85) */
+  quality? : number
+}
+
+/* ---------- helpers ---------------------------------------------- */
+const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/* layer values come from customers' baskets – only colour syntax goes
+   into an attribute, anything else prints black */
+const COLOUR = /^(#[0-9a-f]{3,8}|[a-z]+|(rgb|hsl)a?\([\d\s.,%deg]+\))$/i
+
+const hex = (c: unknown = '#000') => {
+  if (typeof c !== 'string' || !COLOUR.test(c.trim())) return '#000'
+  const s = c.trim().toLowerCase()
+  return s.length === 4 ? `#${s[1]}${s[1]}${s[2]}${s[2]}${s[3]}${s[3]}` : s
+}
+
+/** a finite number for an attribute – `or` for anything else */
+const num = (n: unknown, or = 0) => {
+  const v = Number(n)
+  return Number.isFinite(v) ? +v.toFixed(3) : or
+}
+
+/* ---------- fonts ------------------------------------------------- */
+type Face =
+  | { kind: 'outline'; font: Font }
+  | { kind: 'fallback'; font: PDFFont }
+
+const faces = new Map<string, Promise<Face>>()
+let metricsDoc: Promise<PDFDocument> | null = null
+
+/** outline font when we have the file, standard-14 metrics otherwise */
+function faceFor (ly: Layer): Promise<Face> {
+  const v   = fontVariant(ly.fontWeight, ly.fontStyle)
+  const key = `${ly.fontFamily ?? ''}:${v}`
+  if (!faces.has(key)) {
+    faces.set(key, (async (): Promise<Face> => {
+      const bytes = await loadFontFile(ly.fontFamily, v)
+      if (bytes) return { kind: 'outline', font: fontkit.create(bytes) }
+
+      console.warn(`[render] no font file for “${ly.fontFamily}” ${v} – using system text`)
+      metricsDoc ??= PDFDocument.create()
+      const doc = await metricsDoc
+      return { kind: 'fallback', font: await doc.embedFont(standardFace(ly.fontFamily, v)) }
+    })())
+  }
+  return faces.get(key)!
+}
+
+const measureWith = (face: Face): MeasureFn =>
+  face.kind === 'outline'
+    ? (t, size) => face.font.layout(t).advanceWidth * size / face.font.unitsPerEm
+    : (t, size) => face.font.widthOfTextAtSize(encodableText(face.font, t), size)
+
+/* ---------- layers → SVG fragments ------------------------------- */
+async function imageSvg (ly: Layer, g: PageGeometry): Promise<string> {
+  const bmp = await loadLayerBitmap(ly, g)
+  if (!bmp) return ''
+
+  return `<image x="${num(bmp.x)}" y="${num(bmp.y)}" width="${num(bmp.width)}" height="${num(bmp.height)}"`
+    + ` opacity="${num(ly.opacity ?? 1, 1)}" preserveAspectRatio="none"`
+    + ` xlink:href="data:image/png;base64,${bmp.png.toString('base64')}"/>`
+}
+
+async function textSvg (ly: Layer, g: PageGeometry): Promise<string> {
+  const face   = await faceFor(ly)
+  const layout = layoutText(ly, measureWith(face), g)
+  const fill   = hex(ly.fill ?? '#000')
+  const parts: string[] = []
+
+  for (const line of layout.lines) {
+    if (!line.text) continue
+
+    if (face.kind === 'outline') {
+      /* one path per glyph – font units, y up → page pixels, y down */
+      const k   = layout.fontSize / face.font.unitsPerEm
+      const run = face.font.layout(line.text)
+      let pen = line.x
+      run.glyphs.forEach((glyph, i) => {
+        const pos = run.positions[i]
+        const d   = glyph.path.toSVG()
+        if (d) {
+          parts.push(
+            `<path transform="translate(${num(pen + pos.xOffset * k)} ${num(line.baseline - pos.yOffset * k)}) scale(${num(k)} ${num(-k)})" d="${d}"/>`,
+          )
+        }
+        pen += pos.xAdvance * k
+      })
+    } else {
+      parts.push(
+        `<text x="${num(line.x)}" y="${num(line.baseline)}" xml:space="preserve"`
+        + ` font-family="${esc(ly.fontFamily ?? 'Arial')}" font-size="${num(layout.fontSize)}"`
+        + ` font-weight="${esc(String(ly.fontWeight ?? 'normal'))}" font-style="${esc(ly.fontStyle || 'normal')}">`
+        + `${esc(line.text)}</text>`,
+      )
+    }
+
+    if (ly.underline) {
+      parts.push(
+        `<rect x="${num(line.x)}" y="${num(line.baseline + layout.underlineY)}" width="${num(line.width)}" height="${num(layout.underlineW)}"/>`,
+      )
+    }
+  }
+
+  return `<g transform="translate(${num(ly.x ?? 0)} ${num(ly.y ?? 0)}) scale(${num(ly.scaleX ?? 1, 1)} ${num(ly.scaleY ?? 1, 1)})"`
+    + ` fill="${fill}" opacity="${num(ly.opacity ?? 1, 1)}">${parts.join('')}</g>`
+}
+
+/* ================================================================== */
+/* main exports                                                        */
+/* ================================================================== */
+
+/** The page as an SVG document in page-pixel coordinates */
+export async function renderPageSvg (
+  page: TemplatePage,
+  g   : PageGeometry = DEFAULT_GEOMETRY,
+  outW: number = g.pageW,
+): Promise<string> {
+  const outH = Math.round(outW * g.pageH / g.pageW)
+
+  /* layers[0] is the top-most → paint from the end */
+  const layers = pageLayers(page)
+  const body: string[] = []
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const ly = layers[i]
+    if (ly.type === 'image' && (ly.src || ly.srcUrl || ly.assetId)) body.push(await imageSvg(ly, g))
+    if (ly.type === 'text'  && ly.text) body.push(await textSvg(ly, g))
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"`
+    + ` width="${outW}" height="${outH}" viewBox="0 0 ${g.pageW} ${g.pageH}">`
+    + `<rect width="${g.pageW}" height="${g.pageH}" fill="#fff"/>`   // same backdrop as the editor
+    + body.join('')
+    + `</svg>`
+}
+
+/** Rasterise one page – full 300 DPI bleed box unless `width` is given */
+export async function renderPage (
+  page: TemplatePage,
+  { geometry = DEFAULT_GEOMETRY, width, format = 'png', quality = 85 }: RenderOptions = {},
+): Promise<Buffer> {
+  const outW = Math.max(1, Math.round(width ?? geometry.pageW))
+  const svg  = await renderPageSvg(page, geometry, outW)
+
+  const img = sharp(Buffer.from(svg), { limitInputPixels: false }).flatten({ background: '#fff' })
+  return format === 'jpeg'
+    ? img.jpeg({ quality, mozjpeg: true }).toBuffer()
+    : img.png().toBuffer()
+}
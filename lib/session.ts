@@ -0,0 +1,33 @@
+/**********************************************************************
+ * lib/session.ts   (—SERVER-ONLY—)
+ * Anonymous visitor id for per-visitor limits and spend
+ * --------------------------------------------------------------------
+ * There are no customer accounts, so "user" means "browser": a random
+ * token in an http-only cookie, minted on first use.  Route handlers
+ * only – cookies can't be set while rendering a page.
+ *********************************************************************/
+import { cookies } from 'next/headers'
+import { isToken, newToken } from '@/lib/tokens'
+
+export const SESSION_COOKIE = 'walty_sid'
+
+const sessionCookie = (id: string) => ({
+  name    : SESSION_COOKIE,
+  value   : id,
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure  : process.env.NODE_ENV === 'production',
+  path    : '/',
+  maxAge  : 60 * 60 * 24 * 365,         // 1 year
+})
+
+/** the caller's session id – sets the cookie when there isn't one yet */
+export function sessionId(): string {
+  const jar = cookies()
+  const cur = jar.get(SESSION_COOKIE)?.value
+  if (isToken(cur)) return cur
+
+  const id = newToken()
+  jar.set(sessionCookie(id))
+  return id
+}
@@ -0,0 +1,115 @@
+/**********************************************************************
+ * lib/staffAuth.ts   (—SERVER-ONLY—)
+ * Staff-only route handlers – the Studio's calls into the site
+ * --------------------------------------------------------------------
+ *   export const POST = withStaff(CORS, handler)
+ *
+ * The caller sends  Authorization: Bearer <token>  with either
+ *   • a Sanity user token – what the Studio sends (sanity/lib/siteFetch).
+ *     Checked against the project's /users/me; the user needs one of
+ *     STAFF_ROLES (default administrator, editor, developer)
+ *   • STAFF_API_SECRET – scripts and cron, never shipped to a browser
+ * Anything else → 401.  A token's verdict is cached in KV for five
+ * minutes, keyed by its hash, so a busy grid isn't a /users/me storm.
+ *
+ * staffCors(methods) only names SANITY_STUDIO_ORIGIN – without it the
+ * routes are same-origin only, never `*`.  withCors(cors, handler) puts
+ * them on whatever an outer wrapper answers too (a 429 from
+ * lib/rateLimit), so the Studio can read the error.
+ *********************************************************************/
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { projectId } from '@/sanity/env'
+import { KV } from '@/lib/kv'
+
+export interface StaffUser {
+  id  : string
+  name: string
+}
+
+const STAFF_ROLES = (process.env.STAFF_ROLES ?? 'administrator,editor,developer')
+  .split(',').map(r => r.trim()).filter(Boolean)
+const VERDICT_SEC = 60 * 5
+
+const verdicts = KV.namespace('staff')
+
+/** CORS headers for a staff route – the Studio's origin or none */
+export function staffCors (methods: string): Record<string, string> {
+  const origin = process.env.SANITY_STUDIO_ORIGIN
+  return origin
+    ? {
+        'access-control-allow-origin' : origin,
+        'access-control-allow-methods': methods,
+        'access-control-allow-headers': 'authorization, content-type',
+        vary                          : 'origin',
+      }
+    : {}
+}
+
+const sameSecret = (a: string, b: string) => {
+  const x = Buffer.from(a), y = Buffer.from(b)
+  return x.length === y.length && timingSafeEqual(x, y)
+}
+
+/** the Sanity project member behind a user token, if they are staff */
+async function sanityStaff (token: string): Promise<StaffUser | null> {
+  const res = await fetch(`https://${projectId}.api.sanity.io/v2021-06-07/users/me`, {
+    headers: { authorization: `Bearer ${token}` },
+    signal : AbortSignal.timeout(1000 * 10),
+  })
+  if (!res.ok) return null
+  const me = await res.json().catch(() => null)
+  const roles: string[] = (me?.roles ?? []).map((r: { name?: string }) => r?.name ?? '')
+  if (me?.role) roles.push(me.role)
+  return me?.id && roles.some(r => STAFF_ROLES.includes(r))
+    ? { id: me.id, name: me.name ?? me.email ?? me.id }
+    : null
+}
+
+/** the staff member making this request, `null` when it isn't one */
+export async function staffUser (req: NextRequest): Promise<StaffUser | null> {
+  const token = /^Bearer\s+(\S+)$/i.exec(req.headers.get('authorization') ?? '')?.[1]
+  if (!token) return null
+
+  const secret = process.env.STAFF_API_SECRET
+  if (secret && sameSecret(token, secret)) return { id: 'api-secret', name: 'server' }
+
+  const key = createHash('sha256').update(token).digest('hex')
+  const hit = await verdicts.get<{ user: StaffUser | null }>(key)
+  if (hit) return hit.user
+
+  const user = await sanityStaff(token).catch(err => {
+    console.error('[staff-auth] users/me failed', err)
+    return undefined
+  })
+  if (user === undefined) return null            // an outage isn't a verdict
+  await verdicts.set(key, { user }, { ex: VERDICT_SEC })
+  return user
+}
+
+/* ---------- route wrapper ----------------------------------------- */
+type Handler<C> = (req: NextRequest, ctx: C, staff: StaffUser) => Promise<Response> | Response
+
+export function withStaff<C = unknown>(cors: Record<string, string>, handler: Handler<C>) {
+  return async (req: NextRequest, ctx: C): Promise<Response> => {
+    const staff = await staffUser(req)
+    if (!staff) {
+      return NextResponse.json({ error: 'Staff sign-in required' }, { status: 401, headers: cors })
+    }
+    return handler(req, ctx, staff)
+  }
+}
+
+/** the CORS headers on every response – including ones `handler`'s
+    own wrappers answer with before the route runs */
+export function withCors<C = unknown>(
+  cors   : Record<string, string>,
+  handler: (req: NextRequest, ctx: C) => Promise<Response> | Response,
+) {
+  return async (req: NextRequest, ctx: C): Promise<Response> => {
+    const res = await handler(req, ctx)
+    for (const [name, value] of Object.entries(cors)) res.headers.set(name, value)
+    return res
+  }
+}
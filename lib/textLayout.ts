@@ -0,0 +1,100 @@
+/**********************************************************************
+ * lib/textLayout.ts – Fabric-compatible Textbox line layout
+ * --------------------------------------------------------------------
+ * Re-implements just enough of fabric.Textbox's wrapping maths for
+ * server-side renderers to put every line where the editor put it.
+ * Width measurement is injected so callers can use whatever font
+ * backend they have (pdf-lib, fontkit …).
+ *********************************************************************/
+import type { Layer } from '@/app/components/FabricCanvas'
+import { DEFAULT_GEOMETRY, PREVIEW_W, type PageGeometry } from '@/lib/pageGeometry'
+
+/* ---------- Fabric 5 constants (fabric.Text.prototype) ----------- */
+const FONT_SIZE_MULT     = 1.13    // _fontSizeMult
+const FONT_SIZE_FRACTION = 0.222   // _fontSizeFraction
+const UNDERLINE_OFFSET   = 0.10    // offsets.underline
+
+/** returns the advance width of `text` at `size` in page pixels */
+export type MeasureFn = (text: string, size: number) => number
+
+export interface LaidOutLine {
+  text    : string
+  /** left edge of the line, relative to the layer's left (unscaled) */
+  x       : number
+  /** alphabetic baseline, relative to the layer's top (unscaled) */
+  baseline: number
+  width   : number
+}
+
+export interface TextLayout {
+  lines      : LaidOutLine[]
+  fontSize   : number
+  width      : number
+  height     : number
+  /** distance below the baseline where Fabric draws the underline */
+  underlineY : number
+  underlineW : number
+}
+
+/* ---------- wrapping (same rules as Textbox._wrapLine) ------------ */
+function wrapParagraph (para: string, maxW: number, size: number, measure: MeasureFn) {
+  const words = para.split(' ')
+  const out: string[] = []
+  let line = ''
+
+  words.forEach((word, i) => {
+    const candidate = i === 0 ? word : `${line} ${word}`
+    if (line && measure(candidate, size) > maxW) {
+      out.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  })
+  out.push(line)
+  return out
+}
+
+/**
+ * Lay out a text layer exactly the way the editor draws it.
+ * Coordinates are in the layer's own (unscaled) space – apply
+ * `scaleX` / `scaleY` and the layer's x / y afterwards.
+ */
+export function layoutText (
+  layer  : Layer,
+  measure: MeasureFn,
+  g      : PageGeometry = DEFAULT_GEOMETRY,
+): TextLayout {
+  /* FabricCanvas defaults to 32 CSS px at preview scale */
+  const fontSize   = layer.fontSize   ?? Math.round(32 * g.pageW / PREVIEW_W)
+  const lineHeight = layer.lineHeight ?? 1.16
+  const width      = layer.width      ?? 200
+  const align      = layer.textAlign  ?? 'left'
+
+  const rows = (layer.text ?? '')
+    .split('\n')
+    .flatMap(p => wrapParagraph(p, width, fontSize, measure))
+
+  const maxHeight   = fontSize * FONT_SIZE_MULT      // glyph box
+  const heightOfRow = maxHeight * lineHeight         // incl. leading
+
+  let top = 0
+  const lines = rows.map((text, i) => {
+    const w = measure(text, fontSize)
+    const x = align === 'center' ? (width - w) / 2
+            : align === 'right'  ?  width - w
+            :                       0
+    const baseline = top + maxHeight - maxHeight * FONT_SIZE_FRACTION
+    top += i === rows.length - 1 ? maxHeight : heightOfRow
+    return { text, x, baseline, width: w }
+  })
+
+  return {
+    lines,
+    fontSize,
+    width,
+    height    : top,
+    underlineY: fontSize * UNDERLINE_OFFSET,
+    underlineW: fontSize / 15,
+  }
+}
@@ -0,0 +1,13 @@
+/**********************************************************************
+ * lib/tokens.ts   (—SERVER-ONLY—)
+ * Opaque, unguessable ids for customer-owned documents (projects,
+ * baskets …).  128 random bits, base64url – safe in URLs, cookies
+ * and Sanity _ids.
+ *********************************************************************/
+import { randomBytes } from 'crypto'
+
+export const newToken = () => randomBytes(16).toString('base64url')
+
+/** cheap shape check before we ever hit Sanity with user input */
+export const isToken = (t: unknown): t is string =>
+  typeof t === 'string' && /^[A-Za-z0-9_-]{16,64}$/.test(t)
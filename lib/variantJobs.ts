@@ -0,0 +1,174 @@
+/**********************************************************************
+ * lib/variantJobs.ts   (—SERVER-ONLY—)
+ * Background face-swap jobs with real progress
+ * --------------------------------------------------------------------
+ *   queued → uploading → generating → [swapping] → post-processing
+ *          → done | failed
+ *
+ * Variants are written into the record one by one as their slots
+ * finish, so the stream shows each image the moment it exists.
+ *
+ * The job record lives in KV (namespace "jobs", 24 h) so any instance
+ * can stream it and a reloaded page can pick it up again by id.  The
+ * work itself runs in the process that accepted the job – same model
+ * as lib/fulfilment's startFulfilment.
+ *
+ * Image providers give no progress while they draw, so during
+ * "generating" the runner nudges `progress` along an expected-duration
+ * curve; the state names are always the real ones.
+ *********************************************************************/
+import { KV } from '@/lib/kv'
+import { newToken, isToken } from '@/lib/tokens'
+import {
+  generateVariants, VariantError,
+  type VariantRequest, type VariantSlot, type VariantStage,
+} from '@/lib/variants'
+
+export type JobStatus = 'queued' | VariantStage | 'done' | 'failed'
+
+export interface VariantJob {
+  id           : string
+  status       : JobStatus
+  /** 0-100 */
+  progress     : number
+  placeholderId: string
+  /** set when the job redraws a single slot */
+  slot?        : number
+  /** one per slot being drawn – filled in as each finishes */
+  variants     : VariantSlot[]
+  /** present when done – the slots that worked */
+  urls?        : string[]
+  /** present when failed */
+  error?       : string
+  createdAt    : string
+  updatedAt    : string
+}
+
+/** stored shape – the owner never leaves the server */
+type StoredJob = VariantJob & { session: string }
+
+const jobs    = KV.namespace('jobs')
+const JOB_SEC = 60 * 60 * 24
+
+/* progress at the start of each state */
+const STAGE_PCT: Record<JobStatus, number> = {
+  queued           : 0,
+  uploading        : 5,
+  generating       : 15,
+  swapping         : 60,
+  'post-processing': 92,
+  done             : 100,
+  failed           : 100,
+}
+/** typical provider wall-time per stage – the bar creeps towards 90 % over it */
+const EXPECTED_MS: Partial<Record<JobStatus, number>> = {
+  generating: 45_000,
+  swapping  : 15_000,
+}
+const TICK_MS              = 1_500
+
+export const isJobId = isToken
+export const isFinished = (s: JobStatus) => s === 'done' || s === 'failed'
+
+/* ---------- store ------------------------------------------------- */
+async function save (job: StoredJob) {
+  job.updatedAt = new Date().toISOString()
+  await jobs.set(job.id, job, { ex: JOB_SEC })
+}
+
+/** the job if it belongs to this session, else null */
+export async function getJob (id: string, session: string): Promise<VariantJob | null> {
+  if (!isJobId(id)) return null
+  const job = await jobs.get<StoredJob>(id)
+  if (!job || job.session !== session) return null
+  const { session: _owner, ...pub } = job
+  return pub
+}
+
+/* ---------- run --------------------------------------------------- */
+async function run (job: StoredJob, req: VariantRequest, checked?: Map<string, Buffer>) {
+  /* every write for this job goes through one chain, so a progress tick
+     can never land after (and undo) a later state change */
+  let cur    = job
+  let writes = Promise.resolve()
+  const write = (patch: Partial<StoredJob> | ((cur: StoredJob) => Partial<StoredJob>)) =>
+    (writes = writes.then(() => {
+      if (isFinished(cur.status)) return
+      cur = { ...cur, ...(typeof patch === 'function' ? patch(cur) : patch) }
+      return save(cur)
+    }).catch(err => console.error('[variant-job] write failed', job.id, err)))
+
+  let ticker: ReturnType<typeof setInterval> | undefined
+  try {
+    const results = await generateVariants(req, job.session, {
+      onStage: async stage => {
+        clearInterval(ticker)
+        /* a slow generate may already have crept past the swap's start */
+        const from = Math.max(cur.progress, STAGE_PCT[stage])
+        await write({ status: stage, progress: from })
+
+        const expected = EXPECTED_MS[stage]
+        if (expected) {
+          const span  = 90 - from
+          const start = Date.now()
+          ticker = setInterval(() => {
+            /* eases out so a slow call never reaches 90 % */
+            const t = (Date.now() - start) / expected
+            const eased = Math.round(from + span * (1 - Math.exp(-2 * t)))
+            void write(c => ({ progress: Math.max(c.progress, eased) }))
+          }, TICK_MS)
+        }
+      },
+
+      onPlan: slots => write({ variants: slots.map(slot => ({ slot })) }),
+
+      /* every finished slot lifts the bar to its share of the drawing span */
+      onVariant: result => write(c => {
+        const variants = c.variants.map(v => (v.slot === result.slot ? result : v))
+        const finished = variants.filter(v => v.url || v.error).length
+        const floor    = STAGE_PCT.generating + (90 - STAGE_PCT.generating) * finished / variants.length
+        return { variants, progress: Math.max(c.progress, Math.round(floor)) }
+      }),
+    }, {}, checked)
+    clearInterval(ticker)
+    await write({
+      status  : 'done',
+      progress: 100,
+      variants: results,
+      urls    : results.flatMap(r => (r.url ? [r.url] : [])),
+    })
+  } catch (err) {
+    clearInterval(ticker)
+    console.error('[variant-job]', job.id, err)
+    await write({
+      status  : 'failed',
+      progress: 100,
+      error   : err instanceof VariantError ? err.message : 'Image generation failed — please try again later.',
+    })
+  }
+}
+
+/** Queue a generation and start it in the background; returns the id */
+/** `checked` – the photos the route already pre-flighted, passed on in
+    process (the job runs here) so they aren't checked twice */
+export async function startVariantJob (
+  req     : VariantRequest,
+  session : string,
+  checked?: Map<string, Buffer>,
+): Promise<string> {
+  const now = new Date().toISOString()
+  const job: StoredJob = {
+    id           : newToken(),
+    status       : 'queued',
+    progress     : 0,
+    placeholderId: req.placeholderId,
+    ...(req.slot !== undefined && { slot: req.slot }),
+    variants     : [],
+    session,
+    createdAt    : now,
+    updatedAt    : now,
+  }
+  await save(job)
+  void run(job, req, checked).catch(err => console.error('[variant-job]', job.id, err))
+  return job.id
+}
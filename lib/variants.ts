@@ -0,0 +1,530 @@
+/**********************************************************************
+ * lib/variants.ts   (—SERVER-ONLY—)
+ * Face-swap: selfie + placeholder template → images in the asset store
+ * --------------------------------------------------------------------
+ * Shared by the blocking POST /api/variants and the background jobs
+ * behind /api/variants/jobs.  The hooks let the job runner report
+ * where a generation is up to and stream each variant as it lands.
+ *
+ * Before anything is spent the selfie goes through lib/preflight
+ * (faces, blur, resolution); its upright copy is what providers see.
+ *
+ * Placeholders with face slots ("partner 1", "partner 2") take one
+ * photo per slot in `faces` instead of `selfieBase64`.  They need a
+ * template; every photo goes into a single edit after it, and the
+ * prompt gets a legend naming each image, with {{slot name}} in the
+ * Studio prompt pointing at that slot's photo.  The swap stage is
+ * single-face only and is skipped for them.
+ *
+ * `variables` fill the placeholder's {{variables}} (lib/promptVariables);
+ * the resolved values are part of the fingerprint, so every combination
+ * is cached on its own.
+ *
+ * Customer wording and every freshly drawn image are moderated
+ * (lib/moderation).  Variable values that aren't plainly fine are
+ * refused before anything is spent, and queued for review; a blocked
+ * image fails its slot, a flagged one is stored and queued.
+ *
+ * The prompt is the placeholder's live revision.  Every stored image is
+ * stamped with the revision, provider, variables and slot
+ * (lib/uploadImage), so support can draw it again.
+ *
+ * The Studio prompt playground (lib/playground) passes VariantOverrides
+ * to try other revisions / qualities / providers; the public routes
+ * never do, so a customer only ever gets the published prompt.
+ *
+ * A generation draws the placeholder's variantCount images ("slots")
+ * in parallel – fewer when the visitor's remaining daily budget can't
+ * pay for them all.  `slot` redraws just one of them.
+ *
+ * Each slot runs two stages, each cached, billed and reported on its
+ * own:
+ *
+ *   generate   the placeholder's lib/imageProviders entry –
+ *              edit([template, ...selfies]), or generate(prompt) when the
+ *              placeholder has no reference image
+ *   swap       only when the placeholder has doFaceSwap on (unset:
+ *              only without a reference image) and SWAP_PROVIDER is
+ *              configured: every generated image goes through the
+ *              swap provider's faceSwap with the selfie
+ *
+ * Every stage's PNG is uploaded once to the Sanity asset store
+ * (lib/uploadImage – tagged with placeholder and fingerprint) and only
+ * { assetId, url } travels on: the caches, the job records and the
+ * editor layer never hold image bytes.
+ *
+ * A failed swap keeps the generated image cached, so "try again" only
+ * repeats the swap; a failed slot doesn't fail the others.
+ *********************************************************************/
+import crypto             from 'crypto'
+
+import {
+  getPromptForPlaceholder, getFaceSlotKeys, UnknownPlaceholderError, UnknownRevisionError,
+  type FaceSlot,
+} from '@/sanity/lib/getPromptForPlaceholder'
+import { PromptVariableError, type PromptValues } from '@/lib/promptVariables'
+import {
+  uploadGeneratedImage, type GeneratedImageTag, type StoredImage,
+} from '@/sanity/lib/uploadImage'
+import { checkSelfie, type PreflightIssue } from '@/lib/preflight'
+import {
+  checkImage, checkText, heldContent, recordFlag, type ModerationResult,
+} from '@/lib/moderation'
+import { incCost, checkBudget, remainingCents, UNIT_CENTS } from '@/lib/budget'
+import {
+  getImageProvider, getSwapProvider,
+  type ImageProvider, type ImageProviderName, type ImageSize,
+} from '@/lib/imageProviders'
+import { KV }                      from '@/lib/kv'
+import type { RateLimitRule }      from '@/lib/rateLimit'
+
+/* — constants — */
+export const MAX_VARIANTS = 4
+/** face slots on one placeholder – the aiPlaceholder schema's max */
+export const MAX_FACES    = 6
+const CACHE_SEC           = 60 * 60 * 24
+
+/* one cache per stage – keys are sha1 fingerprints */
+const genCache  = KV.namespace('variants:gen')
+const swapCache = KV.namespace('variants:swap')
+
+/** every call costs money – shared by both entry points */
+export const VARIANTS_LIMIT: RateLimitRule = {
+  name     : 'variants',
+  windows  : [{ limit: 3, windowSec: 60 }, { limit: 20,  windowSec: 60 * 60 }],
+  ipWindows: [{ limit: 10, windowSec: 60 }, { limit: 60, windowSec: 60 * 60 }],
+}
+
+export interface VariantRequest {
+  /** data-URL containing a base64-encoded PNG – single-face placeholders */
+  selfieBase64?: string
+  /** one data-URL per face slot, keyed by the slot's key */
+  faces?       : Record<string, string>
+  placeholderId: string
+  /** skip the fingerprint cache (“Generate again”) */
+  force?       : boolean
+  /** per-page nonce – a hard refresh always gets fresh images */
+  nonce?       : string
+  /** redraw just this slot (0-based) – always skips the cache */
+  slot?        : number
+  /** the customer's values for the placeholder's prompt variables */
+  variables?   : PromptValues
+}
+
+export type VariantStage = 'uploading' | 'generating' | 'swapping' | 'post-processing'
+
+/** one drawn image; neither `url` nor `error` = still drawing */
+export interface VariantSlot {
+  slot    : number
+  /** the image asset – `url` is its CDN URL */
+  assetId?: string
+  url?    : string
+  error?  : string
+}
+
+export interface VariantHooks {
+  /** the whole generation reached `stage` – each fires once, in order */
+  onStage?  : (stage: VariantStage) => void | Promise<void>
+  /** the slots about to be drawn – before any image */
+  onPlan?   : (slots: number[]) => void | Promise<void>
+  /** one slot finished, well or badly */
+  onVariant?: (result: VariantSlot) => void | Promise<void>
+  /** a provider call was billed – cache hits cost nothing */
+  onCost?   : (cents: number) => void | Promise<void>
+}
+
+/** Studio playground knobs – the public routes never pass these */
+export interface VariantOverrides {
+  quality? : 'low' | 'medium' | 'high' | 'auto'
+  provider?: ImageProviderName
+  /** slots to draw instead of the placeholder's variantCount */
+  variants?: number
+  /** an aiPlaceholder prompt revision – default the live one */
+  revision?: string
+}
+
+/** carries the HTTP status the routes should answer with */
+export class VariantError extends Error {
+  constructor (
+    message: string,
+    readonly status = 500,
+    /** set when the selfie failed pre-flight – the drawer acts on it */
+    readonly issue?: PreflightIssue,
+    /** …and which face slot's photo it was, on multi-face placeholders */
+    readonly face?: string,
+  ) { super(message) }
+}
+
+/** pre-flight the selfie; throws a 422 VariantError when it fails */
+export async function preflightSelfie (selfieBase64: string, session: string, face?: string): Promise<Buffer> {
+  const pre = await checkSelfie(selfieBase64, session)
+  if (!pre.ok) throw new VariantError(pre.message, 422, pre.issue, face)
+  return pre.png
+}
+
+/** pre-flight every photo in the request – slot key → upright PNG
+    ('' for the lone selfie); throws on the first that fails.  Photos
+    under keys that aren't the placeholder's face slots are dropped
+    unchecked.  Hand the map to generateVariants so it isn't done twice */
+export async function preflightRequest (
+  { selfieBase64, faces, placeholderId }: Pick<VariantRequest, 'selfieBase64' | 'faces' | 'placeholderId'>,
+  session: string,
+): Promise<Map<string, Buffer>> {
+  /* also turns an unknown placeholder away before the detector is paid */
+  const slotKeys = await getFaceSlotKeys(placeholderId).catch(err => {
+    throw err instanceof UnknownPlaceholderError ? new VariantError(err.message, 404) : err
+  })
+  const photos   = faces
+    ? Object.entries(faces).filter(([key]) => slotKeys.includes(key))
+    : [['', selfieBase64!]]
+  const checked = await Promise.all(photos.map(async ([key, dataUrl]) =>
+    [key, await preflightSelfie(dataUrl, session, key || undefined)] as const))
+  return new Map(checked)
+}
+
+/* — helpers — */
+/*  Sanity’s CDN often converts PNG-alpha ➜ JPEG/WebP.
+    Append  ?fm=png&dl=  to force the exact uploaded PNG with transparency. */
+const forcePngUrl = (url: string) =>
+  url.includes('?') ? `${url}&fm=png&dl=` : `${url}?fm=png&dl=`
+
+const bytesFromUrl = async (url: string) =>
+  Buffer.from(await (await fetch(url)).arrayBuffer())
+
+const isImageDataUrl = (v: unknown) => typeof v === 'string' && v.startsWith('data:image/')
+
+const sha1 = (...parts: string[]) => {
+  const h = crypto.createHash('sha1')
+  parts.forEach(p => h.update(p))
+  return h.digest('hex')
+}
+
+interface CachedStage { version: string; images: StoredImage[] }
+
+/** a stage's cached result for this prompt version, else null */
+async function fromCache (cache: typeof genCache, key: string, version: string) {
+  const hit = await cache.get<CachedStage>(key)
+  return hit?.version === version && hit.images ? hit.images : null
+}
+
+const STAGE_NAME = { generate: 'Image edit', swap: 'Face swap' }
+
+/** one billed provider step; its errors become visitor-facing VariantErrors */
+async function runStage (
+  stage   : keyof typeof STAGE_NAME,
+  provider: ImageProvider,
+  ctx     : { session: string; placeholderId: string },
+  work    : () => Promise<Buffer[]>,
+): Promise<Buffer[]> {
+  let images: Buffer[]
+  try {
+    images = await work()
+  } catch (err) {
+    console.error(`💥 ${stage} (${provider.name}) failed`, err)
+    throw new VariantError(`${STAGE_NAME[stage]} failed — please try again later.`)
+  }
+  if (!images.length) {
+    throw new VariantError(`${STAGE_NAME[stage]} returned no usable result — please retry.`, 502)
+  }
+
+  /* the images are paid for either way – a ledger hiccup mustn't lose them */
+  if (UNIT_CENTS[provider.name] > 0) {
+    await incCost(provider.name, images.length, { ...ctx, stage })
+      .catch(err => console.error('[budget] ledger write failed', err))
+  }
+  return images
+}
+
+/** upload a stage's images; the fingerprint and stamp tag them in the asset store */
+async function store (images: Buffer[], tag: GeneratedImageTag): Promise<StoredImage[]> {
+  try {
+    return await Promise.all(images.map(png => uploadGeneratedImage(png, tag)))
+  } catch (err) {
+    console.error(`💥 ${tag.stage} upload failed`, err)
+    throw new VariantError('Couldn’t save your image — please try again.', 502)
+  }
+}
+
+/** customer wording goes into a paid prompt – anything not plainly fine
+    is queued for review; only blocked or rejected wording is refused
+    (flagged wording is held at fulfilment until staff decide) */
+async function screenValues (values: PromptValues, ctx: { session: string; placeholderId: string }) {
+  for (const value of Object.values(values)) {
+    const verdict = await checkText(value)
+    if (verdict.verdict === 'allow') continue
+
+    await recordFlag(verdict, { kind: 'text', text: value, source: `variables:${ctx.placeholderId}`, session: ctx.session })
+    const held = await heldContent({ texts: [value] })
+    if (held.rejected) {
+      throw new VariantError(`We can’t use “${value}” on a card — please change it.`, 422)
+    }
+  }
+}
+
+/** moderate freshly drawn images – a blocked one fails the slot */
+async function screenImages (pngs: Buffer[], stage: keyof typeof STAGE_NAME) {
+  const verdicts = await Promise.all(pngs.map(checkImage))
+  const blocked  = verdicts.find(v => v.verdict === 'block')
+  if (blocked) {
+    console.warn(`[moderation] ${stage} image blocked`, blocked.provider, blocked.categories.join(', '))
+    throw new VariantError('That image didn’t pass our content check — please try again.', 422)
+  }
+  return verdicts
+}
+
+/** flagged images go to the review queue once they have an asset */
+const queueFlagged = (
+  verdicts: ModerationResult[],
+  stored  : StoredImage[],
+  ctx     : { session: string; placeholderId: string },
+) =>
+  Promise.all(stored.map((img, i) => recordFlag(verdicts[i], {
+    kind: 'generated', assetId: img.assetId, source: `variants:${ctx.placeholderId}`, session: ctx.session,
+  }))).catch(err => console.error('[moderation] flag record failed', err))
+
+const visitorMessage = (err: unknown) =>
+  err instanceof VariantError ? err.message : 'Image generation failed — please try again later.'
+
+/** body check shared by both routes – null when fine */
+export function variantRequestError(body: any): string | null {
+  if (body?.faces !== undefined) {
+    const faces = body.faces
+    if (!faces || typeof faces !== 'object' || Array.isArray(faces)
+        || !Object.keys(faces).length || !Object.values(faces).every(isImageDataUrl)) {
+      return '`faces` must map each face slot to an image data-URL'
+    }
+    if (Object.keys(faces).length > MAX_FACES) return `at most ${MAX_FACES} \`faces\``
+  } else if (!isImageDataUrl(body?.selfieBase64)) {
+    return '`selfieBase64` must be an image data-URL'
+  }
+  if (typeof body.placeholderId !== 'string' || !body.placeholderId) {
+    return '`placeholderId` is required'
+  }
+  if (body.variables !== undefined
+      && (!body.variables || typeof body.variables !== 'object' || Array.isArray(body.variables)
+          || !Object.values(body.variables).every(v => typeof v === 'string'))) {
+    return '`variables` must map variable names to strings'
+  }
+  if (body.slot !== undefined
+      && !(Number.isInteger(body.slot) && body.slot >= 0 && body.slot < MAX_VARIANTS)) {
+    return `\`slot\` must be 0-${MAX_VARIANTS - 1}`
+  }
+  return null
+}
+
+/** the Studio prompt with a legend of the input images, and each
+    {{slot name}} pointing at that slot's photo */
+function multiFacePrompt (prompt: string, slots: FaceSlot[]) {
+  const legend = slots.map((f, i) => `Image ${i + 2} shows ${f.name}.`).join(' ')
+  const body = prompt.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (tag, name: string) => {
+    const i = slots.findIndex(f => f.name.trim().toLowerCase() === name.toLowerCase())
+    return i < 0 ? tag : `${slots[i].name} (image ${i + 2})`
+  })
+  return `Image 1 is the card template. ${legend} Use each person's face from their own photo.\n\n${body}`
+}
+
+/** visitor-facing message when the spend cap is hit, null when fine */
+export async function budgetError(session: string): Promise<string | null> {
+  const budget = await checkBudget(session)
+  if (budget.ok) return null
+  return budget.scope === 'user'
+    ? 'You’ve reached today’s limit for new images – please try again tomorrow.'
+    : 'Daily budget exhausted'
+}
+
+/** how many of `wanted` the visitor can still pay for (at least one –
+    the routes have already turned away anyone over their cap) */
+async function affordable (wanted: number, centsEach: number, session: string) {
+  if (centsEach <= 0) return wanted
+  const left = await remainingCents(session)
+  return Math.max(1, Math.min(wanted, Math.floor(left / centsEach)))
+}
+
+/* ================================================================== */
+/** Run one generation; resolves to one result per drawn slot */
+export async function generateVariants (
+  { selfieBase64, faces, placeholderId, force = false, nonce = '', slot, variables }: VariantRequest,
+  session : string,
+  { onStage = () => {}, onPlan = () => {}, onVariant = () => {}, onCost = () => {} }: VariantHooks = {},
+  overrides: VariantOverrides = {},
+  /** the route's preflightRequest result – skips checking again */
+  checked?: Map<string, Buffer>,
+): Promise<VariantSlot[]> {
+  /* 0 ▸ Pre-flight – before a single paid call */
+  const photos = checked ?? await preflightRequest({ selfieBase64, faces, placeholderId }, session)
+
+  /* 1 ▸ Fetch metadata from Sanity – with the variables filled in */
+  const {
+    prompt    : studioPrompt,
+    version   : promptVersion,
+    refUrl    = '',
+    ratio     = '1:1',          // 1:1 | 3:2 | 2:3
+    quality   : placeholderQuality = 'medium',   // low | medium | high | auto
+    background= 'transparent',  // transparent | opaque | auto
+    faceSwap  = false,
+    variants  : placeholderVariants = MAX_VARIANTS,
+    provider  : providerName,
+    faceSlots = [],
+    values    = {},
+    revision  = null,
+  } = await getPromptForPlaceholder(placeholderId, variables, overrides.revision).catch(err => {
+    throw err instanceof UnknownPlaceholderError
+      ? new VariantError(err.message, 404)
+      : err instanceof PromptVariableError || err instanceof UnknownRevisionError
+      ? new VariantError(err.message, 400)
+      : err
+  })
+
+  /* 1b ▸ One photo per face slot – in the placeholder's slot order */
+  const multiFace = faceSlots.length > 0
+  if (multiFace) {
+    const missing = faceSlots.filter(f => !faces?.[f.key])
+    if (missing.length) {
+      throw new VariantError(`Add a photo for ${missing.map(f => f.name).join(' and ')}.`, 400)
+    }
+    if (!refUrl) {
+      throw new VariantError('Template PNG missing – cannot place several faces.', 400)
+    }
+  } else if (!photos.has('')) {
+    throw new VariantError('This design takes a single `selfieBase64`, not `faces`.', 400)
+  }
+  const selfies  = multiFace ? faceSlots.map(f => photos.get(f.key)!) : [photos.get('')!]
+  const prompt   = multiFace ? multiFacePrompt(studioPrompt, faceSlots) : studioPrompt
+  const quality  = overrides.quality ?? placeholderQuality
+  const variants = overrides.variants ?? placeholderVariants
+  const provider = getImageProvider(overrides.provider ?? providerName)
+  /* the swap services put one face on one person */
+  const swapper  = faceSwap && !multiFace ? getSwapProvider() : null
+  const ctx      = { session, placeholderId }
+  const redraw   = force || slot !== undefined
+
+  /* 1c ▸ Moderate the customer's wording – still before any spend */
+  await screenValues(values, ctx)
+
+  /* 2 ▸ Which slots – capped by what the visitor can still afford */
+  const centsEach = UNIT_CENTS[provider.name] + (swapper ? UNIT_CENTS[swapper.name] : 0)
+  const slots = slot !== undefined
+    ? [slot]
+    : Array.from(
+        { length: await affordable(Math.min(variants, MAX_VARIANTS), centsEach, session) },
+        (_, i) => i,
+      )
+  await onPlan(slots)
+
+  /* 3 ▸ Map ratio → size flag */
+  const size: ImageSize =
+        ratio === '3:2' ? '1536x1024'
+      : ratio === '2:3' ? '1024x1536'
+      :                   '1024x1024'
+
+  /* 4 ▸ Stage fingerprints – the swap key needs the generated image.
+         The prompt text and output settings are in there too: the
+         version is the revision id, which other edits don't change */
+  const selfieHash = multiFace
+    ? sha1(...faceSlots.flatMap(f => [f.key, faces![f.key]]))
+    : sha1(selfieBase64!)
+  const valuesKey  = JSON.stringify(Object.entries(values).sort(([a], [b]) => a.localeCompare(b)))
+  const genKeyOf   = (s: number) =>
+    sha1(selfieHash, placeholderId, promptVersion, sha1(prompt), valuesKey,
+         size, quality, background, nonce, refUrl, provider.name, String(s))
+  const swapKeyOf  = (s: number, generated: StoredImage[]) =>
+    sha1(genKeyOf(s), ...generated.map(g => g.assetId), swapper!.name)
+
+  /* each stage is reported once, the first time any slot reaches it */
+  const reached = new Set<VariantStage>()
+  const stage = async (st: VariantStage) => {
+    if (reached.has(st)) return
+    reached.add(st)
+    await onStage(st)
+  }
+
+  /* the template is fetched once, and only if some slot needs drawing */
+  let template: Promise<Buffer | null> | undefined
+  const loadTemplate = () => template ??= (async () => {
+    await stage('uploading')
+    return refUrl ? bytesFromUrl(forcePngUrl(refUrl)) : null
+  })()
+
+  /* 5 ▸ One slot: cached → generate → swap */
+  const drawSlot = async (s: number): Promise<StoredImage> => {
+    const genKey  = genKeyOf(s)
+    let generated = redraw ? null : await fromCache(genCache, genKey, promptVersion)
+    if (generated && swapper) {
+      const swapped = await fromCache(swapCache, swapKeyOf(s, generated), promptVersion)
+      if (swapped) return swapped[0]
+    }
+
+    /* fresh bytes are handed straight to the swap; cached ones are fetched */
+    let pngs: Buffer[] | undefined
+    if (!generated) {
+      const tpl = await loadTemplate()
+      if (!tpl && !swapper) {
+        throw new VariantError('Template PNG missing – cannot perform face-swap.', 400)
+      }
+      const spec = { prompt, size, quality, background, n: 1, user: placeholderId, variant: s }
+
+      await stage('generating')
+      pngs = await runStage('generate', provider, ctx,
+        () => tpl
+          ? provider.edit([tpl, ...selfies], spec)   // ORDER matters
+          : provider.generate(spec))
+      await onCost(UNIT_CENTS[provider.name] * pngs.length)
+      const verdicts = await screenImages(pngs, 'generate')
+      generated = await store(pngs, {
+        placeholderId, fingerprint: genKey, stage: 'generate',
+        stamp: { revision, provider: provider.name, variables: values, slot: s },
+      })
+      await queueFlagged(verdicts, generated, ctx)
+      await genCache.set(genKey, { version: promptVersion, images: generated }, { ex: CACHE_SEC })
+    }
+    if (!swapper) return generated[0]
+
+    await stage('swapping')
+    const inputs  = pngs ?? await Promise.all(generated.map(g => bytesFromUrl(forcePngUrl(g.url))))
+    const swapKey = swapKeyOf(s, generated)
+    const swaps   = await runStage('swap', swapper, ctx,
+      () => Promise.all(inputs.map(png => swapper.faceSwap(png, selfies[0]))))
+    await onCost(UNIT_CENTS[swapper.name] * swaps.length)
+    const verdicts = await screenImages(swaps, 'swap')
+    const swapped = await store(
+      swaps,
+      {
+        placeholderId, fingerprint: swapKey, stage: 'swap',
+        stamp: { revision, provider: `${provider.name} → ${swapper.name}`, variables: values, slot: s },
+      },
+    )
+    await queueFlagged(verdicts, swapped, ctx)
+    await swapCache.set(swapKey, { version: promptVersion, images: swapped }, { ex: CACHE_SEC })
+    return swapped[0]
+  }
+
+  /* 6 ▸ All slots in parallel, each reported as it finishes */
+  const failures: unknown[] = []
+  const results = await Promise.all(slots.map(async (s): Promise<VariantSlot> => {
+    let result: VariantSlot
+    try {
+      result = { slot: s, ...await drawSlot(s) }
+    } catch (err) {
+      if (!(err instanceof VariantError)) console.error(`💥 slot ${s} failed`, err)
+      failures.push(err)
+      result = { slot: s, error: visitorMessage(err) }
+    }
+    await onVariant(result)
+    return result
+  }))
+
+  /* nothing worked – that's the generation failing, not just a slot */
+  if (failures.length === results.length) {
+    const err = failures[0]
+    throw err instanceof VariantError ? err : new VariantError(visitorMessage(err))
+  }
+  const good = results.filter(r => r.url)
+
+  /* 7 ▸ Debug log */
+  await stage('post-processing')
+  if (!process.env.NODE_ENV?.startsWith('prod')) {
+    console.log(`🔍 1st image (${[provider.name, swapper?.name].filter(Boolean).join(' → ')}) ➜ ${good[0].url}`)
+  }
+
+  return results
+}
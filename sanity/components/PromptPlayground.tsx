@@ -0,0 +1,363 @@
+/**********************************************************************
+ * PromptPlayground.tsx – "Prompt playground" Studio tool
+ * --------------------------------------------------------------------
+ * Pick an aiPlaceholder and some sample faces (public/sample-faces),
+ * tick the prompt revisions, qualities and providers to compare, and
+ * Run draws the grid: one row per face (all faces together on a
+ * multi-face placeholder), one column per revision × quality ×
+ * provider.  Each cell is a POST /api/playground on the site – the
+ * same pipeline customers get – and shows what it cost; any result
+ * can be saved as the placeholder's reference image.
+ *********************************************************************/
+import React, {useEffect, useMemo, useState} from 'react'
+import {
+  Box, Button, Card, Checkbox, Flex, Grid, Heading, Select, Spinner, Stack, Text, TextInput, useToast,
+} from '@sanity/ui'
+import {useClient} from 'sanity'
+
+import {FRONTEND_BASE, useSiteFetch} from '../lib/siteFetch'
+
+const MAX_CELLS   = 24       // a grid is real money – keep it sane
+const CONCURRENCY = 2
+
+interface Options {
+  faces    : string[]
+  providers: string[]
+  qualities: string[]
+  unitCents: Record<string, number>
+}
+
+interface Placeholder {
+  _id          : string
+  title        : string
+  liveRevision?: string
+  revisions?   : {_key: string; note?: string; createdAt?: string}[]
+  quality?     : string
+  provider?    : string
+  variables?   : {name: string; label?: string; default?: string}[]
+  faceSlots?   : {name: string}[]
+}
+
+interface Column { revision: string; quality: string; provider: string }
+interface CellState {
+  status : 'queued' | 'running' | 'done' | 'failed'
+  url?   : string
+  assetId?: string
+  cents? : number
+  error? : string
+}
+
+const LIVE = ''              // revision value: whatever is live (or the bare prompt)
+
+const gbp      = (cents: number) => `£${(cents / 100).toFixed(2)}`
+const faceUrl  = (name: string) => `${FRONTEND_BASE}/sample-faces/${encodeURIComponent(name)}`
+const cellKey  = (row: string, c: Column) => `${row}|${c.revision}|${c.quality}|${c.provider}`
+const toggle   = (set: string[], v: string) => (set.includes(v) ? set.filter(x => x !== v) : [...set, v])
+
+/** run `jobs` with at most `n` in flight */
+async function pool (jobs: (() => Promise<void>)[], n: number) {
+  let next = 0
+  await Promise.all(Array.from({length: Math.min(n, jobs.length)}, async () => {
+    while (next < jobs.length) await jobs[next++]()
+  }))
+}
+
+function Chips({items, picked, label, onToggle}: {
+  items   : {value: string; title: string}[]
+  picked  : string[]
+  label   : string
+  onToggle: (v: string) => void
+}) {
+  return (
+    <Stack space={2}>
+      <Text size={1} weight="semibold">{label}</Text>
+      <Flex gap={3} wrap="wrap">
+        {items.map(i => (
+          <Flex key={i.value} as="label" align="center" gap={2}>
+            <Checkbox checked={picked.includes(i.value)} onChange={() => onToggle(i.value)} />
+            <Text size={1}>{i.title}</Text>
+          </Flex>
+        ))}
+      </Flex>
+    </Stack>
+  )
+}
+
+export default function PromptPlayground() {
+  const client    = useClient({apiVersion: '2023-10-01'})
+  const siteFetch = useSiteFetch()
+  const toast     = useToast()
+
+  const [options,      setOptions]      = useState<Options | null>(null)
+  const [placeholders, setPlaceholders] = useState<Placeholder[]>([])
+  const [placeholderId, setPlaceholderId] = useState('')
+  const [faces,     setFaces]     = useState<string[]>([])
+  const [revisions, setRevisions] = useState<string[]>([LIVE])
+  const [qualities, setQualities] = useState<string[]>(['medium'])
+  const [providers, setProviders] = useState<string[]>([])
+  const [values,    setValues]    = useState<Record<string, string>>({})
+  const [cells,     setCells]     = useState<Record<string, CellState>>({})
+  const [running,   setRunning]   = useState(false)
+
+  /*──────── what there is to choose from ───*/
+  useEffect(() => {
+    siteFetch('/api/playground')
+      .then(async r => {
+        const json = await r.json().catch(() => ({}))
+        if (!r.ok) throw new Error(json.error ?? `HTTP ${r.status}`)
+        return json as Options
+      })
+      .then(o => { setOptions(o); setFaces(o.faces.slice(0, 1)) })
+      .catch(err => toast.push({status: 'error', title: 'Playground API unreachable', description: String(err)}))
+    client
+      .fetch<Placeholder[]>(`*[_type == "aiPlaceholder" && !(_id in path("drafts.**"))] | order(title asc){
+        _id, title, liveRevision, quality, provider,
+        "revisions": revisions[]{_key, note, createdAt},
+        "variables": variables[]{name, label, "default": defaultValue},
+        "faceSlots": faceSlots[]{name}
+      }`)
+      .then(setPlaceholders)
+      .catch(err => console.error('[playground]', err))
+  }, [client, siteFetch, toast])
+
+  const placeholder = placeholders.find(p => p._id === placeholderId)
+
+  /* a new placeholder starts from its own settings – as far as the
+     site allows them in the playground */
+  useEffect(() => {
+    if (!placeholder || !options) return
+    const pick = (allowed: string[], wanted: string) =>
+      [allowed.includes(wanted) ? wanted : allowed[0]].filter(Boolean)
+    setRevisions([LIVE])
+    setQualities(pick(options.qualities, placeholder.quality ?? 'medium'))
+    setProviders(pick(options.providers, placeholder.provider ?? 'openai'))
+    setValues({})
+    setCells({})
+  }, [placeholder, options])
+
+  /*──────── the grid ───*/
+  const multiFace = !!placeholder?.faceSlots?.length
+  const rows = multiFace ? (faces.length ? [faces.join(' + ')] : []) : faces
+  const columns = useMemo<Column[]>(
+    () => revisions.flatMap(revision => qualities.flatMap(quality =>
+      providers.map(provider => ({revision, quality, provider})))),
+    [revisions, qualities, providers],
+  )
+  const cellCount = rows.length * columns.length
+  const estimate  = rows.length * columns.reduce((a, c) => a + (options?.unitCents[c.provider] ?? 0), 0)
+  const spent     = Object.values(cells).reduce((a, c) => a + (c.cents ?? 0), 0)
+
+  const revisionTitle = (key: string) => {
+    if (key === LIVE) return 'live'
+    const r = placeholder?.revisions?.find(x => x._key === key)
+    return r?.note ? `${r.note} (${key})` : key
+  }
+
+  const run = async () => {
+    if (!placeholder || !cellCount || running) return
+    setRunning(true)
+    const queued = Object.fromEntries(rows.flatMap(row =>
+      columns.map(c => [cellKey(row, c), {status: 'queued'} as CellState])))
+    setCells(queued)
+
+    const patch = (key: string, state: CellState) => setCells(prev => ({...prev, [key]: state}))
+    await pool(rows.flatMap(row => columns.map(c => async () => {
+      const key = cellKey(row, c)
+      patch(key, {status: 'running'})
+      try {
+        const res = await siteFetch('/api/playground', {
+          method : 'POST',
+          headers: {'content-type': 'application/json'},
+          body   : JSON.stringify({
+            placeholderId: placeholder._id,
+            faces        : multiFace ? faces : [row],
+            revision     : c.revision || undefined,
+            quality      : c.quality,
+            provider     : c.provider,
+            variables    : values,
+          }),
+        })
+        const json = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`)
+        patch(key, {status: 'done', ...json})
+      } catch (err: any) {
+        patch(key, {status: 'failed', error: err.message})
+      }
+    })), CONCURRENCY)
+    setRunning(false)
+  }
+
+  const saveAsReference = async (assetId: string) => {
+    if (!placeholder) return
+    try {
+      await client
+        .patch(placeholder._id)
+        .set({refImage: {_type: 'image', asset: {_type: 'reference', _ref: assetId}}})
+        .commit()
+      toast.push({status: 'success', title: `Saved as the reference image of “${placeholder.title}”`})
+    } catch (err: any) {
+      toast.push({status: 'error', title: 'Couldn’t save the reference image', description: err.message})
+    }
+  }
+
+  /*────────────────── UI ──────────────────*/
+  if (!options) {
+    return <Flex justify="center" padding={5}><Spinner muted /></Flex>
+  }
+
+  return (
+    <Box padding={4}>
+      <Stack space={5}>
+        <Heading size={2}>Prompt playground</Heading>
+
+        <Card padding={4} radius={2} shadow={1}>
+          <Stack space={4}>
+            <Select value={placeholderId} onChange={e => setPlaceholderId(e.currentTarget.value)}>
+              <option value="">Pick an AI placeholder…</option>
+              {placeholders.map(p => <option key={p._id} value={p._id}>{p.title}</option>)}
+            </Select>
+
+            <Stack space={2}>
+              <Text size={1} weight="semibold">
+                Sample faces{multiFace && ` – used in slot order: ${placeholder!.faceSlots!.map(f => f.name).join(', ')}`}
+              </Text>
+              <Flex gap={2} wrap="wrap">
+                {options.faces.map(f => (
+                  <Card
+                    key={f}
+                    as="button"
+                    radius={2}
+                    padding={1}
+                    tone={faces.includes(f) ? 'primary' : 'default'}
+                    border
+                    onClick={() => setFaces(prev => toggle(prev, f))}
+                    style={{cursor: 'pointer'}}
+                  >
+                    <img src={faceUrl(f)} alt={f} title={f} style={{width: 72, height: 72, objectFit: 'cover', display: 'block'}} />
+                  </Card>
+                ))}
+              </Flex>
+            </Stack>
+
+            {placeholder && (
+              <>
+                <Chips
+                  label="Prompt revisions"
+                  picked={revisions}
+                  onToggle={v => setRevisions(prev => toggle(prev, v))}
+                  items={[
+                    {value: LIVE, title: 'live'},
+                    ...[...(placeholder.revisions ?? [])].reverse()
+                      .filter(r => r._key !== placeholder.liveRevision)
+                      .map(r => ({value: r._key, title: revisionTitle(r._key)})),
+                  ]}
+                />
+                <Chips
+                  label="Quality"
+                  picked={qualities}
+                  onToggle={v => setQualities(prev => toggle(prev, v))}
+                  items={options.qualities.map(q => ({value: q, title: q}))}
+                />
+                <Chips
+                  label="Provider"
+                  picked={providers}
+                  onToggle={v => setProviders(prev => toggle(prev, v))}
+                  items={options.providers.map(p => ({value: p, title: `${p} (${gbp(options.unitCents[p] ?? 0)})`}))}
+                />
+
+                {!!placeholder.variables?.length && (
+                  <Grid columns={[1, 2, 3]} gap={3}>
+                    {placeholder.variables.map(v => (
+                      <Stack key={v.name} space={2}>
+                        <Text size={1} weight="semibold">{v.label || v.name}</Text>
+                        <TextInput
+                          value={values[v.name] ?? ''}
+                          placeholder={v.default}
+                          onChange={e => {
+                            const value = e.currentTarget.value
+                            setValues(prev => ({...prev, [v.name]: value}))
+                          }}
+                        />
+                      </Stack>
+                    ))}
+                  </Grid>
+                )}
+              </>
+            )}
+
+            <Flex align="center" gap={3}>
+              <Button
+                text={running ? 'Drawing…' : `Run ${cellCount} image${cellCount === 1 ? '' : 's'}`}
+                tone="primary"
+                disabled={!placeholder || !cellCount || cellCount > MAX_CELLS || running}
+                onClick={run}
+              />
+              <Text size={1} muted>
+                {cellCount > MAX_CELLS
+                  ? `At most ${MAX_CELLS} images per run`
+                  : `Up to ${gbp(estimate)} – cached cells are free, face-swap stages extra`}
+              </Text>
+            </Flex>
+          </Stack>
+        </Card>
+
+        {Object.keys(cells).length > 0 && (
+          <Stack space={3}>
+            <Text size={2}>Spent this run: <strong>{gbp(spent)}</strong></Text>
+            <div style={{overflowX: 'auto'}}>
+              <table style={{borderCollapse: 'separate', borderSpacing: 8}}>
+                <thead>
+                  <tr>
+                    <th />
+                    {columns.map(c => (
+                      <th key={cellKey('', c)} style={{textAlign: 'left', fontSize: 12, fontWeight: 500}}>
+                        {revisionTitle(c.revision)}<br />{c.quality} · {c.provider}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row}>
+                      <td style={{fontSize: 12, verticalAlign: 'top'}}>{row}</td>
+                      {columns.map(c => {
+                        const cell = cells[cellKey(row, c)]
+                        return (
+                          <td key={cellKey(row, c)} style={{verticalAlign: 'top', width: 200}}>
+                            <Card padding={2} radius={2} border tone={cell?.status === 'failed' ? 'critical' : 'default'}>
+                              {cell?.status === 'done' && cell.url ? (
+                                <Stack space={2}>
+                                  <img src={cell.url} alt="" style={{width: '100%', display: 'block'}} />
+                                  <Flex align="center" justify="space-between">
+                                    <Text size={1} muted>{cell.cents ? gbp(cell.cents) : 'cached'}</Text>
+                                    <Button
+                                      text="Use as reference"
+                                      mode="ghost"
+                                      fontSize={1}
+                                      padding={2}
+                                      onClick={() => saveAsReference(cell.assetId!)}
+                                    />
+                                  </Flex>
+                                </Stack>
+                              ) : cell?.status === 'failed' ? (
+                                <Text size={1}>{cell.error}</Text>
+                              ) : (
+                                <Flex justify="center" padding={4}>
+                                  {cell?.status === 'running' ? <Spinner muted /> : <Text size={1} muted>queued</Text>}
+                                </Flex>
+                              )}
+                            </Card>
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Stack>
+        )}
+      </Stack>
+    </Box>
+  )
+}
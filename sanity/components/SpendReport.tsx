@@ -0,0 +1,138 @@
+/**********************************************************************
+ * SpendReport.tsx – "AI spend" pane in the Studio sidebar
+ * --------------------------------------------------------------------
+ * Totals the aiSpend ledger per day and per template for the chosen
+ * window.  Read-only; the caps themselves live in lib/budget.ts.
+ *********************************************************************/
+import React, {useEffect, useMemo, useState} from 'react'
+import {Box, Card, Flex, Heading, Select, Spinner, Stack, Text} from '@sanity/ui'
+import {useClient} from 'sanity'
+
+interface Entry {
+  at            : string
+  cents         : number
+  session?      : string
+  template?     : string
+  templateTitle?: string
+}
+
+interface Row {
+  label   : string
+  calls   : number
+  cents   : number
+  sessions: number
+}
+
+const WINDOWS = [7, 30, 90]
+
+const gbp = (cents: number) => `£${(cents / 100).toFixed(2)}`
+
+/** group entries by `keyOf`, newest / biggest first */
+function rollUp(entries: Entry[], keyOf: (e: Entry) => string): Row[] {
+  const map = new Map<string, {calls: number; cents: number; sessions: Set<string>}>()
+  for (const e of entries) {
+    const k = keyOf(e)
+    const r = map.get(k) ?? {calls: 0, cents: 0, sessions: new Set<string>()}
+    r.calls++
+    r.cents += e.cents ?? 0
+    if (e.session) r.sessions.add(e.session)
+    map.set(k, r)
+  }
+  return [...map].map(([label, r]) => ({label, calls: r.calls, cents: r.cents, sessions: r.sessions.size}))
+}
+
+function Table({title, rows}: {title: string; rows: Row[]}) {
+  const cell = {padding: '6px 12px', textAlign: 'right' as const}
+  return (
+    <Card padding={4} radius={2} shadow={1}>
+      <Stack space={3}>
+        <Heading size={1}>{title}</Heading>
+        {rows.length === 0 ? (
+          <Text muted size={1}>No spend in this window.</Text>
+        ) : (
+          <table style={{borderCollapse: 'collapse', width: '100%', fontSize: 13}}>
+            <thead>
+              <tr style={{borderBottom: '1px solid var(--card-border-color)'}}>
+                <th style={{...cell, textAlign: 'left'}}>{title.split(' ').pop()}</th>
+                <th style={cell}>Calls</th>
+                <th style={cell}>Visitors</th>
+                <th style={cell}>Spend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.label} style={{borderBottom: '1px solid var(--card-border-color)'}}>
+                  <td style={{...cell, textAlign: 'left'}}>{r.label}</td>
+                  <td style={cell}>{r.calls}</td>
+                  <td style={cell}>{r.sessions}</td>
+                  <td style={cell}>{gbp(r.cents)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Stack>
+    </Card>
+  )
+}
+
+export default function SpendReport() {
+  const client = useClient({apiVersion: '2023-10-01'})
+  const [days, setDays]       = useState(30)
+  const [entries, setEntries] = useState<Entry[] | null>(null)
+
+  useEffect(() => {
+    let live = true
+    setEntries(null)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    client
+      .fetch<Entry[]>(
+        `*[_type == "aiSpend" && at > $since]{at, cents, session, "template": template._ref, templateTitle}`,
+        {since},
+      )
+      .then(list => live && setEntries(list))
+      .catch(err => { console.error('[spend report]', err); live && setEntries([]) })
+    return () => { live = false }
+  }, [client, days])
+
+  const byDay = useMemo(
+    () => rollUp(entries ?? [], e => e.at.slice(0, 10)).sort((a, b) => b.label.localeCompare(a.label)),
+    [entries],
+  )
+  const byTemplate = useMemo(
+    () => rollUp(entries ?? [], e => e.templateTitle ?? e.template ?? 'No template').sort((a, b) => b.cents - a.cents),
+    [entries],
+  )
+  const total = byDay.reduce((a, r) => a + r.cents, 0)
+
+  return (
+    <Box padding={4}>
+      <Stack space={4}>
+        <Flex align="center" gap={3}>
+          <Box flex={1}>
+            <Heading size={2}>AI spend</Heading>
+          </Box>
+          <Select
+            value={days}
+            onChange={e => setDays(Number(e.currentTarget.value))}
+            style={{width: 160}}
+          >
+            {WINDOWS.map(d => <option key={d} value={d}>Last {d} days</option>)}
+          </Select>
+        </Flex>
+
+        {entries === null ? (
+          <Flex justify="center" padding={5}><Spinner muted /></Flex>
+        ) : (
+          <>
+            <Text size={2}>
+              <strong>{gbp(total)}</strong> across {entries.length} calls
+            </Text>
+            <Table title="Spend per template" rows={byTemplate} />
+            <Table title="Spend per day" rows={byDay} />
+          </>
+        )}
+      </Stack>
+    </Box>
+  )
+}
@@ -0,0 +1,31 @@
+/**********************************************************************
+ * sanity/lib/getProduct.ts
+ * Returns the print spec (+ price) of one cardProduct SKU
+ * – CardProduct is the one shape a product has anywhere in the app
+ *********************************************************************/
+import { sanity } from './client'
+import type { ProductSpec } from '@/lib/pageGeometry'
+
+/** One buyable SKU a template is offered as */
+export interface CardProduct extends ProductSpec {
+  _id  : string
+  title: string
+  slug?: string
+  /** £ – unset on a SKU nobody has priced yet */
+  price?: number
+}
+
+/** the GROQ projection that yields a CardProduct */
+export const PRODUCT_PROJECTION = /* groq */ `
+  _id, title, "slug": slug.current, price,
+  trimWidthMm, trimHeightMm,
+  "pageCount": coalesce(pageCount, 4)
+`
+
+/*───────────────────────────────────────────────────────────────────*/
+export async function getProduct (id: string): Promise<CardProduct | null> {
+  const query = /* groq */ `
+    *[_type == "cardProduct" && _id == $id][0]{ ${PRODUCT_PROJECTION} }
+  `
+  return sanity.fetch(query, { id })
+}
@@ -1,34 +1,106 @@
 /**********************************************************************
  * sanity/lib/getPromptForPlaceholder.ts
  * Returns prompt-metadata for an aiPlaceholder doc
+ * – with the customer's variables checked and interpolated
+ *   (lib/promptVariables); bad values throw PromptVariableError
+ * – the prompt is the live revision's (or the pinned `revision`);
+ *   placeholders never promoted fall back to the bare prompt field
+ * – an unknown id throws UnknownPlaceholderError
  *********************************************************************/
 import { sanity } from './client'
+import type { ImageProviderName } from '@/lib/imageProviders'
+import {
+  interpolate, resolveVariables, PromptVariableError,
+  type PromptValues, type PromptVariable,
+} from '@/lib/promptVariables'
+
+/** one person on a multi-face placeholder – `key` is the array _key */
+export interface FaceSlot {
+  key  : string
+  name : string
+  hint?: string
+}
 
 /** Everything the variants endpoint needs */
 export interface PlaceholderPrompt {
-  prompt    : string
-  version   : string            //  _updatedAt (for cache-busting)
+  prompt    : string            //  variables already filled in
+  version   : string            //  revision id, else _updatedAt (for cache-busting)
+  revision  : string | null     //  the revision used – null before the first promote
   refUrl?   : string            //  CDN URL for the template PNG (may be undefined)
   ratio     : '1:1' | '3:2' | '2:3'
   quality   : 'low' | 'medium' | 'high' | 'auto'
   background: 'transparent' | 'opaque' | 'auto'
-  faceSwap  : boolean
+  faceSwap  : boolean           //  unset in the Studio: on only without a refImage
+  variants  : number            //  images per generation (1-4)
+  faceSlots : FaceSlot[]        //  empty → one unnamed face
+  provider  : ImageProviderName | null  //  null → site default (IMAGE_PROVIDER)
+  values    : PromptValues      //  the resolved variables – part of the fingerprint
 }
 
+/** the GROQ projection for a placeholder's variable declarations */
+export const VARIABLES_PROJECTION = /* groq */ `
+  coalesce(variables[]{ name, label, type, "default": defaultValue, options, min, max, maxLength }, [])
+`
+
+/** thrown when there is no aiPlaceholder with the given id */
+export class UnknownPlaceholderError extends Error {}
+
+/** a placeholder's face slot keys, in slot order – empty for one unnamed face */
+export const getFaceSlotKeys = (id: string): Promise<string[]> =>
+  sanity
+    .fetch<{ keys: string[] | null } | null>(
+      `*[_type == "aiPlaceholder" && _id == $id][0]{ "keys": faceSlots[]._key }`, { id })
+    .then(doc => {
+      if (!doc) throw new UnknownPlaceholderError(`Unknown placeholder "${id}"`)
+      return doc.keys ?? []
+    })
+
 /*───────────────────────────────────────────────────────────────────*/
+/** thrown when a pinned revision doesn't exist on the placeholder */
+export class UnknownRevisionError extends Error {}
+
 export async function getPromptForPlaceholder(
   id: string,
+  given: PromptValues = {},
+  /** pin an older revision (support reproducing an image); default live */
+  revision?: string,
 ): Promise<PlaceholderPrompt> {
   const query = /* groq */ `
     *[_type == "aiPlaceholder" && _id == $id][0]{
-      "prompt"    : prompt,
-      "version"   : _updatedAt,
+      "draft"     : prompt,
+      "updatedAt" : _updatedAt,
+      "picked"    : revisions[_key == coalesce($revision, ^.liveRevision)][0]{ "key": _key, prompt },
       "refUrl"    : refImage.asset->url,
       "ratio"     : coalesce(ratio,      "1:1"),
       "quality"   : coalesce(quality,    "medium"),
       "background": coalesce(background, "transparent"),
-      "faceSwap"  : coalesce(doFaceSwap, true)
+      "faceSwap"  : coalesce(doFaceSwap, !defined(refImage.asset)),
+      "variants"  : coalesce(variantCount, 4),
+      "faceSlots" : coalesce(faceSlots[]{ "key": _key, name, hint }, []),
+      "provider"  : provider,
+      "variables" : ${VARIABLES_PROJECTION}
     }
   `
-  return sanity.fetch(query, { id })
+  const found:
+    (Omit<PlaceholderPrompt, 'prompt' | 'version' | 'revision' | 'values'> & {
+      variables: PromptVariable[]
+      draft    : string
+      updatedAt: string
+      picked   : { key: string; prompt: string } | null
+    }) | null = await sanity.fetch(query, { id, revision: revision ?? null })
+
+  if (!found) throw new UnknownPlaceholderError(`Unknown placeholder "${id}"`)
+  const { variables, draft, updatedAt, picked, ...doc } = found
+
+  if (revision && !picked) throw new UnknownRevisionError(`Unknown prompt revision "${revision}"`)
+
+  const resolved = resolveVariables(variables, given)
+  if (!resolved.ok) throw new PromptVariableError(resolved.error, resolved.name)
+  return {
+    ...doc,
+    prompt  : interpolate(picked?.prompt ?? draft, resolved.values),
+    version : picked?.key ?? updatedAt,
+    revision: picked?.key ?? null,
+    values  : resolved.values,
+  }
 }
\ No newline at end of file
@@ -6,4 +6,7 @@ export { sanity, sanityWriteClient } from './client'
 export { urlFor }                    from './image'
 
 export { getPromptForPlaceholder }   from './getPromptForPlaceholder'
-export type { PlaceholderPrompt }    from './getPromptForPlaceholder'
\ No newline at end of file
+export type { PlaceholderPrompt }    from './getPromptForPlaceholder'
+
+export { getProduct }                from './getProduct'
+export type { CardProduct }          from './getProduct'
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**********************************************************************
+ * sanity/lib/orderStatus.ts
+ * Order lifecycle – shared by the schema, the Studio structure and the
+ * fulfilment pipeline so all three agree on names and transitions.
+ *
+ *   paid ─► rendering ─► sent-to-print ─► shipped
+ *              │  ▲            │
+ *              ▼  │            └─► rendering  (confirmed reprint)
+ *          failed / held
+ *
+ * `held` waits on the moderation queue – approving the last flag
+ * renders it again (lib/fulfilment resumeHeldOrders).
+ *********************************************************************/
+
+export const ORDER_STATUSES = [
+  {value: 'paid',          title: 'Paid'},
+  {value: 'rendering',     title: 'Rendering'},
+  {value: 'sent-to-print', title: 'Sent to print'},
+  {value: 'shipped',       title: 'Shipped'},
+  {value: 'held',          title: 'Held for review'},
+  {value: 'failed',        title: 'Failed'},
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]['value']
+
+/** which statuses each status may move to */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  'paid'         : ['rendering'],
+  'rendering'    : ['sent-to-print', 'failed', 'held'],
+  'held'         : ['rendering'],
+  'failed'       : ['rendering'],
+  'sent-to-print': ['shipped', 'rendering'],
+  'shipped'      : [],
+}
+
+export const canMoveTo = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from]?.includes(to) ?? false
+
+/** statuses from which staff may re-run render + print */
+export const canRetrigger = (s: OrderStatus) => canMoveTo(s, 'rendering')
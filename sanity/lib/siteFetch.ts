@@ -0,0 +1,31 @@
+/**********************************************************************
+ * sanity/lib/siteFetch.ts
+ * Studio → site API calls, signed in as the Studio user
+ * --------------------------------------------------------------------
+ *   const siteFetch = useSiteFetch()
+ *   await siteFetch('/api/playground', {method: 'POST', …})
+ *
+ * Staff routes on the site (lib/staffAuth) want the user's Sanity
+ * token as a Bearer header.  The Studio signs in with token login
+ * (sanity.config.ts) so the client carries one to pass on.
+ *********************************************************************/
+
+import {useCallback} from 'react'
+import {useClient} from 'sanity'
+
+/** Where the Next.js API runs */
+export const FRONTEND_BASE =
+  process.env.NEXT_PUBLIC_APP_ORIGIN || 'http://localhost:3000'
+
+type SiteInit = Omit<RequestInit, 'headers'> & {headers?: Record<string, string>}
+
+export function useSiteFetch() {
+  const client = useClient({apiVersion: '2023-10-01'})
+  return useCallback((path: string, init: SiteInit = {}) => {
+    const token = client.config().token
+    return fetch(`${FRONTEND_BASE}${path}`, {
+      ...init,
+      headers: {...init.headers, ...(token ? {authorization: `Bearer ${token}`} : {})},
+    })
+  }, [client])
+}
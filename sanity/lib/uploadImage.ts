@@ -8,4 +8,48 @@ export async function uploadImageToSanity(file: File) {
   })
   // returns CDN URL; if you prefer _ref, return asset._ref
   return asset.url
-}
\ No newline at end of file
+}
+
+/** an image that lives in the asset store */
+export interface StoredImage {
+  assetId: string
+  url    : string
+}
+
+/** where a generated image came from – findable later with
+    *[_type == "sanity.imageAsset" && source.name == "walty-ai" && source.id == $fingerprint] */
+export interface GeneratedImageTag {
+  placeholderId: string
+  /** lib/variants stage fingerprint */
+  fingerprint  : string
+  stage        : 'generate' | 'swap'
+  /** what support needs to draw it again – see GeneratedImageStamp */
+  stamp        : GeneratedImageStamp
+}
+
+/** stored as JSON in the asset's description:
+    *[_type == "sanity.imageAsset" && label == "ai-variant" && description match "*<revision>*"] */
+export interface GeneratedImageStamp {
+  /** aiPlaceholder prompt revision – null if it was never promoted */
+  revision : string | null
+  provider : string
+  variables: Record<string, string>
+  /** which of the generation's slots */
+  slot     : number
+}
+
+/** PNG bytes from an image provider → asset; identical bytes share one asset */
+export async function uploadGeneratedImage(
+  png: Buffer,
+  { placeholderId, fingerprint, stage, stamp }: GeneratedImageTag,
+): Promise<StoredImage> {
+  const asset = await sanityWriteClient.assets.upload('image', png, {
+    filename   : `ai-${stage}-${fingerprint.slice(0, 12)}.png`,
+    contentType: 'image/png',
+    label      : 'ai-variant',
+    title      : placeholderId,
+    description: JSON.stringify(stamp),
+    source     : { name: 'walty-ai', id: fingerprint },
+  })
+  return { assetId: asset._id, url: asset.url }
+}
@@ -0,0 +1,79 @@
+/**********************************************************************
+ * sanity/plugins/moderationActions.ts
+ * Staff buttons on moderationFlag documents:
+ *   • Approve – the content may be printed (also overrules a block)
+ *   • Reject  – it may not; checkout refuses baskets containing it
+ *
+ * The decision goes through the site (POST /api/moderation/[id]) so
+ * an approval can resume the orders held for it straight away.
+ *********************************************************************/
+
+import {useState} from 'react'
+import type {DocumentActionComponent, DocumentActionProps} from 'sanity'
+import {CheckmarkIcon, CloseIcon} from '@sanity/icons'
+import {useToast} from '@sanity/ui'
+
+import {useSiteFetch} from '../lib/siteFetch'
+
+const statusOf = (props: DocumentActionProps) =>
+  ((props.draft ?? props.published)?.status ?? 'pending') as string
+
+/* one hook set for both buttons */
+const useDecision = (props: DocumentActionProps) => {
+  const toast     = useToast()
+  const siteFetch = useSiteFetch()
+  const [busy, setBusy] = useState(false)
+
+  const decide = async (status: 'approved' | 'rejected') => {
+    setBusy(true)
+    try {
+      const res  = await siteFetch(`/api/moderation/${props.id}`, {
+        method : 'POST',
+        headers: {'content-type': 'application/json'},
+        body   : JSON.stringify({status}),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`)
+      const resumed = json.resumed?.length
+      toast.push({
+        status: 'success',
+        title : resumed ? `Approved – ${resumed} held order(s) rendering again` : `Marked ${status}`,
+      })
+    } catch (err: any) {
+      toast.push({status: 'error', title: 'Decision not saved', description: err.message})
+    } finally {
+      setBusy(false)
+      props.onComplete()
+    }
+  }
+  return {busy, decide}
+}
+
+/* ------------------------------------------------ approve ---------- */
+export const approveFlagAction: DocumentActionComponent = (props) => {
+  const {busy, decide} = useDecision(props)
+  if (props.type !== 'moderationFlag') return null
+
+  return {
+    label   : 'Approve',
+    icon    : CheckmarkIcon,
+    tone    : 'positive',
+    disabled: busy || statusOf(props) === 'approved',
+    onHandle: () => decide('approved'),
+  }
+}
+
+/* ------------------------------------------------ reject ----------- */
+export const rejectFlagAction: DocumentActionComponent = (props) => {
+  const {busy, decide} = useDecision(props)
+  if (props.type !== 'moderationFlag') return null
+
+  const status = statusOf(props)
+  return {
+    label   : 'Reject',
+    icon    : CloseIcon,
+    tone    : 'critical',
+    disabled: busy || status === 'rejected' || status === 'blocked',
+    onHandle: () => decide('rejected'),
+  }
+}
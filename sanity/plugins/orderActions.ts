@@ -0,0 +1,91 @@
+/**********************************************************************
+ * sanity/plugins/orderActions.ts
+ * Staff buttons on order documents:
+ *   • Re-render & send – runs the fulfilment pipeline again; an order
+ *                        already at the lab needs a confirmed reprint
+ *   • Mark shipped     – final step once the lab has posted the cards
+ *********************************************************************/
+
+import {useState} from 'react'
+import type {
+  DocumentActionComponent,
+  DocumentActionProps,
+} from 'sanity'
+import {useDocumentOperation} from 'sanity'
+import {PackageIcon, RefreshIcon} from '@sanity/icons'
+import {useToast} from '@sanity/ui'
+
+import {canMoveTo, canRetrigger, type OrderStatus} from '../lib/orderStatus'
+import {useSiteFetch} from '../lib/siteFetch'
+
+const statusOf = (props: DocumentActionProps) =>
+  ((props.published ?? props.draft)?.status ?? 'paid') as OrderStatus
+
+/* ------------------------------------------------ re-render -------- */
+export const retriggerOrderAction: DocumentActionComponent = (props) => {
+  const toast     = useToast()
+  const siteFetch = useSiteFetch()
+  const [busy, setBusy] = useState(false)
+  if (props.type !== 'order') return null
+
+  const status  = statusOf(props)
+  const reprint = status === 'sent-to-print'
+
+  return {
+    label   : busy ? 'Rendering…' : 'Re-render & send',
+    icon    : RefreshIcon,
+    disabled: busy || !canRetrigger(status),
+    title   : canRetrigger(status) ? undefined : `Not possible while ${status}`,
+    onHandle: async () => {
+      if (reprint && !window.confirm('This order is already at the print lab. Print it again?')) {
+        props.onComplete()
+        return
+      }
+      setBusy(true)
+      try {
+        const res  = await siteFetch(`/api/orders/${props.id}/fulfil`, {
+          method : 'POST',
+          headers: {'content-type': 'application/json'},
+          body   : JSON.stringify({reprint}),
+        })
+        const json = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`)
+        toast.push({status: ['failed', 'held'].includes(json.status) ? 'warning' : 'success', title: `Order ${json.status}`})
+      } catch (err: any) {
+        toast.push({status: 'error', title: 'Re-render failed', description: err.message})
+      } finally {
+        setBusy(false)
+        props.onComplete()
+      }
+    },
+  }
+}
+
+/* ------------------------------------------------ shipped ---------- */
+export const markShippedAction: DocumentActionComponent = (props) => {
+  const {patch} = useDocumentOperation(props.id, props.type)
+  if (props.type !== 'order') return null
+
+  const status = statusOf(props)
+  const now    = new Date().toISOString()
+
+  return {
+    label   : 'Mark shipped',
+    icon    : PackageIcon,
+    tone    : 'positive',
+    disabled: !canMoveTo(status, 'shipped'),
+    onHandle: () => {
+      patch.execute([
+        {set: {status: 'shipped', shippedAt: now}},
+        {setIfMissing: {history: []}},
+        {
+          insert: {
+            after: 'history[-1]',
+            items: [{_key: now.replace(/\D/g, ''), _type: 'orderEvent', at: now, status: 'shipped', note: 'marked by staff'}],
+          },
+        },
+      ])
+      props.onComplete()
+    },
+  }
+}
@@ -0,0 +1,21 @@
+/**********************************************************************
+ * sanity/plugins/promptPlayground.ts
+ * Adds the "Prompt playground" tool next to Vision and Media
+ *********************************************************************/
+
+import {definePlugin} from 'sanity'
+import {ImagesIcon} from '@sanity/icons'
+
+import PromptPlayground from '../components/PromptPlayground'
+
+export const promptPlayground = definePlugin({
+  name : 'prompt-playground',
+  tools: [
+    {
+      name     : 'prompt-playground',
+      title    : 'Prompt playground',
+      icon     : ImagesIcon,
+      component: PromptPlayground,
+    },
+  ],
+})
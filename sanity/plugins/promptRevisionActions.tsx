@@ -0,0 +1,173 @@
+/**********************************************************************
+ * sanity/plugins/promptRevisionActions.tsx
+ * Staff buttons on aiPlaceholder documents:
+ *   • Promote prompt to live – snapshots the prompt field as a new
+ *     revision (with a changelog note) and makes it the live one
+ *   • Prompt history         – every revision with its note; any of
+ *     them can be made live again (rollback)
+ *
+ * Customers always get the live revision (getPromptForPlaceholder), so
+ * editing the prompt field changes nothing until it is promoted.  Both
+ * actions publish straight away.
+ *********************************************************************/
+
+import React, {useState} from 'react'
+import type {DocumentActionComponent, DocumentActionProps} from 'sanity'
+import {useCurrentUser, useDocumentOperation} from 'sanity'
+import {PublishIcon, RestoreIcon} from '@sanity/icons'
+import {Badge, Box, Button, Card, Flex, Stack, Text, TextArea} from '@sanity/ui'
+
+/** one entry of aiPlaceholder.revisions */
+interface PromptRevision {
+  _key      : string
+  prompt    : string
+  note      : string
+  createdAt : string
+  author?   : string
+}
+
+const docOf = (props: DocumentActionProps) => (props.draft ?? props.published) as
+  | {prompt?: string; revisions?: PromptRevision[]; liveRevision?: string}
+  | null
+
+const liveOf = (props: DocumentActionProps) => {
+  const doc = docOf(props)
+  return doc?.revisions?.find(r => r._key === doc.liveRevision)
+}
+
+const when = (iso: string) => new Date(iso).toLocaleString()
+
+/* ------------------------------------------------ promote ---------- */
+export const promotePromptAction: DocumentActionComponent = (props) => {
+  const {patch, publish} = useDocumentOperation(props.id, props.type)
+  const user = useCurrentUser()
+  const [open, setOpen] = useState(false)
+  const [note, setNote] = useState('')
+  if (props.type !== 'aiPlaceholder') return null
+
+  const prompt  = docOf(props)?.prompt?.trim() ?? ''
+  const live    = liveOf(props)
+  const unchanged = !!live && live.prompt === prompt
+
+  const promote = () => {
+    const now = new Date().toISOString()
+    const key = now.replace(/\D/g, '')
+    patch.execute([
+      {setIfMissing: {revisions: []}},
+      {
+        insert: {
+          after: 'revisions[-1]',
+          items: [{_key: key, _type: 'promptRevision', prompt, note: note.trim(), createdAt: now, author: user?.name}],
+        },
+      },
+      {set: {liveRevision: key}},
+    ])
+    publish.execute()
+    setOpen(false)
+    setNote('')
+    props.onComplete()
+  }
+
+  return {
+    label   : 'Promote prompt to live',
+    icon    : PublishIcon,
+    tone    : 'positive',
+    disabled: !prompt || unchanged,
+    title   : unchanged ? 'The live revision already has this prompt' : undefined,
+    onHandle: () => setOpen(true),
+    dialog  : open && {
+      type   : 'dialog',
+      header : 'Promote prompt to live',
+      onClose: () => setOpen(false),
+      content: (
+        <Stack space={4}>
+          {live && (
+            <Stack space={2}>
+              <Text size={1} weight="semibold">Live now</Text>
+              <Card padding={3} tone="transparent" border radius={2}>
+                <Text size={1} style={{whiteSpace: 'pre-wrap'}}>{live.prompt}</Text>
+              </Card>
+            </Stack>
+          )}
+          <Stack space={2}>
+            <Text size={1} weight="semibold">New revision</Text>
+            <Card padding={3} tone="positive" border radius={2}>
+              <Text size={1} style={{whiteSpace: 'pre-wrap'}}>{prompt}</Text>
+            </Card>
+          </Stack>
+          <Stack space={2}>
+            <Text size={1} weight="semibold">What changed?</Text>
+            <TextArea
+              rows={3}
+              value={note}
+              placeholder="e.g. Fixed the typo in “astronaut”"
+              onChange={e => setNote(e.currentTarget.value)}
+            />
+          </Stack>
+          <Flex justify="flex-end">
+            <Button text="Promote" tone="positive" disabled={!note.trim()} onClick={promote} />
+          </Flex>
+        </Stack>
+      ),
+    },
+  }
+}
+
+/* ------------------------------------------------ history ---------- */
+export const promptHistoryAction: DocumentActionComponent = (props) => {
+  const {patch, publish} = useDocumentOperation(props.id, props.type)
+  const [open, setOpen] = useState(false)
+  if (props.type !== 'aiPlaceholder') return null
+
+  const doc       = docOf(props)
+  const revisions = [...(doc?.revisions ?? [])].reverse()        // newest first
+
+  /* the prompt field follows, so the next promote starts from it */
+  const makeLive = (r: PromptRevision) => {
+    patch.execute([{set: {liveRevision: r._key, prompt: r.prompt}}])
+    publish.execute()
+    setOpen(false)
+    props.onComplete()
+  }
+
+  return {
+    label   : 'Prompt history',
+    icon    : RestoreIcon,
+    disabled: !revisions.length,
+    onHandle: () => setOpen(true),
+    dialog  : open && {
+      type   : 'dialog',
+      header : 'Prompt history',
+      width  : 'medium',
+      onClose: () => setOpen(false),
+      content: (
+        <Stack space={3}>
+          {revisions.map(r => {
+            const isLive = r._key === doc?.liveRevision
+            return (
+              <Card key={r._key} padding={3} border radius={2} tone={isLive ? 'positive' : 'default'}>
+                <Stack space={3}>
+                  <Flex align="center" gap={2}>
+                    <Box flex={1}>
+                      <Text size={1} weight="semibold">{r.note}</Text>
+                    </Box>
+                    {isLive && <Badge tone="positive">live</Badge>}
+                  </Flex>
+                  <Text size={1} muted>
+                    {when(r.createdAt)}{r.author && ` · ${r.author}`} · revision {r._key}
+                  </Text>
+                  <Text size={1} style={{whiteSpace: 'pre-wrap'}}>{r.prompt}</Text>
+                  {!isLive && (
+                    <Flex justify="flex-end">
+                      <Button text="Make live" mode="ghost" onClick={() => makeLive(r)} />
+                    </Flex>
+                  )}
+                </Stack>
+              </Card>
+            )
+          })}
+        </Stack>
+      ),
+    },
+  }
+}
@@ -12,12 +12,17 @@ import {deskTool}   from 'sanity/desk'
 import {media}      from 'sanity-plugin-media'
 import {visionTool} from '@sanity/vision'
 
+import {promptPlayground} from './plugins/promptPlayground'
+
 import {structure} from './structure'
 import {schemaTypes} from './schemaTypes'
 
 /* custom buttons (each sets showAsAction:'button') */
 import cardEditorAction from './plugins/cardEditorAction'
 import SaveDraftAction  from './plugins/saveDraftAction'
+import {retriggerOrderAction, markShippedAction} from './plugins/orderActions'
+import {promotePromptAction, promptHistoryAction} from './plugins/promptRevisionActions'
+import {approveFlagAction, rejectFlagAction} from './plugins/moderationActions'
 
 /* ------------------------------------------------ document actions - */
 const cardTemplateActions = (
@@ -53,6 +58,42 @@ const cardTemplateActions = (
   ]
 }
 
+/* orders are live-edited by the pipeline – staff only get our two
+   buttons plus the built-ins that can't break an order (no delete) */
+const orderActions = (
+  prev: DocumentActionComponent[],
+  ctx : any,
+): DocumentActionComponent[] => {
+  if (ctx.schemaType !== 'order') return prev
+  return [
+    retriggerOrderAction,
+    markShippedAction,
+    ...prev.filter(a => !['delete', 'duplicate', 'unpublish'].includes(a.action ?? '')),
+  ]
+}
+
+/* customers get the live prompt revision – staff promote / roll back */
+const aiPlaceholderActions = (
+  prev: DocumentActionComponent[],
+  ctx : any,
+): DocumentActionComponent[] => {
+  if (ctx.schemaType !== 'aiPlaceholder') return prev
+  return [promotePromptAction, promptHistoryAction, ...prev]
+}
+
+/* moderation flags are written by the server – staff only decide */
+const moderationFlagActions = (
+  prev: DocumentActionComponent[],
+  ctx : any,
+): DocumentActionComponent[] => {
+  if (ctx.schemaType !== 'moderationFlag') return prev
+  return [
+    approveFlagAction,
+    rejectFlagAction,
+    ...prev.filter(a => !['duplicate', 'unpublish'].includes(a.action ?? '')),
+  ]
+}
+
 /* ------------------------------------------------ main export ------- */
 export default defineConfig({
   /* project meta */
@@ -70,16 +111,25 @@ export default defineConfig({
            ?? process.env.NEXT_PUBLIC_SANITY_API_VERSION
            ?? '2023-10-01',
 
+  /* token login – the Studio passes the user's token to the site's
+     staff routes (lib/siteFetch) */
+  auth: {loginMethod: 'token'},
+
   /* plugins */
   plugins: [
     deskTool({ structure}),
     media(),
     visionTool(),
+    promptPlayground(),
   ],
 
   /* custom actions */
   document: {
-    actions: cardTemplateActions,
+    actions: (prev, ctx) =>
+      moderationFlagActions(
+        aiPlaceholderActions(orderActions(cardTemplateActions(prev, ctx), ctx), ctx),
+        ctx,
+      ),
   },
 
   /* schema */
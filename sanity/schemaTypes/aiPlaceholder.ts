@@ -3,6 +3,9 @@
  *********************************************************************/
 import {defineType, defineField} from 'sanity'
 
+/* same rule as VARIABLE_NAME in lib/promptVariables */
+const VARIABLE_NAME = /^[a-z][a-z0-9_]*$/i
+
 export default defineType({
   name : 'aiPlaceholder',
   type : 'document',
@@ -19,9 +22,113 @@ export default defineType({
       name : 'prompt',
       type : 'text',
       rows : 6,
-      title: 'Prompt sent to OpenAI',
+      title: 'Prompt sent to the image provider',
+      description: 'Customers get the live revision below – edits here take effect once you “Promote prompt to live”.',
       validation: r => r.required(),
     }),
+    /* NEW ─── Prompt revisions – written by the Studio actions ---- */
+    defineField({
+      name    : 'liveRevision',
+      type    : 'string',
+      title   : 'Live revision',
+      description: 'The revision customers get. Change it with “Prompt history”.',
+      readOnly: true,
+    }),
+    defineField({
+      name    : 'revisions',
+      type    : 'array',
+      title   : 'Prompt revisions',
+      description: 'Every promoted prompt, oldest first. Generated images are stamped with the revision id.',
+      readOnly: true,
+      of: [{
+        type  : 'object',
+        name  : 'promptRevision',
+        fields: [
+          defineField({name: 'prompt',    type: 'text',     title: 'Prompt'}),
+          defineField({name: 'note',      type: 'string',   title: 'What changed'}),
+          defineField({name: 'createdAt', type: 'datetime', title: 'Promoted at'}),
+          defineField({name: 'author',    type: 'string',   title: 'Promoted by'}),
+        ],
+        preview: {select: {title: 'note', subtitle: 'createdAt'}},
+      }],
+    }),
+    /* NEW ─── Prompt variables ---------------------------------- */
+    defineField({
+      name : 'variables',
+      type : 'array',
+      title: 'Prompt variables',
+      description: 'Filled in by the customer. Use them in the prompt as {{name}}, e.g. “Render {{name}} as a {{style}} astronaut”.',
+      of: [{
+        type  : 'object',
+        name  : 'promptVariable',
+        fields: [
+          defineField({
+            name: 'name', type: 'string', title: 'Name',
+            description: 'Letters, digits and _ – what goes between the {{ }}',
+            validation: r => r.required().regex(VARIABLE_NAME, {name: 'variable name'}),
+          }),
+          defineField({name: 'label', type: 'string', title: 'Label for the customer'}),
+          defineField({
+            name: 'type', type: 'string', title: 'Type',
+            options: {list: ['text', 'number', 'select'], layout: 'radio'},
+            initialValue: 'text',
+            validation: r => r.required(),
+          }),
+          defineField({
+            name: 'defaultValue', type: 'string', title: 'Default',
+            description: 'Used when the customer leaves it blank. No default = required.',
+            validation: r => r.custom((value, ctx) => {
+              const parent = ctx.parent as {type?: string; options?: string[]} | undefined
+              return !value || parent?.type !== 'select' || parent.options?.includes(value)
+                || 'The default must be one of the options'
+            }),
+          }),
+          defineField({
+            name: 'options', type: 'array', title: 'Options', of: [{type: 'string'}],
+            hidden: ({parent}) => parent?.type !== 'select',
+            validation: r => r.custom((options: string[] | undefined, ctx) =>
+              (ctx.parent as {type?: string})?.type !== 'select' || (options?.length ?? 0) > 0
+                || 'A select needs at least one option'),
+          }),
+          defineField({name: 'min', type: 'number', title: 'Minimum', hidden: ({parent}) => parent?.type !== 'number'}),
+          defineField({name: 'max', type: 'number', title: 'Maximum', hidden: ({parent}) => parent?.type !== 'number'}),
+          defineField({
+            name: 'maxLength', type: 'number', title: 'Max characters', description: 'Default 40',
+            hidden: ({parent}) => parent?.type !== 'text',
+            validation: r => r.integer().min(1).max(200),
+          }),
+        ],
+        preview: {select: {title: 'name', subtitle: 'type'}},
+      }],
+      validation: r => r.custom((vars: {name?: string}[] | undefined, ctx) => {
+        const names = (vars ?? []).map(v => v.name?.toLowerCase())
+        if (new Set(names).size !== names.length) return 'Variable names must be unique'
+        const slots = ((ctx.document?.faceSlots ?? []) as {name?: string}[])
+          .map(s => s.name?.trim().toLowerCase())
+        const clash = names.find(n => n && slots.includes(n))
+        return !clash || `“${clash}” is also a face slot name`
+      }),
+    }),
+    /* NEW ─── Face slots ---------------------------------------- */
+    defineField({
+      name : 'faceSlots',
+      type : 'array',
+      title: 'Face slots',
+      description: 'For couples, family or team cards: one selfie per slot. Refer to a slot in the prompt as {{name}}, e.g. {{partner 1}}. Leave empty for a single face. Needs a reference image.',
+      of: [{
+        type  : 'object',
+        name  : 'faceSlot',
+        fields: [
+          defineField({name: 'name', type: 'string', title: 'Name', validation: r => r.required()}),
+          defineField({name: 'hint', type: 'string', title: 'Hint for the customer', description: 'e.g. “the person on the left”'}),
+        ],
+        preview: {select: {title: 'name', subtitle: 'hint'}},
+      }],
+      validation: r => r.max(6).custom((slots?: {name?: string}[]) => {
+        const names = (slots ?? []).map(s => s.name?.trim().toLowerCase())
+        return new Set(names).size === names.length || 'Slot names must be unique'
+      }),
+    }),
     /* NEW ─── Aspect ratio --------------------------------------- */
     defineField({
       name : 'ratio',
@@ -71,12 +178,38 @@ export default defineType({
       initialValue: 'transparent',
       validation: r => r.required(),
     }),
+    /* NEW ─── Number of variants -------------------------------- */
+    defineField({
+      name : 'variantCount',
+      type : 'number',
+      title: 'Variants per generation',
+      description: 'Drawn in parallel. Fewer are made when the visitor is close to their daily AI budget.',
+      options: {list: [1, 2, 3, 4], layout: 'radio'},
+      initialValue: 4,
+      validation: r => r.required().integer().min(1).max(4),
+    }),
+    /* NEW ─── Image provider ------------------------------------ */
+    defineField({
+      name : 'provider',
+      type : 'string',
+      title: 'Image provider',
+      description: 'Leave empty for the site default. Give two placeholders different providers to A/B them.',
+      options: {
+        list: [
+          {title:'OpenAI (gpt-image-1)', value:'openai'},
+          {title:'Face-swap service',    value:'faceswap'},
+          {title:'Fake (offline, free)', value:'fake'},
+        ],
+        layout: 'radio',
+      },
+    }),
     /* NEW ─── Face-swap toggle ---------------------------------- */
     defineField({
       name : 'doFaceSwap',
       type : 'boolean',
       title: 'Perform face-swap after generation?',
-      initialValue: true,
+      description: 'Runs the generated image through the face-swap service with the selfie – an extra paid call per image, skipped while the service isn\'t configured. Needed when there is no reference image; left unset, it is on only then.',
+      initialValue: false,
     }),
 
     /* optional reference image */
@@ -0,0 +1,66 @@
+/**********************************************************************
+ * aiSpend.ts – one paid AI call (ledger entry)
+ * --------------------------------------------------------------------
+ * Written by lib/budget.ts after every image generation and paid
+ * background removal; the rolling daily caps and the "AI spend"
+ * report both read these.  Entries are never edited – the _id is
+ * `aiSpend.<token>`.
+ *********************************************************************/
+import {defineType, defineField} from 'sanity'
+import {BillIcon} from '@sanity/icons'
+
+export default defineType({
+  name : 'aiSpend',
+  type : 'document',
+  title: 'AI spend',
+  icon : BillIcon,
+  readOnly: true,
+
+  fields: [
+    defineField({name: 'at',        type: 'datetime', title: 'When'}),
+    defineField({
+      name   : 'provider',
+      type   : 'string',
+      title  : 'Provider',
+      options: {list: ['openai', 'faceswap', 'fake', 'removebg', 'facedetect']},
+    }),
+    defineField({
+      name   : 'stage',
+      type   : 'string',
+      title  : 'Stage',
+      options: {list: ['generate', 'swap', 'cutout', 'preflight']},
+    }),
+    defineField({name: 'units',     type: 'number', title: 'Units (images)'}),
+    defineField({name: 'unitCents', type: 'number', title: 'Cost per unit (¢)'}),
+    defineField({name: 'cents',     type: 'number', title: 'Total (¢)'}),
+    defineField({name: 'session',   type: 'string', title: 'Visitor session'}),
+    defineField({
+      name : 'placeholder',
+      type : 'reference',
+      title: 'AI placeholder',
+      to   : [{type: 'aiPlaceholder'}],
+      weak : true,
+    }),
+    defineField({
+      name : 'template',
+      type : 'reference',
+      title: 'Card template',
+      to   : [{type: 'cardTemplate'}],
+      weak : true,
+    }),
+    /* kept so the report survives the template being deleted */
+    defineField({name: 'templateTitle', type: 'string', hidden: true}),
+  ],
+
+  orderings: [
+    {title: 'Newest first', name: 'atDesc', by: [{field: 'at', direction: 'desc'}]},
+  ],
+
+  preview: {
+    select: {cents: 'cents', provider: 'provider', stage: 'stage', at: 'at', title: 'templateTitle'},
+    prepare: ({cents, provider, stage, at, title}) => ({
+      title   : `£${((cents ?? 0) / 100).toFixed(2)} – ${title ?? 'no template'}`,
+      subtitle: [provider, stage, at && new Date(at).toLocaleString('en-GB')].filter(Boolean).join(' · '),
+    }),
+  },
+})
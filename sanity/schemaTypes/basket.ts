@@ -0,0 +1,115 @@
+/**********************************************************************
+ * basket.ts – a shopper's basket (one per browser, cookie-keyed)
+ * --------------------------------------------------------------------
+ * _id = `basket.<token>` (private, see lib/tokens).  Each line item
+ * freezes the design at the moment it was added, so later edits to the
+ * project or template never change what was paid for.
+ *********************************************************************/
+import {defineType, defineField, defineArrayMember} from 'sanity'
+import {layerMembers} from './cardTemplate'
+
+/* ---------- reusable objects ------------------------------------- */
+export const recipientFields = [
+  defineField({name: 'name',     type: 'string', title: 'Name'}),
+  defineField({name: 'line1',    type: 'string', title: 'Address line 1'}),
+  defineField({name: 'line2',    type: 'string', title: 'Address line 2'}),
+  defineField({name: 'city',     type: 'string', title: 'Town / city'}),
+  defineField({name: 'postcode', type: 'string', title: 'Postcode'}),
+  defineField({name: 'country',  type: 'string', title: 'Country (ISO code)', initialValue: 'GB'}),
+]
+
+export const pagesSnapshotField = defineField({
+  name : 'pages',
+  type : 'array',
+  title: 'Design snapshot',
+  readOnly: true,
+  of: [
+    defineArrayMember({
+      type: 'object',
+      name: 'page',
+      fields: [
+        defineField({name: 'name',   type: 'string', hidden: true}),
+        defineField({name: 'layers', type: 'array',  of: layerMembers}),
+      ],
+      preview: {select: {title: 'name'}},
+    }),
+  ],
+})
+
+/* ---------- schema ------------------------------------------------ */
+export default defineType({
+  name : 'basket',
+  type : 'document',
+  title: 'Basket',
+
+  fields: [
+    defineField({
+      name : 'status',
+      type : 'string',
+      title: 'Status',
+      options: {list: ['open', 'paying', 'paid'], layout: 'radio'},
+      initialValue: 'open',
+      readOnly: true,
+    }),
+
+    defineField({
+      name : 'items',
+      type : 'array',
+      title: 'Items',
+      of: [
+        defineArrayMember({
+          type: 'object',
+          name: 'basketItem',
+          fields: [
+            defineField({name: 'template', type: 'reference', to: [{type: 'cardTemplate'}], weak: true}),
+            defineField({name: 'product',  type: 'reference', to: [{type: 'cardProduct'}],  weak: true}),
+            defineField({name: 'project',  type: 'string', title: 'Project token', hidden: true}),
+            /* price + name frozen when added */
+            defineField({name: 'title',        type: 'string', title: 'Card'}),
+            defineField({name: 'productTitle', type: 'string', title: 'Size'}),
+            defineField({name: 'unitPrice',    type: 'number', title: 'Unit price (£)'}),
+            defineField({
+              name: 'quantity', type: 'number', title: 'Quantity', initialValue: 1,
+              validation: r => r.required().integer().min(1).max(50),
+            }),
+            defineField({name: 'recipient',    type: 'object', title: 'Send to', fields: recipientFields}),
+            defineField({name: 'deliveryDate', type: 'date',   title: 'Deliver on'}),
+            pagesSnapshotField,
+            defineField({name: 'json', type: 'text', hidden: true}),
+          ],
+          preview: {
+            select: {title: 'title', size: 'productTitle', qty: 'quantity', to: 'recipient.name'},
+            prepare: ({title, size, qty, to}) => ({
+              title   : `${qty ?? 1} × ${title ?? 'Card'}`,
+              subtitle: [size, to && `to ${to}`].filter(Boolean).join(' · '),
+            }),
+          },
+        }),
+      ],
+    }),
+
+    /* filled in at checkout */
+    defineField({name: 'total',  type: 'number',   title: 'Total paid (£)', readOnly: true}),
+    defineField({name: 'paidAt', type: 'datetime', title: 'Paid at',        readOnly: true}),
+    defineField({name: 'payingSince', type: 'datetime', title: 'Paying since', readOnly: true, hidden: true}),
+    defineField({
+      name : 'payment',
+      type : 'object',
+      title: 'Payment',
+      readOnly: true,
+      fields: [
+        defineField({name: 'provider', type: 'string'}),
+        defineField({name: 'id',       type: 'string'}),
+      ],
+    }),
+  ],
+
+  preview: {
+    select: {status: 'status', items: 'items', total: 'total', updated: '_updatedAt'},
+    prepare: ({status, items, total, updated}) => ({
+      title   : `${status === 'paid' ? 'Paid' : 'Open'} basket · ${items?.length ?? 0} item(s)`,
+      subtitle: [total != null && `£${Number(total).toFixed(2)}`, updated && new Date(updated).toLocaleString()]
+        .filter(Boolean).join(' · '),
+    }),
+  },
+})
@@ -21,7 +21,8 @@ const fieldsets = [
 ]
 
 /*──────────────── reusable layer members ───────────────────────────*/
-const layerMembers = [
+/* shared with customerProject – a saved design stores the same layers */
+export const layerMembers = [
   /* locked background image (inline) */
   defineArrayMember({
     type: 'image',
@@ -0,0 +1,70 @@
+/**********************************************************************
+ * customerProject.ts – a shopper's personalised copy of a template
+ * --------------------------------------------------------------------
+ * Created by /api/projects on the first save and auto-saved from the
+ * customer editor.  The _id is `customerProject.<token>` – the dotted
+ * prefix keeps it out of public (unauthenticated) queries and the
+ * token doubles as the share link: /cards/<slug>/customise/<token>
+ *********************************************************************/
+import {defineType, defineField, defineArrayMember} from 'sanity'
+import {layerMembers} from './cardTemplate'
+
+export default defineType({
+  name : 'customerProject',
+  type : 'document',
+  title: 'Customer project',
+
+  fields: [
+    defineField({
+      name : 'template',
+      type : 'reference',
+      title: 'Started from',
+      to   : [{type: 'cardTemplate'}],
+      weak : true,          // deleting a template must not be blocked
+      readOnly: true,
+      validation: r => r.required(),
+    }),
+    defineField({
+      name : 'product',
+      type : 'reference',
+      title: 'Chosen size',
+      to   : [{type: 'cardProduct'}],
+      weak : true,
+    }),
+
+    /* same page / layer shape as cardTemplate.pages */
+    defineField({
+      name : 'pages',
+      type : 'array',
+      title: 'Pages (Front · Inner-L · Inner-R · Back)',
+      of: [
+        defineArrayMember({
+          type: 'object',
+          name: 'page',
+          fields: [
+            defineField({name: 'name',   type: 'string', hidden: true}),
+            defineField({name: 'layers', type: 'array',  of: layerMembers}),
+          ],
+          preview: {select: {title: 'name'}},
+        }),
+      ],
+      validation: r => r.length(4),
+    }),
+
+    /* hidden raw JSON mirror – round-trip safety-net */
+    defineField({name: 'json', type: 'text', hidden: true}),
+  ],
+
+  preview: {
+    select: {
+      title  : 'template.title',
+      media  : 'template.coverImage',
+      updated: '_updatedAt',
+    },
+    prepare: ({title, media, updated}) => ({
+      title   : title ?? '(template deleted)',
+      subtitle: updated ? `saved ${new Date(updated).toLocaleString()}` : undefined,
+      media,
+    }),
+  },
+})
@@ -5,6 +5,11 @@ import {defineType, defineField} from 'sanity'
 import {ImageIcon}               from '@sanity/icons'
 import React                     from 'react'
 
+/* same rules as maskPath in lib/imageMasks */
+const MASK_PRESETS  = ['circle', 'oval', 'heart', 'rounded', 'arch']
+const MASK_PATH     = /^[Mm][MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]*$/
+const MASK_PATH_MAX = 4000
+
 export default defineType({
   name : 'editableImage',
   type : 'object',
@@ -16,6 +21,12 @@ export default defineType({
     ...(['x','y','w','h','width','height','scaleX','scaleY','opacity'] as const)
       .map((n) => defineField({name: n, type: 'number', hidden: true})),
 
+    /* colour / blur adjustments – lib/imageAdjustments */
+    ...(['brightness','contrast','saturation','warmth','blur'] as const)
+      .map((n) => defineField({name: n, type: 'number', hidden: true})),
+    ...(['grayscale','sepia'] as const)
+      .map((n) => defineField({name: n, type: 'boolean', hidden: true})),
+
     /* uploaded Sanity asset */
     defineField({
       name : 'src',
@@ -26,6 +37,26 @@ export default defineType({
 
     /* raw URL / blob while the upload is still in progress */
     defineField({name: 'srcUrl', type: 'url', hidden: true}),
+
+    /* ── shaped photo ── */
+    defineField({
+      name : 'mask',
+      type : 'string',
+      title: 'Shape',
+      description: `${MASK_PRESETS.join(', ')} – or an SVG path drawn in a 100 × 100 box, stretched over the cropped photo`,
+      validation: r => r.custom((mask?: string) => {
+        if (!mask || MASK_PRESETS.includes(mask)) return true
+        if (mask.trim().length > MASK_PATH_MAX) return `A custom shape can be at most ${MASK_PATH_MAX} characters`
+        return MASK_PATH.test(mask.trim()) || 'Use a shape name or an SVG path starting with "M"'
+      }),
+    }),
+    defineField({
+      name : 'photoSlot',
+      type : 'boolean',
+      title: 'Photo slot',
+      description: 'Customers drop their own photo into this shape – its place and shape stay as designed',
+      hidden: ({parent}) => !parent?.mask,
+    }),
   ],
 
   /* ── layer-list preview ── */
@@ -4,11 +4,16 @@
 
    import cardTemplate  from './cardTemplate'
    import cardProduct   from './cardProduct'
+   import customerProject from './customerProject'
+   import basket        from './basket'
+   import order         from './order'
    import page          from './page'
    
    /* AI-related ---------------------------------------------------- */
    import aiPlaceholder from './aiPlaceholder'
    import aiLayer       from './aiLayer'
+   import aiSpend       from './aiSpend'
+   import moderationFlag from './moderationFlag'
    
    /* core editable objects ---------------------------------------- */
    import editableImage from './editableImage'
@@ -26,8 +31,13 @@
      /* documents */
     cardTemplate,
     cardProduct,
+    customerProject,
+    basket,
+    order,
     page,
     aiPlaceholder,
+    aiSpend,
+    moderationFlag,
    
      /* objects */
     aiLayer,
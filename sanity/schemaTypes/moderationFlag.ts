@@ -0,0 +1,80 @@
+/**********************************************************************
+ * moderationFlag.ts – one upload / text / generated image that
+ * moderation didn't simply allow
+ * --------------------------------------------------------------------
+ * Written by lib/moderation.ts – one document per image or text, so
+ * a decision sticks.  Staff work the "Moderation" queue with the
+ * Approve / Reject buttons (plugins/moderationActions); an order
+ * containing anything pending or rejected is held at fulfilment, and
+ * resumes once all of it is approved.
+ *********************************************************************/
+import {defineType, defineField} from 'sanity'
+import {WarningOutlineIcon} from '@sanity/icons'
+
+export const MODERATION_STATUSES = [
+  {title: 'Needs review', value: 'pending'},
+  {title: 'Approved',     value: 'approved'},
+  {title: 'Rejected',     value: 'rejected'},
+  {title: 'Blocked',      value: 'blocked'},
+]
+
+export default defineType({
+  name : 'moderationFlag',
+  type : 'document',
+  title: 'Moderation flag',
+  icon : WarningOutlineIcon,
+  readOnly: true,
+
+  fields: [
+    defineField({
+      name   : 'status',
+      type   : 'string',
+      title  : 'Status',
+      options: {list: MODERATION_STATUSES, layout: 'radio', direction: 'horizontal'},
+    }),
+    defineField({
+      name   : 'kind',
+      type   : 'string',
+      title  : 'What',
+      options: {list: [
+        {title: 'Customer upload', value: 'upload'},
+        {title: 'Customer text',   value: 'text'},
+        {title: 'Generated image', value: 'generated'},
+      ]},
+    }),
+    defineField({name: 'image', type: 'image', title: 'Image', hidden: ({document}) => !document?.image}),
+    defineField({name: 'text',  type: 'text',  title: 'Text',  rows: 3, hidden: ({document}) => !document?.text}),
+    defineField({
+      name   : 'verdict',
+      type   : 'string',
+      title  : 'Verdict',
+      options: {list: ['flag', 'block']},
+    }),
+    defineField({name: 'categories', type: 'array', title: 'Categories', of: [{type: 'string'}]}),
+    defineField({name: 'reason',     type: 'string', title: 'Why'}),
+    defineField({name: 'provider',   type: 'string', title: 'Checked by'}),
+    defineField({
+      name       : 'source',
+      type       : 'string',
+      title      : 'Seen in',
+      description: 'upload · variables:<placeholder> · variants:<placeholder> · basket:<token>',
+    }),
+    defineField({name: 'session',    type: 'string',   title: 'Visitor session'}),
+    defineField({name: 'createdAt',  type: 'datetime', title: 'Flagged'}),
+    defineField({name: 'reviewedAt', type: 'datetime', title: 'Reviewed'}),
+    defineField({name: 'reviewedBy', type: 'string',   title: 'Reviewed by'}),
+  ],
+
+  orderings: [
+    {title: 'Newest first', name: 'createdDesc', by: [{field: 'createdAt', direction: 'desc'}]},
+  ],
+
+  preview: {
+    select: {status: 'status', kind: 'kind', text: 'text', image: 'image', categories: 'categories', at: 'createdAt'},
+    prepare: ({status, kind, text, image, categories, at}) => ({
+      title   : text ? `“${String(text).slice(0, 60)}”` : `${kind ?? 'image'} – ${(categories ?? []).join(', ') || 'unchecked'}`,
+      subtitle: [status, at && new Date(at).toLocaleString('en-GB')].filter(Boolean).join(' · '),
+      media   : image,
+    }),
+  },
+})
@@ -0,0 +1,155 @@
+/**********************************************************************
+ * order.ts – a paid basket on its way to the printer
+ * --------------------------------------------------------------------
+ * Created from the basket at checkout (lib/fulfilment), _id
+ * `order.<basket token>` so a retried checkout can't double-order.
+ * Every line item keeps a frozen copy of the customer's layers, its
+ * own render status and the print-ready PDF that went to the printer.
+ *********************************************************************/
+import {defineType, defineField, defineArrayMember} from 'sanity'
+import {recipientFields, pagesSnapshotField} from './basket'
+import {ORDER_STATUSES} from '../lib/orderStatus'
+
+const RENDER_STATUSES = ['pending', 'rendering', 'done', 'failed']
+
+export default defineType({
+  name : 'order',
+  type : 'document',
+  title: 'Order',
+  liveEdit: true,          // staff actions patch the live doc, no drafts
+
+  groups: [
+    {name: 'status', title: 'Status', default: true},
+    {name: 'items',  title: 'Items'},
+    {name: 'money',  title: 'Payment'},
+  ],
+
+  fields: [
+    /* —— status ———————————————————————————— */
+    defineField({
+      name : 'orderNumber',
+      type : 'string',
+      title: 'Order number',
+      group: 'status',
+      readOnly: true,
+    }),
+    defineField({
+      name : 'status',
+      type : 'string',
+      title: 'Status',
+      group: 'status',
+      options: {list: ORDER_STATUSES.map(s => ({...s})), layout: 'radio'},
+      initialValue: 'paid',
+      readOnly: true,                       // use the document actions
+      validation: r => r.required(),
+    }),
+    defineField({name: 'placedAt',  type: 'datetime', title: 'Placed',  group: 'status', readOnly: true}),
+    defineField({name: 'shippedAt', type: 'datetime', title: 'Shipped', group: 'status', readOnly: true}),
+    defineField({
+      name : 'printRun',
+      type : 'number',
+      title: 'Print run',
+      description: 'Bumped by each confirmed reprint – the print lab de-duplicates jobs by order + run',
+      group: 'status',
+      readOnly: true,
+    }),
+    defineField({
+      name : 'history',
+      type : 'array',
+      title: 'History',
+      group: 'status',
+      readOnly: true,
+      of: [
+        defineArrayMember({
+          type: 'object',
+          name: 'orderEvent',
+          fields: [
+            defineField({name: 'at',     type: 'datetime'}),
+            defineField({name: 'status', type: 'string'}),
+            defineField({name: 'note',   type: 'string'}),
+          ],
+          preview: {
+            select : {title: 'status', at: 'at', note: 'note'},
+            prepare: ({title, at, note}) => ({
+              title,
+              subtitle: [at && new Date(at).toLocaleString(), note].filter(Boolean).join(' · '),
+            }),
+          },
+        }),
+      ],
+    }),
+
+    /* —— items ————————————————————————————— */
+    defineField({
+      name : 'items',
+      type : 'array',
+      title: 'Line items',
+      group: 'items',
+      of: [
+        defineArrayMember({
+          type: 'object',
+          name: 'orderItem',
+          fields: [
+            defineField({name: 'template', type: 'reference', to: [{type: 'cardTemplate'}], weak: true, readOnly: true}),
+            defineField({name: 'product',  type: 'reference', to: [{type: 'cardProduct'}],  weak: true, readOnly: true}),
+            defineField({name: 'title',        type: 'string', title: 'Card',           readOnly: true}),
+            defineField({name: 'productTitle', type: 'string', title: 'Size',           readOnly: true}),
+            defineField({name: 'unitPrice',    type: 'number', title: 'Unit price (£)', readOnly: true}),
+            defineField({name: 'quantity',     type: 'number', title: 'Quantity',       readOnly: true}),
+
+            /* shipping */
+            defineField({name: 'recipient',    type: 'object', title: 'Ship to', fields: recipientFields}),
+            defineField({name: 'deliveryDate', type: 'date',   title: 'Deliver on'}),
+            defineField({name: 'tracking',     type: 'string', title: 'Tracking number'}),
+
+            /* rendering */
+            defineField({
+              name: 'renderStatus', type: 'string', title: 'Render status', readOnly: true,
+              options: {list: RENDER_STATUSES}, initialValue: 'pending',
+            }),
+            defineField({name: 'renderError', type: 'string', title: 'Render error', readOnly: true}),
+            defineField({name: 'printFile',   type: 'file',   title: 'Print file (PDF)', readOnly: true}),
+
+            pagesSnapshotField,
+            defineField({name: 'json', type: 'text', hidden: true}),
+          ],
+          preview: {
+            select: {title: 'title', size: 'productTitle', qty: 'quantity', to: 'recipient.name', render: 'renderStatus'},
+            prepare: ({title, size, qty, to, render}) => ({
+              title   : `${qty ?? 1} × ${title ?? 'Card'}`,
+              subtitle: [size, to && `to ${to}`, render].filter(Boolean).join(' · '),
+            }),
+          },
+        }),
+      ],
+    }),
+
+    /* —— payment ——————————————————————————— */
+    defineField({name: 'total', type: 'number', title: 'Total paid (£)', group: 'money', readOnly: true}),
+    defineField({
+      name : 'payment',
+      type : 'object',
+      title: 'Payment',
+      group: 'money',
+      readOnly: true,
+      fields: [
+        defineField({name: 'provider', type: 'string'}),
+        defineField({name: 'id',       type: 'string'}),
+      ],
+    }),
+    defineField({name: 'basket', type: 'string', title: 'Basket token', group: 'money', hidden: true}),
+  ],
+
+  orderings: [
+    {title: 'Newest first', name: 'placedDesc', by: [{field: 'placedAt', direction: 'desc'}]},
+  ],
+
+  preview: {
+    select: {number: 'orderNumber', status: 'status', total: 'total', placed: 'placedAt'},
+    prepare: ({number, status, total, placed}) => ({
+      title   : `${number ?? 'Order'} · ${status ?? ''}`,
+      subtitle: [total != null && `£${Number(total).toFixed(2)}`, placed && new Date(placed).toLocaleString()]
+        .filter(Boolean).join(' · '),
+    }),
+  },
+})
@@ -3,6 +3,9 @@
  *********************************************************************/
 
 import type {StructureBuilder, StructureResolver} from 'sanity/desk'
+import {ORDER_STATUSES} from './lib/orderStatus'
+import {MODERATION_STATUSES} from './schemaTypes/moderationFlag'
+import SpendReport from './components/SpendReport'
 
 /* ------------------------------------------------------------------ */
 /* 1️⃣  helper – our 3-tab editor that’s already defined inside
@@ -23,13 +26,76 @@ const cardTemplateList = (S: StructureBuilder) =>
     .child((id) => cardTemplateNode(S, id))
 
 /* ------------------------------------------------------------------ */
-/* 3️⃣  main sidebar structure                                        */
+/* 3️⃣  helper – orders, newest first, one list per status            */
+/* ------------------------------------------------------------------ */
+const orderList = (S: StructureBuilder, title: string, filter: string, params = {}) =>
+  S.documentList()
+    .title(title)
+    .schemaType('order')
+    .filter(filter)
+    .params(params)
+    .defaultOrdering([{field: 'placedAt', direction: 'desc'}])
+
+const ordersNode = (S: StructureBuilder) =>
+  S.list()
+    .title('Orders')
+    .items([
+      S.listItem()
+        .title('All orders')
+        .child(orderList(S, 'All orders', '_type == "order"')),
+      S.listItem()
+        .title('Needs attention')
+        .child(orderList(S, 'Needs attention', '_type == "order" && status == "failed"')),
+      S.divider(),
+      ...ORDER_STATUSES.map(({value, title}) =>
+        S.listItem()
+          .id(`orders-${value}`)
+          .title(title)
+          .child(orderList(S, title, '_type == "order" && status == $status', {status: value})),
+      ),
+    ])
+
+/* ------------------------------------------------------------------ */
+/* 4️⃣  helper – the moderation review queue, oldest pending first    */
+/* ------------------------------------------------------------------ */
+const flagList = (S: StructureBuilder, title: string, filter: string, params = {}, direction: 'asc' | 'desc' = 'desc') =>
+  S.documentList()
+    .title(title)
+    .schemaType('moderationFlag')
+    .filter(filter)
+    .params(params)
+    .defaultOrdering([{field: 'createdAt', direction}])
+
+const moderationNode = (S: StructureBuilder) =>
+  S.list()
+    .title('Moderation')
+    .items([
+      ...MODERATION_STATUSES.map(({value, title}) =>
+        S.listItem()
+          .id(`moderation-${value}`)
+          .title(title)
+          .child(flagList(S, title, '_type == "moderationFlag" && status == $status', {status: value},
+            value === 'pending' ? 'asc' : 'desc')),
+      ),
+      S.divider(),
+      S.listItem()
+        .title('All flags')
+        .child(flagList(S, 'All flags', '_type == "moderationFlag"')),
+    ])
+
+/* ------------------------------------------------------------------ */
+/* 5️⃣  main sidebar structure                                        */
 /* ------------------------------------------------------------------ */
 export const structure: StructureResolver = (S: StructureBuilder) =>
   S.list()
     .title('Content')
     .items([
       /* day-to-day documents -------------------------------------- */
+      S.listItem()
+        .title('Orders')
+        .schemaType('order')
+        .child(ordersNode(S)),
+
       S.listItem()
         .title('Card templates')
         .schemaType('cardTemplate')
@@ -37,8 +103,53 @@ export const structure: StructureResolver = (S: StructureBuilder) =>
 
       S.documentTypeListItem('cardProduct').title('Card products'),
 
+      S.listItem()
+        .title('Customer projects')
+        .schemaType('customerProject')
+        .child(
+          S.documentTypeList('customerProject')
+            .title('Customer projects')
+            .defaultOrdering([{field: '_updatedAt', direction: 'desc'}]),
+        ),
+
+      S.listItem()
+        .title('Baskets')
+        .schemaType('basket')
+        .child(
+          S.documentTypeList('basket')
+            .title('Baskets')
+            .defaultOrdering([{field: '_updatedAt', direction: 'desc'}]),
+        ),
+
       S.documentTypeListItem('page').title('Site pages'),
 
+      /* flagged uploads, wording and generated images --------------- */
+      S.listItem()
+        .title('Moderation')
+        .schemaType('moderationFlag')
+        .child(moderationNode(S)),
+
+      /* AI cost guard-rail – report + raw ledger ------------------ */
+      S.listItem()
+        .title('AI spend')
+        .schemaType('aiSpend')
+        .child(
+          S.list()
+            .title('AI spend')
+            .items([
+              S.listItem()
+                .title('Report')
+                .child(S.component(SpendReport).id('spend-report').title('AI spend report')),
+              S.listItem()
+                .title('Ledger')
+                .child(
+                  S.documentTypeList('aiSpend')
+                    .title('Ledger')
+                    .defaultOrdering([{field: 'at', direction: 'desc'}]),
+                ),
+            ]),
+        ),
+
       /* look-ups & presets tucked into a drawer ------------------- */
       S.listItem()
         .title('Taxonomies')
@@ -0,0 +1,107 @@
+/**********************************************************************
+ * scripts/image-provider-check.ts
+ * Offline checks for lib/imageProviders
+ * --------------------------------------------------------------------
+ *   npm run check:images
+ *
+ * Exercises the fake provider end to end (edit, generate, faceSwap)
+ * and the provider selection rules – no network, no API keys.  Exits
+ * non-zero when a check fails.
+ *********************************************************************/
+import assert from 'assert/strict'
+import sharp  from 'sharp'
+
+import { getImageProvider, type ImageSpec } from '../lib/imageProviders'
+
+const solid = (r: number, g: number, b: number, width = 300, height = 200) =>
+  sharp({ create: { width, height, channels: 4, background: { r, g, b, alpha: 1 } } }).png().toBuffer()
+
+const isPng = (b: Buffer) => b.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))
+
+const spec: ImageSpec = {
+  prompt    : 'a birthday party in the garden',
+  size      : '1536x1024',
+  quality   : 'low',
+  background: 'transparent',
+  n         : 2,
+}
+
+/* ---------- the checks ------------------------------------------- */
+const checks: [string, () => Promise<void>][] = [
+  ['edit returns n PNGs at the requested size', async () => {
+    const out = await getImageProvider('fake').edit([await solid(200, 30, 30), await solid(30, 30, 200)], spec)
+    assert.equal(out.length, 2)
+    for (const png of out) {
+      assert.ok(isPng(png))
+      const { width, height } = await sharp(png).metadata()
+      assert.deepEqual([width, height], [1536, 1024])
+    }
+    assert.ok(!out[0].equals(out[1]), 'variants should differ')
+  }],
+
+  ['edit is deterministic', async () => {
+    const inputs = [await solid(10, 120, 40), await solid(240, 200, 10)]
+    const a = await getImageProvider('fake').edit(inputs, spec)
+    const b = await getImageProvider('fake').edit(inputs, spec)
+    assert.ok(a.every((png, i) => png.equals(b[i])))
+  }],
+
+  ['edit places every face after the template', async () => {
+    const fake = getImageProvider('fake')
+    const tpl  = await solid(90, 90, 90)
+    const [one] = await fake.edit([tpl, await solid(255, 0, 0)], { ...spec, n: 1 })
+    const [two] = await fake.edit([tpl, await solid(255, 0, 0), await solid(0, 255, 0)], { ...spec, n: 1 })
+    assert.ok(!one.equals(two))
+  }],
+
+  ['generate follows the prompt', async () => {
+    const fake = getImageProvider('fake')
+    const [a] = await fake.generate({ ...spec, n: 1 })
+    const [b] = await fake.generate({ ...spec, n: 1 })
+    const [c] = await fake.generate({ ...spec, n: 1, prompt: 'a wedding on the beach' })
+    assert.ok(a.equals(b))
+    assert.ok(!a.equals(c))
+  }],
+
+  ['faceSwap keeps the target size', async () => {
+    const out = await getImageProvider('fake').faceSwap(await solid(0, 0, 0, 640, 480), await solid(255, 255, 255))
+    const { width, height } = await sharp(out).metadata()
+    assert.deepEqual([width, height], [640, 480])
+  }],
+
+  ['selection: placeholder → IMAGE_PROVIDER → openai', async () => {
+    delete process.env.IMAGE_PROVIDER
+    assert.equal(getImageProvider(null).name, 'openai')
+    assert.equal(getImageProvider('faceswap').name, 'faceswap')
+    process.env.IMAGE_PROVIDER = 'fake'
+    assert.equal(getImageProvider(null).name, 'fake')
+    assert.equal(getImageProvider('openai').name, 'openai')
+    delete process.env.IMAGE_PROVIDER
+  }],
+
+  ['selection: IMAGE_PROVIDER_FORCE wins', async () => {
+    process.env.IMAGE_PROVIDER_FORCE = 'fake'
+    assert.equal(getImageProvider('openai').name, 'fake')
+    delete process.env.IMAGE_PROVIDER_FORCE
+  }],
+
+  ['unknown provider is rejected', async () => {
+    assert.throws(() => getImageProvider('dall-e'), /Unknown image provider/)
+  }],
+]
+
+/* ---------- runner ----------------------------------------------- */
+;(async () => {
+  let failed = 0
+  for (const [name, check] of checks) {
+    try {
+      await check()
+      console.log(`  ✓ ${name}`)
+    } catch (err) {
+      failed++
+      console.log(`  ✗ ${name}\n    ${(err as Error).message}`)
+    }
+  }
+  console.log(failed ? `\n${failed} check(s) failed` : '\nall checks pass')
+  process.exit(failed ? 1 : 0)
+})()
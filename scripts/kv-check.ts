@@ -0,0 +1,140 @@
+/**********************************************************************
+ * scripts/kv-check.ts
+ * Runs the same KV behaviour checks against every driver
+ * --------------------------------------------------------------------
+ *   npm run check:kv
+ *
+ * memory + sqlite always run (sqlite in a throw-away file); redis runs
+ * when KV_REDIS_URL points at a server and is reported as skipped
+ * otherwise.  Every check runs against every driver and each failure
+ * is printed; the exit code is non-zero at the end if any failed.
+ *
+ * This is a manual smoke check, not a test: the repo has no test
+ * runner and nothing runs it in CI.  Run it by hand after touching
+ * lib/kv or a driver.  tsx needs esbuild's binary for your platform – if it
+ * complains about a missing @esbuild/<platform> package, reinstall
+ * (`npm ci`) or run it with a globally installed tsx.
+ *********************************************************************/
+import assert           from 'assert/strict'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir }       from 'os'
+import path             from 'path'
+
+import { createKV, type KVStore } from '../lib/kv'
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+/* ---------- the checks ------------------------------------------- */
+const checks: [string, (kv: KVStore) => Promise<void>][] = [
+  ['missing key reads as null', async kv => {
+    assert.equal(await kv.get('nope'), null)
+    assert.equal(await kv.ttl('nope'), null)
+  }],
+
+  ['round-trips JSON values', async kv => {
+    const value = { a: 1, b: ['x', null], c: { d: true } }
+    await kv.set('json', value)
+    assert.deepEqual(await kv.get('json'), value)
+    await kv.set('str', 'plain string')
+    assert.equal(await kv.get('str'), 'plain string')
+    await kv.set('zero', 0)
+    assert.equal(await kv.get('zero'), 0)
+  }],
+
+  ['set overwrites', async kv => {
+    await kv.set('ow', 1)
+    await kv.set('ow', 2)
+    assert.equal(await kv.get('ow'), 2)
+  }],
+
+  ['{ ex } expires the key', async kv => {
+    await kv.set('short', 'soon gone', { ex: 1 })
+    const left = await kv.ttl('short')
+    assert.ok(left !== null && left > 0 && left <= 1, `ttl ${left}`)
+    await sleep(1200)
+    assert.equal(await kv.get('short'), null)
+    assert.equal(await kv.ttl('short'), null)
+  }],
+
+  ['no { ex } never expires', async kv => {
+    await kv.set('forever', 1)
+    assert.equal(await kv.ttl('forever'), Infinity)
+  }],
+
+  ['re-setting without { ex } clears the expiry', async kv => {
+    await kv.set('persist', 1, { ex: 60 })
+    await kv.set('persist', 2)
+    assert.equal(await kv.ttl('persist'), Infinity)
+  }],
+
+  ['delete reports whether something was removed', async kv => {
+    await kv.set('del', 1)
+    assert.equal(await kv.delete('del'), true)
+    assert.equal(await kv.get('del'), null)
+    assert.equal(await kv.delete('del'), false)
+  }],
+
+  ['incr counts atomically and keeps the first expiry', async kv => {
+    const hits = await Promise.all(Array.from({ length: 20 }, () => kv.incr('ctr', { ex: 1 })))
+    assert.deepEqual([...hits].sort((a, b) => a - b), Array.from({ length: 20 }, (_, i) => i + 1))
+    assert.equal(await kv.get('ctr'), 20)
+    await sleep(1200)
+    assert.equal(await kv.incr('ctr', { ex: 60 }), 1)
+    const left = await kv.ttl('ctr')
+    assert.ok(left !== null && left > 58, `ttl ${left}`)
+  }],
+
+  ['namespaces are isolated', async kv => {
+    const a = kv.namespace('a')
+    const b = kv.namespace('b')
+    await a.set('k', 'from a')
+    await b.set('k', 'from b')
+    assert.equal(await a.get('k'), 'from a')
+    assert.equal(await b.get('k'), 'from b')
+    assert.equal(await kv.get('k'), null)
+    await a.delete('k')
+    assert.equal(await b.get('k'), 'from b')
+    assert.equal(await kv.namespace('a').namespace('x').get('k'), null)
+  }],
+
+  ['undefined is rejected', async kv => {
+    await assert.rejects(kv.set('undef', undefined))
+  }],
+]
+
+/* ---------- runner ----------------------------------------------- */
+async function run (driver: string) {
+  /* fresh namespace per run so a shared Redis isn't polluted */
+  const kv = createKV(driver, `kv-check:${Date.now()}`)
+  let failed = 0
+  for (const [name, check] of checks) {
+    try {
+      await check(kv)
+      console.log(`  ✓ ${name}`)
+    } catch (err) {
+      failed++
+      console.log(`  ✗ ${name}\n    ${(err as Error).message}`)
+    }
+  }
+  return failed
+}
+
+;(async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'kv-check-'))
+  process.env.KV_SQLITE_PATH = path.join(dir, 'kv.sqlite')
+
+  const drivers = ['memory', 'sqlite', ...(process.env.KV_REDIS_URL ? ['redis'] : [])]
+  let failed = 0
+  try {
+    for (const d of drivers) {
+      console.log(`\n${d}`)
+      failed += await run(d)
+    }
+    if (!process.env.KV_REDIS_URL) console.log('\nredis\n  – skipped (set KV_REDIS_URL)')
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+
+  console.log(failed ? `\n${failed} check(s) failed` : '\nall drivers pass')
+  process.exit(failed ? 1 : 0)
+})()
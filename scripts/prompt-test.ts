@@ -1,9 +1,28 @@
-// scripts/prompt-test.ts
-import { getPromptForPlaceholder } from '../sanity/lib/getPromptForPlaceholder';
+/**********************************************************************
+ * scripts/prompt-test.ts
+ * Print the prompt a placeholder would send – no image is drawn
+ * --------------------------------------------------------------------
+ *   tsx scripts/prompt-test.ts <placeholderId> [revision] [name=value …]
+ *
+ * Resolves the live revision (or the one given) and fills in the
+ * variables exactly as /api/variants would.  To draw images, use the
+ * "Prompt playground" tool in the Studio.
+ *********************************************************************/
+import { getPromptForPlaceholder } from '../sanity/lib/getPromptForPlaceholder'
 
-/* replace with a real ID from Studio */
-getPromptForPlaceholder('dc9022bc-0c64-4d3a-8e85-bb3148aec8f2')
+const [id, ...rest] = process.argv.slice(2)
+if (!id) {
+  console.error('usage: tsx scripts/prompt-test.ts <placeholderId> [revision] [name=value …]')
+  process.exit(2)
+}
+
+const revision = rest[0] && !rest[0].includes('=') ? rest.shift() : undefined
+const values   = Object.fromEntries(rest.map(kv => {
+  const i = kv.indexOf('=')
+  return [kv.slice(0, i), kv.slice(i + 1)]
+}))
+
+getPromptForPlaceholder(id, values, revision)
   .then(console.log)
-  .catch(console.error)
-  .finally(() => process.exit());
-  
\ No newline at end of file
+  .catch(err => { console.error(err.message); process.exitCode = 1 })
+  .finally(() => process.exit())